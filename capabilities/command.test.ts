@@ -0,0 +1,204 @@
+import { beforeEach, describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import { isSuccess } from "@joyautomation/dark-matter";
+import {
+  CommandExecutor,
+  getErrorKind,
+  withCommandExecutor,
+  withPrivilegeStrategy,
+} from "../command.ts";
+import {
+  clearToolCapabilities,
+  compareVersions,
+  getToolCapabilities,
+  getToolCapability,
+  probeNft,
+  requireTool,
+} from "./command.ts";
+
+// Answers probes like a host with the given tool outputs; missing tools are
+// reported the way the shell does
+const createHost = (
+  outputs: Record<string, string>,
+  runs: string[] = [],
+): CommandExecutor =>
+(command, options) => {
+  const argv = [String(command), ...(options.args ?? []).map(String)];
+  runs.push(argv.join(" "));
+  const stdout = outputs[argv.join(" ")];
+  return Promise.resolve({
+    argv,
+    exitCode: stdout === undefined ? 127 : 0,
+    signal: null,
+    stdout: stdout ?? "",
+    stderr: stdout === undefined ? `sh: ${argv[0]}: command not found` : "",
+    durationMs: 1,
+  });
+};
+
+const DEBIAN_12 = {
+  "ip -V": "ip utility, iproute2-6.1.0, libbpf 1.1.0\n",
+  "nft -v": "nftables v1.0.6 (Lester Gooch #5)\n",
+  "sudo -n nft -j list tables": JSON.stringify({
+    nftables: [{
+      metainfo: {
+        version: "1.0.6",
+        release_name: "Lester Gooch #5",
+        json_schema_version: 1,
+      },
+    }],
+  }),
+  "netplan --help":
+    "usage: netplan [-h] [--debug]  ...\n\nAvailable commands:\n    help  Show this help message\n    apply  Apply current netplan config\n    get  Get a setting\n    status  Query networking state\n",
+  "tshark -v":
+    "TShark (Wireshark) 4.0.11 (Git v4.0.11 packaged as 4.0.11-1~deb12u1).\n",
+};
+
+const probeWith = <T>(host: CommandExecutor, fn: () => Promise<T>) =>
+  withCommandExecutor(host, () => withPrivilegeStrategy("none", fn));
+
+describe("compareVersions", () => {
+  it("should compare numerically, part by part", () => {
+    expect(compareVersions("4.13.0", "4.9.0")).toBeGreaterThan(0);
+    expect(compareVersions("2.2", "2.2.0")).toBe(0);
+    expect(compareVersions("1.0.6", "1.0.9")).toBeLessThan(0);
+  });
+});
+
+describe("getToolCapabilities", () => {
+  beforeEach(() => clearToolCapabilities());
+
+  it("should report versions and features", async () => {
+    const result = await probeWith(
+      createHost(DEBIAN_12),
+      () => getToolCapabilities(),
+    );
+    expect(isSuccess(result) && result.output).toEqual({
+      ip: { installed: true, version: "6.1.0", json: true },
+      nft: { installed: true, version: "1.0.6", json: true },
+      netplan: { installed: true, get: true, status: true },
+      tshark: { installed: true, version: "4.0.11", json: true, ek: true },
+    });
+  });
+
+  it("should report old and missing tools", async () => {
+    const result = await probeWith(
+      createHost({
+        "ip -V": "ip utility, iproute2-ss161212\n",
+        "nft -v": "nftables v0.7 (Scrooge McDuck)\n",
+        "tshark -v": "TShark 1.10.6 (v1.10.6 from master-1.10)\n",
+      }),
+      () => getToolCapabilities(),
+    );
+    expect(isSuccess(result) && result.output).toEqual({
+      ip: { installed: true, version: "ss161212", json: false },
+      nft: { installed: true, version: "0.7", json: false },
+      netplan: { installed: false, get: false, status: false },
+      tshark: { installed: true, version: "1.10.6", json: false, ek: false },
+    });
+  });
+
+  it("should probe each tool once per host", async () => {
+    const runs: string[] = [];
+    const host = createHost(DEBIAN_12, runs);
+    await probeWith(host, () => getToolCapability("tshark"));
+    await probeWith(host, () => getToolCapability("tshark"));
+    expect(runs).toEqual(["tshark -v"]);
+    await probeWith(
+      createHost(DEBIAN_12, runs),
+      () => getToolCapability("tshark"),
+    );
+    expect(runs.length).toBe(2);
+  });
+
+  it("should keep probing for callers that stop waiting", async () => {
+    const runs: string[] = [];
+    const answer = createHost(DEBIAN_12, runs);
+    let respond = () => {};
+    const host: CommandExecutor = (command, options) =>
+      new Promise((resolve) => {
+        respond = () => resolve(answer(command, options));
+      });
+    const controller = new AbortController();
+    const [cancelled, probed] = await probeWith(host, () => {
+      const waits = [
+        getToolCapability("tshark", { signal: controller.signal }),
+        getToolCapability("tshark"),
+      ];
+      controller.abort();
+      respond();
+      return Promise.all(waits);
+    });
+    expect(getErrorKind(cancelled)).toBe("cancelled");
+    expect(isSuccess(probed) && probed.output.version).toBe("4.0.11");
+    expect(runs).toEqual(["tshark -v"]);
+  });
+
+  it("should only forget the current host's capabilities", async () => {
+    const runs: string[] = [];
+    const local = createHost(DEBIAN_12, runs);
+    const remote = Object.assign(createHost(DEBIAN_12, runs), {
+      host: "edge-07",
+    });
+    await probeWith(local, () => getToolCapability("tshark"));
+    await probeWith(remote, () => getToolCapability("tshark"));
+    await probeWith(remote, () => Promise.resolve(clearToolCapabilities()));
+    await probeWith(local, () => getToolCapability("tshark"));
+    await probeWith(remote, () => getToolCapability("tshark"));
+    expect(runs).toEqual(["tshark -v", "tshark -v", "tshark -v"]);
+  });
+});
+
+describe("probeNft", () => {
+  it("should only list the tables for the schema version", async () => {
+    const runs: string[] = [];
+    const host = createHost(DEBIAN_12, runs);
+    const onSudoHost = <T>(fn: () => Promise<T>) =>
+      withCommandExecutor(host, () => withPrivilegeStrategy("sudo", fn));
+    const probed = await onSudoHost(() => probeNft());
+    expect(isSuccess(probed) && probed.output).toEqual({
+      installed: true,
+      version: "1.0.6",
+      json: true,
+    });
+    expect(runs).toEqual(["nft -v"]);
+    const listed = await onSudoHost(() => probeNft({ schemaVersion: true }));
+    expect(isSuccess(listed) && listed.output.jsonSchemaVersion).toBe(1);
+    expect(runs).toEqual(["nft -v", "nft -v", "sudo -n nft -j list tables"]);
+  });
+
+  it("should leave the schema version out when listing is refused", async () => {
+    const result = await probeWith(
+      createHost({ "nft -v": "nftables v1.0.6 (Lester Gooch #5)\n" }),
+      () => probeNft({ schemaVersion: true }),
+    );
+    expect(isSuccess(result) && result.output).toEqual({
+      installed: true,
+      version: "1.0.6",
+      json: true,
+    });
+  });
+});
+
+describe("requireTool", () => {
+  beforeEach(() => clearToolCapabilities());
+
+  it("should fail early for missing tools and features", async () => {
+    const host = createHost({
+      "tshark -v":
+        "TShark (Wireshark) 2.6.20 (Git v2.6.20 packaged as 2.6.20-0+deb10u1)\n",
+    });
+    const missing = await probeWith(host, () => requireTool("netplan"));
+    expect(getErrorKind(missing)).toBe("not-installed");
+    expect(!isSuccess(missing) && missing.error).toBe(
+      "netplan is not installed",
+    );
+    const old = await probeWith(host, () => requireTool("tshark", "json"));
+    expect(getErrorKind(old)).toBe("unsupported");
+    expect(!isSuccess(old) && old.error).toBe(
+      "tshark 2.6.20 does not support JSON output",
+    );
+    const present = await probeWith(host, () => requireTool("tshark"));
+    expect(isSuccess(present)).toBe(true);
+  });
+});
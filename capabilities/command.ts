@@ -0,0 +1,436 @@
+import {
+  createSuccess,
+  isSuccess,
+  Result,
+  rpipeAsync,
+} from "@joyautomation/dark-matter";
+import {
+  CancellationOptions,
+  CommandExecutor,
+  createKindFail,
+  getCommandExecutor,
+  getErrorKind,
+  privileged,
+  runCommand,
+} from "../command.ts";
+import { isNftablesList, isNftMetainfo } from "../nftables/types.ts";
+import {
+  IpCapabilities,
+  NetplanCapabilities,
+  NftCapabilities,
+  ToolCapabilities,
+  ToolFeature,
+  ToolName,
+  TsharkCapabilities,
+} from "./types.ts";
+
+// First releases supporting each feature
+const IP_JSON_VERSION = "4.13.0";
+// iproute2 4.13 was tagged by snapshot date before releases were numbered
+const IP_JSON_SNAPSHOT = 170905;
+const NFT_JSON_VERSION = "0.9.0";
+// -T json arrived in 2.2, but the tshark module also needs
+// --no-duplicate-keys, added in 3.0
+const TSHARK_JSON_VERSION = "3.0.0";
+const TSHARK_EK_VERSION = "1.12.0";
+
+const FEATURE_DESCRIPTIONS: Record<string, string> = {
+  json: "JSON output",
+  ek: "EK output",
+  get: "the get command",
+  status: "the status command",
+};
+
+/**
+ * Compares two dotted version numbers numerically.
+ *
+ * @param a - First version, e.g. "1.0.9"
+ * @param b - Second version
+ * @returns A negative number if a is older, 0 if equal, positive if newer
+ *
+ * @example
+ * ```ts
+ * compareVersions("4.0.11", "3.0.0") > 0; // true
+ * ```
+ */
+export const compareVersions = (a: string, b: string): number => {
+  const left = a.split(".").map((part) => parseInt(part, 10) || 0);
+  const right = b.split(".").map((part) => parseInt(part, 10) || 0);
+  for (let index = 0; index < Math.max(left.length, right.length); index++) {
+    const difference = (left[index] ?? 0) - (right[index] ?? 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+};
+
+/**
+ * Runs a probe command, succeeding with undefined when the tool is missing.
+ */
+const probe = async (
+  command: string,
+  args: string[],
+  options: CancellationOptions,
+): Promise<Result<string | undefined>> => {
+  const result = await runCommand(command, { args, ...options });
+  return !isSuccess(result) && getErrorKind(result) === "not-installed"
+    ? createSuccess(undefined)
+    : result;
+};
+
+/**
+ * Probes `ip` for its iproute2 version and JSON support.
+ *
+ * @param options - Timeout and AbortSignal for the command
+ * @returns A Promise resolving to a Result containing the capabilities; it
+ *          only fails if `ip -V` fails for another reason than being missing
+ *
+ * @example
+ * ```ts
+ * const result = await probeIp();
+ * // { installed: true, version: "6.1.0", json: true }
+ * ```
+ */
+export const probeIp = (
+  options: CancellationOptions = {},
+): Promise<Result<IpCapabilities>> =>
+  rpipeAsync(
+    () => probe("ip", ["-V"], options),
+    (output): Result<IpCapabilities> => {
+      if (output === undefined) {
+        return createSuccess({ installed: false, json: false });
+      }
+      const match = output.match(/iproute2-(ss)?(\d[\w.]*)/);
+      if (!match) return createSuccess({ installed: true, json: false });
+      const [, snapshot, version] = match;
+      return createSuccess({
+        installed: true,
+        version: snapshot ? `ss${version}` : version,
+        json: snapshot
+          ? Number(version) >= IP_JSON_SNAPSHOT
+          : compareVersions(version, IP_JSON_VERSION) >= 0,
+      });
+    },
+  );
+
+/**
+ * Options for probeNft.
+ */
+export interface NftProbeOptions extends CancellationOptions {
+  /**
+   * Also list the tables as JSON, elevated with the privilege strategy, to
+   * read the JSON schema version from the output's metainfo
+   */
+  schemaVersion?: boolean;
+}
+
+/**
+ * Probes `nft` for its version and JSON support.
+ *
+ * The version is read from `nft -v`, which needs no privileges, and JSON
+ * support derived from it. Only when the schema version is asked for are the
+ * tables listed as JSON; if that listing fails for another reason than a
+ * timeout or cancellation, the schema version is left out.
+ *
+ * @param options - Whether to read the JSON schema version, and timeout and
+ *                  AbortSignal for each command
+ * @returns A Promise resolving to a Result containing the capabilities
+ *
+ * @example
+ * ```ts
+ * const result = await probeNft({ schemaVersion: true });
+ * // { installed: true, version: "1.0.9", json: true, jsonSchemaVersion: 1 }
+ * ```
+ */
+export const probeNft = async (
+  { schemaVersion = false, ...options }: NftProbeOptions = {},
+): Promise<Result<NftCapabilities>> => {
+  const probed = await rpipeAsync(
+    () => probe("nft", ["-v"], options),
+    (output): Result<NftCapabilities> => {
+      if (output === undefined) {
+        return createSuccess({ installed: false, json: false });
+      }
+      const version = output.match(/v(\d+(?:\.\d+)+)/)?.[1];
+      return createSuccess({
+        installed: true,
+        ...(version ? { version } : {}),
+        json: version !== undefined &&
+          compareVersions(version, NFT_JSON_VERSION) >= 0,
+      });
+    },
+  );
+  if (!schemaVersion || !isSuccess(probed) || !probed.output.json) {
+    return probed;
+  }
+  const listed = await runCommand(
+    ...privileged("nft", { args: ["-j", "list", "tables"], ...options }),
+  );
+  if (!isSuccess(listed)) {
+    return ["timeout", "cancelled"].includes(getErrorKind(listed) ?? "")
+      ? listed
+      : probed;
+  }
+  try {
+    const list: unknown = JSON.parse(listed.output);
+    const metainfo = isNftablesList(list)
+      ? list.nftables.map((entry) => "metainfo" in entry && entry.metainfo)
+        .find(isNftMetainfo)
+      : undefined;
+    return metainfo
+      ? createSuccess({
+        ...probed.output,
+        jsonSchemaVersion: metainfo.json_schema_version,
+      })
+      : probed;
+  } catch {
+    // Not JSON: leave the schema version out
+    return probed;
+  }
+};
+
+/**
+ * Probes `netplan` for the commands it offers.
+ *
+ * @param options - Timeout and AbortSignal for the command
+ * @returns A Promise resolving to a Result containing the capabilities
+ *
+ * @example
+ * ```ts
+ * const result = await probeNetplan();
+ * // { installed: true, get: true, status: true }
+ * ```
+ */
+export const probeNetplan = (
+  options: CancellationOptions = {},
+): Promise<Result<NetplanCapabilities>> =>
+  rpipeAsync(
+    () => probe("netplan", ["--help"], options),
+    (output): Result<NetplanCapabilities> =>
+      createSuccess(
+        output === undefined
+          ? { installed: false, get: false, status: false }
+          : {
+            installed: true,
+            get: /^\s+get\b/m.test(output),
+            status: /^\s+status\b/m.test(output),
+          },
+      ),
+  );
+
+/**
+ * Probes `tshark` for its Wireshark version and output formats.
+ *
+ * @param options - Timeout and AbortSignal for the command
+ * @returns A Promise resolving to a Result containing the capabilities
+ *
+ * @example
+ * ```ts
+ * const result = await probeTshark();
+ * // { installed: true, version: "4.0.11", json: true, ek: true }
+ * ```
+ */
+export const probeTshark = (
+  options: CancellationOptions = {},
+): Promise<Result<TsharkCapabilities>> =>
+  rpipeAsync(
+    () => probe("tshark", ["-v"], options),
+    (output): Result<TsharkCapabilities> => {
+      if (output === undefined) {
+        return createSuccess({ installed: false, json: false, ek: false });
+      }
+      const version = output.match(/TShark(?: \([^)]*\))? (\d+(?:\.\d+)+)/)
+        ?.[1];
+      return createSuccess({
+        installed: true,
+        ...(version ? { version } : {}),
+        json: version !== undefined &&
+          compareVersions(version, TSHARK_JSON_VERSION) >= 0,
+        ek: version !== undefined &&
+          compareVersions(version, TSHARK_EK_VERSION) >= 0,
+      });
+    },
+  );
+
+const probes: {
+  [T in ToolName]: (
+    options: CancellationOptions,
+  ) => Promise<Result<ToolCapabilities[T]>>;
+} = {
+  ip: probeIp,
+  nft: probeNft,
+  netplan: probeNetplan,
+  tshark: probeTshark,
+};
+
+const capabilityCache = new Map<
+  string | CommandExecutor,
+  Map<ToolName, Promise<Result<unknown>>>
+>();
+
+// Bounds a shared probe, which no caller's timeout or signal cancels, so a
+// hung tool is not cached
+const PROBE_TIMEOUT_MS = 30_000;
+
+/**
+ * Waits for a shared probe until the caller's timeout elapses or its signal
+ * is aborted, leaving the probe running for the other callers.
+ */
+const awaitProbe = <T>(
+  tool: ToolName,
+  probed: Promise<Result<T>>,
+  { timeout, signal }: CancellationOptions,
+): Promise<Result<T>> => {
+  if (timeout === undefined && !signal) return probed;
+  return new Promise((resolve) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const finish = (result: Result<T>) => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", abort);
+      resolve(result);
+    };
+    const abort = () =>
+      finish(createKindFail("cancelled", `Probing ${tool} was cancelled`));
+    if (signal?.aborted) return abort();
+    signal?.addEventListener("abort", abort, { once: true });
+    if (timeout !== undefined) {
+      timer = setTimeout(
+        () =>
+          finish(
+            createKindFail(
+              "timeout",
+              `Probing ${tool} timed out after ${timeout}ms`,
+            ),
+          ),
+        timeout,
+      );
+    }
+    probed.then(finish);
+  });
+};
+
+/**
+ * Returns the capabilities of one tool on the current host.
+ *
+ * The tool is probed once per host (the local machine, or each host of
+ * withSshHost) and the result cached; failed probes are not cached. Callers
+ * share the probe, so a caller's timeout or signal only ends its own wait.
+ *
+ * @param tool - The tool to probe
+ * @param options - Timeout and AbortSignal for waiting on the probe
+ * @returns A Promise resolving to a Result containing the capabilities
+ *
+ * @example
+ * ```ts
+ * const result = await getToolCapability("nft");
+ * if (isSuccess(result) && !result.output.installed) await installNft();
+ * ```
+ */
+export const getToolCapability = <T extends ToolName>(
+  tool: T,
+  options: CancellationOptions = {},
+): Promise<Result<ToolCapabilities[T]>> => {
+  const executor = getCommandExecutor();
+  const key = executor.host ?? executor;
+  const cache = capabilityCache.get(key) ?? new Map();
+  capabilityCache.set(key, cache);
+  const cached = cache.get(tool) as
+    | Promise<Result<ToolCapabilities[T]>>
+    | undefined;
+  if (cached) return awaitProbe(tool, cached, options);
+  const probed = probes[tool]({ timeout: PROBE_TIMEOUT_MS });
+  cache.set(tool, probed);
+  probed.then((result) => {
+    if (!isSuccess(result) && cache.get(tool) === probed) cache.delete(tool);
+  });
+  return awaitProbe(tool, probed, options);
+};
+
+/**
+ * Returns the capabilities of every tool the library wraps on the current
+ * host, probing each once per host.
+ *
+ * @param options - Timeout and AbortSignal for waiting on the probes
+ * @returns A Promise resolving to a Result containing the capabilities
+ *
+ * @example
+ * ```ts
+ * const result = await getToolCapabilities();
+ * if (isSuccess(result)) {
+ *   console.log(`nft ${result.output.nft.version}, tshark ${result.output.tshark.version}`);
+ * }
+ * ```
+ */
+export const getToolCapabilities = async (
+  options: CancellationOptions = {},
+): Promise<Result<ToolCapabilities>> => {
+  const [ip, nft, netplan, tshark] = await Promise.all([
+    getToolCapability("ip", options),
+    getToolCapability("nft", options),
+    getToolCapability("netplan", options),
+    getToolCapability("tshark", options),
+  ]);
+  if (!isSuccess(ip)) return ip;
+  if (!isSuccess(nft)) return nft;
+  if (!isSuccess(netplan)) return netplan;
+  if (!isSuccess(tshark)) return tshark;
+  return createSuccess({
+    ip: ip.output,
+    nft: nft.output,
+    netplan: netplan.output,
+    tshark: tshark.output,
+  });
+};
+
+/**
+ * Checks that a tool is installed on the current host and, optionally, that
+ * it supports a feature.
+ *
+ * The modules call this before running commands whose output they depend on,
+ * so an old or missing tool fails early with a clear message.
+ *
+ * @param tool - The tool needed
+ * @param feature - A feature the tool must support
+ * @param options - Timeout and AbortSignal for waiting on the probe
+ * @returns A Promise resolving to a Result containing the tool's
+ *          capabilities, or failing with kind "not-installed" or
+ *          "unsupported"
+ *
+ * @example
+ * ```ts
+ * const result = await requireTool("tshark", "json");
+ * // Failed: "tshark 2.0.2 does not support JSON output"
+ * ```
+ */
+export const requireTool = <T extends ToolName>(
+  tool: T,
+  feature?: ToolFeature<T>,
+  options: CancellationOptions = {},
+): Promise<Result<ToolCapabilities[T]>> =>
+  rpipeAsync(
+    () => getToolCapability(tool, options),
+    (capability): Result<ToolCapabilities[T]> => {
+      if (!capability.installed) {
+        return createKindFail("not-installed", `${tool} is not installed`);
+      }
+      if (feature !== undefined && !capability[feature]) {
+        return createKindFail(
+          "unsupported",
+          `${tool}${
+            capability.version ? ` ${capability.version}` : ""
+          } does not support ${
+            FEATURE_DESCRIPTIONS[String(feature)] ?? String(feature)
+          }`,
+        );
+      }
+      return createSuccess(capability);
+    },
+  );
+
+/**
+ * Forgets the probed capabilities of the current host, e.g. after installing
+ * or upgrading a tool there; other hosts keep theirs.
+ */
+export const clearToolCapabilities = (): void => {
+  const executor = getCommandExecutor();
+  capabilityCache.delete(executor.host ?? executor);
+};
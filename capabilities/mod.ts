@@ -0,0 +1,25 @@
+/**
+ * @module
+ *
+ * Installed version and feature detection for the wrapped tools.
+ *
+ * This module probes ip, nft, netplan and tshark once per host and reports
+ * whether they are installed, their versions and the features the other
+ * modules depend on, such as JSON output, and installs missing tools with the
+ * distribution's package manager.
+ *
+ * @example
+ * ```ts
+ * import { getToolCapabilities } from "@joyautomation/statocyst/capabilities";
+ * import { isSuccess } from "@joyautomation/dark-matter";
+ *
+ * const result = await getToolCapabilities();
+ * if (isSuccess(result)) {
+ *   console.log(result.output.nft.version);
+ * }
+ * ```
+ */
+
+export * from "./types.ts";
+export * from "./command.ts";
+export * from "./packages.ts";
@@ -0,0 +1,152 @@
+import { beforeEach, describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import { isSuccess } from "@joyautomation/dark-matter";
+import {
+  CommandExecutor,
+  dryRun,
+  getErrorKind,
+  withCommandExecutor,
+  withPrivilegeStrategy,
+} from "../command.ts";
+import { clearToolCapabilities } from "./command.ts";
+import {
+  ensureInstalled,
+  parseOsRelease,
+  selectPackageManager,
+} from "./packages.ts";
+
+const ALPINE = 'NAME="Alpine Linux"\nID=alpine\nVERSION_ID=3.20.3\n';
+
+// A host with the given os-release and tools; other commands are missing
+const createHost = (
+  osRelease: string,
+  outputs: Record<string, string>,
+): CommandExecutor =>
+(command, options) => {
+  const argv = [String(command), ...(options.args ?? []).map(String)];
+  const stdout = { "cat /etc/os-release": osRelease, ...outputs }[
+    argv.join(" ")
+  ];
+  return Promise.resolve({
+    argv,
+    exitCode: stdout === undefined ? 127 : 0,
+    signal: null,
+    stdout: stdout ?? "",
+    stderr: stdout === undefined ? `sh: ${argv[0]}: not found` : "",
+    durationMs: 1,
+  });
+};
+
+const onHost = <T>(host: CommandExecutor, fn: () => Promise<T>) =>
+  withCommandExecutor(host, () => withPrivilegeStrategy("none", fn));
+
+describe("selectPackageManager", () => {
+  it("should pick the package manager of a distribution or its parent", () => {
+    const select = (content: string) =>
+      selectPackageManager(parseOsRelease(content));
+    expect(select('ID=ubuntu\nID_LIKE=debian\nVERSION_ID="24.04"\n')).toBe(
+      "apt",
+    );
+    expect(select('ID="rocky"\nID_LIKE="rhel centos fedora"\nVERSION_ID="9.4"'))
+      .toBe("dnf");
+    expect(select('ID="centos"\nID_LIKE="rhel fedora"\nVERSION_ID="7"')).toBe(
+      "yum",
+    );
+    expect(select(ALPINE)).toBe("apk");
+    expect(select("ID=manjaro\nID_LIKE=arch\n")).toBe("pacman");
+    expect(select('ID="opensuse-leap"\nID_LIKE="suse opensuse"\n')).toBe(
+      "zypper",
+    );
+    expect(select("ID=nixos\n")).toBeUndefined();
+  });
+});
+
+describe("ensureInstalled", () => {
+  beforeEach(() => clearToolCapabilities());
+
+  it("should plan installing only the missing tools", async () => {
+    const host = createHost(ALPINE, {
+      "ip -V": "ip utility, iproute2-6.9.0\n",
+    });
+    const { result, commands } = await onHost(
+      host,
+      () => dryRun(() => ensureInstalled(["ip", "nft", "tshark"])),
+    );
+    expect(isSuccess(result) && result.output).toEqual({
+      packageManager: "apk",
+      installed: [
+        { tool: "nft", package: "nftables" },
+        { tool: "tshark", package: "tshark" },
+      ],
+      alreadyInstalled: ["ip"],
+      dryRun: true,
+    });
+    expect(commands).toEqual([
+      { argv: ["apk", "add", "--update-cache", "nftables", "tshark"] },
+    ]);
+  });
+
+  it("should refresh the package index and keep apt's environment under sudo", async () => {
+    const host = createHost(
+      'ID=ubuntu\nID_LIKE=debian\nVERSION_ID="24.04"\n',
+      {},
+    );
+    const { result, commands } = await withCommandExecutor(
+      host,
+      () =>
+        withPrivilegeStrategy(
+          "sudo",
+          () => dryRun(() => ensureInstalled("nft")),
+        ),
+    );
+    expect(isSuccess(result) && result.output.packageManager).toBe("apt");
+    expect(commands).toEqual([
+      { argv: ["sudo", "-n", "apt-get", "update"] },
+      {
+        argv: [
+          "sudo",
+          "-n",
+          "env",
+          "DEBIAN_FRONTEND=noninteractive",
+          "apt-get",
+          "install",
+          "-y",
+          "nftables",
+        ],
+      },
+    ]);
+  });
+
+  it("should upgrade with pacman instead of only refreshing", async () => {
+    const { commands } = await onHost(
+      createHost("ID=arch\n", {}),
+      () => dryRun(() => ensureInstalled("tshark")),
+    );
+    expect(commands).toEqual([
+      {
+        argv: ["pacman", "-Syu", "--noconfirm", "--needed", "wireshark-cli"],
+      },
+    ]);
+  });
+
+  it("should install nothing when every tool is present", async () => {
+    const host = createHost(ALPINE, {
+      "tshark -v": "TShark (Wireshark) 4.2.6.\n",
+    });
+    const { result, commands } = await onHost(
+      host,
+      () => dryRun(() => ensureInstalled("tshark")),
+    );
+    expect(isSuccess(result) && result.output.installed).toEqual([]);
+    expect(commands).toEqual([]);
+  });
+
+  it("should fail for tools the distribution does not package", async () => {
+    const result = await onHost(
+      createHost("ID=arch\n", {}),
+      () => dryRun(() => ensureInstalled("netplan")),
+    );
+    expect(getErrorKind(result.result)).toBe("unsupported");
+    expect(result.commands).toEqual([]);
+  });
+});
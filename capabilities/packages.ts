@@ -0,0 +1,265 @@
+import {
+  createSuccess,
+  isSuccess,
+  Result,
+  rpipeAsync,
+} from "@joyautomation/dark-matter";
+import {
+  CancellationOptions,
+  createKindFail,
+  isDryRun,
+  privileged,
+  runCommandAndProcessOutput,
+  withMutationLock,
+} from "../command.ts";
+import { clearToolCapabilities, getToolCapability } from "./command.ts";
+import {
+  InstalledPackage,
+  InstallReport,
+  PackageManager,
+  ToolName,
+} from "./types.ts";
+
+/**
+ * How each package manager refreshes its package index and installs packages
+ * without prompting. Environment variables are set with env(1) in the argv,
+ * as sudo would otherwise drop them. apk, dnf and pacman refresh with a flag
+ * of the install command instead of a separate one; pacman also upgrades the
+ * installed packages with it, as Arch does not support partial upgrades
+ * (refreshing without upgrading can install packages built against newer
+ * libraries than the system has).
+ */
+const INSTALL_COMMANDS: Record<
+  PackageManager,
+  { refresh?: string[]; install: string[] }
+> = {
+  apt: {
+    refresh: ["apt-get", "update"],
+    install: [
+      "env",
+      "DEBIAN_FRONTEND=noninteractive",
+      "apt-get",
+      "install",
+      "-y",
+    ],
+  },
+  dnf: { install: ["dnf", "install", "-y", "--refresh"] },
+  yum: { refresh: ["yum", "makecache"], install: ["yum", "install", "-y"] },
+  apk: { install: ["apk", "add", "--update-cache"] },
+  pacman: { install: ["pacman", "-Syu", "--noconfirm", "--needed"] },
+  zypper: {
+    refresh: ["zypper", "--non-interactive", "refresh"],
+    install: ["zypper", "--non-interactive", "install"],
+  },
+};
+
+/**
+ * The package providing each tool, per package manager. Missing entries have
+ * no package in the distribution's main repositories.
+ */
+const TOOL_PACKAGES: Record<
+  ToolName,
+  Partial<Record<PackageManager, string>>
+> = {
+  ip: {
+    apt: "iproute2",
+    dnf: "iproute",
+    yum: "iproute",
+    apk: "iproute2",
+    pacman: "iproute2",
+    zypper: "iproute2",
+  },
+  nft: {
+    apt: "nftables",
+    dnf: "nftables",
+    yum: "nftables",
+    apk: "nftables",
+    pacman: "nftables",
+    zypper: "nftables",
+  },
+  netplan: { apt: "netplan.io", dnf: "netplan", apk: "netplan" },
+  tshark: {
+    apt: "tshark",
+    dnf: "wireshark-cli",
+    yum: "wireshark",
+    apk: "tshark",
+    pacman: "wireshark-cli",
+    zypper: "wireshark",
+  },
+};
+
+/**
+ * Parses the KEY=value lines of /etc/os-release, removing quotes.
+ *
+ * @param content - The file's content
+ * @returns The fields by key
+ *
+ * @example
+ * ```ts
+ * parseOsRelease('ID=rocky\nID_LIKE="rhel centos fedora"\n');
+ * // { ID: "rocky", ID_LIKE: "rhel centos fedora" }
+ * ```
+ */
+export const parseOsRelease = (content: string): Record<string, string> =>
+  Object.fromEntries(
+    content.split("\n")
+      .map((line) => line.match(/^([A-Z0-9_]+)=(["']?)(.*)\2$/))
+      .filter((match) => match !== null)
+      .map(([, key, , value]) => [key, value]),
+  );
+
+/**
+ * Picks the package manager of a distribution from its os-release fields.
+ *
+ * The distribution's ID is tried first, then each ID_LIKE entry, so
+ * derivatives such as Rocky Linux or Linux Mint resolve to their parent.
+ *
+ * @param osRelease - Fields of /etc/os-release (see parseOsRelease)
+ * @returns The package manager, or undefined for unknown distributions
+ */
+export const selectPackageManager = (
+  osRelease: Record<string, string>,
+): PackageManager | undefined => {
+  const major = parseInt(osRelease.VERSION_ID ?? "", 10);
+  const ids = [osRelease.ID, ...(osRelease.ID_LIKE ?? "").split(/\s+/)];
+  for (const id of ids) {
+    switch (id) {
+      case "debian":
+      case "ubuntu":
+        return "apt";
+      case "fedora":
+        return "dnf";
+      case "rhel":
+      case "centos":
+        // dnf replaced yum in RHEL 8
+        return major < 8 ? "yum" : "dnf";
+      case "alpine":
+        return "apk";
+      case "arch":
+        return "pacman";
+      case "suse":
+      case "opensuse":
+      case "sles":
+        return "zypper";
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Detects the package manager of the current host from /etc/os-release.
+ *
+ * The file is read with a command, so this also works within withSshHost.
+ *
+ * @param options - Timeout and AbortSignal for the command
+ * @returns A Promise resolving to a Result containing the package manager,
+ *          or failing with kind "unsupported" for unknown distributions
+ *
+ * @example
+ * ```ts
+ * const result = await detectPackageManager();
+ * if (isSuccess(result)) console.log(result.output); // e.g. "apk"
+ * ```
+ */
+export const detectPackageManager = (
+  options: CancellationOptions = {},
+): Promise<Result<PackageManager>> =>
+  rpipeAsync(
+    () =>
+      runCommandAndProcessOutput(parseOsRelease, "cat", {
+        args: ["/etc/os-release"],
+        ...options,
+      }),
+    (osRelease): Result<PackageManager> => {
+      const packageManager = selectPackageManager(osRelease);
+      return packageManager ? createSuccess(packageManager) : createKindFail(
+        "unsupported",
+        `No supported package manager for ${
+          osRelease.PRETTY_NAME ?? osRelease.ID ?? "this distribution"
+        }`,
+      );
+    },
+  );
+
+/**
+ * Installs the packages providing any of the given tools that are missing
+ * on the current host.
+ *
+ * The package manager is detected from /etc/os-release (apt, dnf, yum, apk,
+ * pacman or zypper) and run non-interactively, elevated with the privilege
+ * strategy. The package index is refreshed first (on Arch, with a full
+ * system upgrade), then all missing tools are installed with one command,
+ * while holding the mutation lock. Inside dryRun
+ * the commands are only planned.
+ *
+ * @param tools - The tools that must be installed
+ * @param options - Timeout and AbortSignal for each command
+ * @returns A Promise resolving to a Result containing a report of what was
+ *          installed, or failing with kind "unsupported" when the
+ *          distribution has no package for a tool
+ *
+ * @example
+ * ```ts
+ * const result = await ensureInstalled(["nft", "tshark"]);
+ * if (isSuccess(result)) {
+ *   for (const { tool, package: name } of result.output.installed) {
+ *     console.log(`installed ${name} for ${tool}`);
+ *   }
+ * }
+ * ```
+ */
+export const ensureInstalled = (
+  tools: ToolName | ToolName[],
+  options: CancellationOptions = {},
+): Promise<Result<InstallReport>> =>
+  withMutationLock(async (): Promise<Result<InstallReport>> => {
+    const missing: ToolName[] = [];
+    const alreadyInstalled: ToolName[] = [];
+    for (const tool of [tools].flat()) {
+      const capability = await getToolCapability(tool, options);
+      if (!isSuccess(capability)) return capability;
+      (capability.output.installed ? alreadyInstalled : missing).push(tool);
+    }
+    const dryRun = isDryRun();
+    if (missing.length === 0) {
+      return createSuccess({ installed: [], alreadyInstalled, dryRun });
+    }
+    const packageManager = await detectPackageManager(options);
+    if (!isSuccess(packageManager)) return packageManager;
+    const installed: InstalledPackage[] = [];
+    for (const tool of missing) {
+      const name = TOOL_PACKAGES[tool][packageManager.output];
+      if (name === undefined) {
+        return createKindFail(
+          "unsupported",
+          `No ${packageManager.output} package provides ${tool}`,
+        );
+      }
+      installed.push({ tool, package: name });
+    }
+    const { refresh, install } = INSTALL_COMMANDS[packageManager.output];
+    const packages = new Set(installed.map((entry) => entry.package));
+    for (
+      const [command, ...args] of [
+        ...(refresh ? [refresh] : []),
+        [...install, ...packages],
+      ]
+    ) {
+      const result = await runCommandAndProcessOutput<void>(
+        undefined,
+        ...privileged(command, {
+          args,
+          mutates: true,
+          ...options,
+        }),
+      );
+      if (!isSuccess(result)) return result;
+    }
+    if (!dryRun) clearToolCapabilities();
+    return createSuccess({
+      packageManager: packageManager.output,
+      installed,
+      alreadyInstalled,
+      dryRun,
+    });
+  });
@@ -0,0 +1,117 @@
+// Types for the installed versions and features of the wrapped tools
+
+/**
+ * Whether a tool is installed, and which version.
+ */
+export interface ToolInfo {
+  /** Whether the tool can be run */
+  installed: boolean;
+  /** Installed version, if the tool reports one */
+  version?: string;
+}
+
+/**
+ * Capabilities of `ip` from iproute2.
+ */
+export interface IpCapabilities extends ToolInfo {
+  /** Whether `ip -j` prints JSON (iproute2 4.13 and later) */
+  json: boolean;
+}
+
+/**
+ * Capabilities of `nft` from nftables.
+ */
+export interface NftCapabilities extends ToolInfo {
+  /** Whether `nft -j` prints JSON */
+  json: boolean;
+  /**
+   * JSON schema version from the output's metainfo, read only by
+   * probeNft with `schemaVersion`, if the tables could be listed (listing
+   * needs root)
+   */
+  jsonSchemaVersion?: number;
+}
+
+/**
+ * Capabilities of `netplan`. netplan does not report its version.
+ */
+export interface NetplanCapabilities extends ToolInfo {
+  /** Whether `netplan get` is available */
+  get: boolean;
+  /** Whether `netplan status` is available */
+  status: boolean;
+}
+
+/**
+ * Capabilities of `tshark` from Wireshark.
+ */
+export interface TsharkCapabilities extends ToolInfo {
+  /**
+   * Whether `-T json` with `--no-duplicate-keys` is supported (Wireshark 3.0
+   * and later)
+   */
+  json: boolean;
+  /** Whether `-T ek` (Elasticsearch bulk) is supported (1.12 and later) */
+  ek: boolean;
+}
+
+/**
+ * Capabilities of every tool the library wraps.
+ */
+export interface ToolCapabilities {
+  ip: IpCapabilities;
+  nft: NftCapabilities;
+  netplan: NetplanCapabilities;
+  tshark: TsharkCapabilities;
+}
+
+/**
+ * Name of a tool the library wraps.
+ */
+export type ToolName = keyof ToolCapabilities;
+
+/**
+ * Name of an optional feature of a tool, e.g. "json" for nft.
+ */
+export type ToolFeature<T extends ToolName> = Exclude<
+  {
+    [F in keyof ToolCapabilities[T]]: ToolCapabilities[T][F] extends boolean ? F
+      : never;
+  }[keyof ToolCapabilities[T]],
+  "installed"
+>;
+
+/**
+ * A package manager tools can be installed with.
+ */
+export type PackageManager =
+  | "apt"
+  | "dnf"
+  | "yum"
+  | "apk"
+  | "pacman"
+  | "zypper";
+
+/**
+ * A package installed to provide a tool.
+ */
+export interface InstalledPackage {
+  /** The tool that was missing */
+  tool: ToolName;
+  /** The package providing it */
+  package: string;
+}
+
+/**
+ * What ensureInstalled did.
+ */
+export interface InstallReport {
+  /** The package manager used, if anything had to be installed */
+  packageManager?: PackageManager;
+  /** Packages installed for missing tools */
+  installed: InstalledPackage[];
+  /** Tools that were already installed */
+  alreadyInstalled: ToolName[];
+  /** Whether the installation was only planned by dryRun */
+  dryRun: boolean;
+}
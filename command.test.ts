@@ -0,0 +1,793 @@
+import { afterEach, beforeEach, describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import { isSuccess } from "@joyautomation/dark-matter";
+import {
+  addCommandEventSink,
+  CommandArgs,
+  CommandCancelledError,
+  CommandError,
+  CommandEvent,
+  CommandExecutor,
+  CommandOutput,
+  createConsoleEventSink,
+  createJsonlEventSink,
+  createKindFail,
+  createRecordingExecutor,
+  createReplayExecutor,
+  dryRun,
+  executeCommand,
+  getCommandError,
+  getErrorKind,
+  getMutationLockFile,
+  getNetworkNamespace,
+  getPrivilegeStrategy,
+  isDryRun,
+  loadCommandRecordings,
+  privileged,
+  PrivilegeError,
+  PrivilegeStrategy,
+  runCommand,
+  saveCommandRecordings,
+  setMutationLockFile,
+  setPrivilegeStrategy,
+  splitLines,
+  streamCommand,
+  streamCommandJson,
+  streamCommandLines,
+  withCommandExecutor,
+  withMutationLock,
+  withNetworkNamespace,
+} from "./command.ts";
+
+const sh = (script: string): CommandArgs => ["sh", { args: ["-c", script] }];
+
+describe("executeCommand", () => {
+  it("should report exit code, output, argv and duration", async () => {
+    const result = await executeCommand(...sh("echo out; echo warn >&2"));
+    expect(isSuccess(result)).toBe(true);
+    if (!isSuccess(result)) return;
+    expect(result.output.argv).toEqual(["sh", "-c", "echo out; echo warn >&2"]);
+    expect(result.output.exitCode).toBe(0);
+    expect(result.output.signal).toBeNull();
+    expect(result.output.stdout).toBe("out\n");
+    expect(result.output.stderr).toBe("warn\n");
+    expect(result.output.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("should fail on a non-zero exit status with a CommandError", async () => {
+    const result = await executeCommand(...sh("echo partial; exit 3"));
+    expect(isSuccess(result)).toBe(false);
+    const error = getCommandError(result);
+    expect(error).toBeInstanceOf(CommandError);
+    expect(error?.exitCode).toBe(3);
+    expect(error?.stdout).toBe("partial\n");
+    expect(error?.message).toBe(
+      "sh -c echo partial; exit 3 exited with code 3",
+    );
+  });
+
+  it("should use stderr as the failure message", async () => {
+    const result = await executeCommand(
+      ...sh("echo 'no such table' >&2; exit 1"),
+    );
+    expect(!isSuccess(result) && result.error).toBe("no such table");
+  });
+
+  it("should apply the stderr policy to successful exits", async () => {
+    const [command, options] = sh("echo 'Error: boom' >&2");
+    const strict = await executeCommand(command, {
+      ...options,
+      stderrPolicy: "fail",
+    });
+    expect(getCommandError(strict)?.exitCode).toBe(0);
+    const predicate = await executeCommand(command, {
+      ...options,
+      stderrPolicy: (stderr) => stderr.startsWith("Warning"),
+    });
+    expect(isSuccess(predicate)).toBe(true);
+  });
+
+  it("should fail as not-installed when the program is missing", async () => {
+    const result = await executeCommand("statocyst-no-such-command");
+    expect(isSuccess(result)).toBe(false);
+    expect(getCommandError(result)?.exitCode).toBe(-1);
+    expect(getErrorKind(result)).toBe("not-installed");
+  });
+
+  it("should fail without a CommandError when the executor throws", async () => {
+    const result = await executeCommand("ip", {
+      executor: () => Promise.reject(new Error("connection refused")),
+    });
+    expect(isSuccess(result)).toBe(false);
+    expect(getCommandError(result)).toBeUndefined();
+    expect(getErrorKind(result)).toBe("unknown");
+  });
+});
+
+describe("runCommand", () => {
+  it("should not fail on warnings printed by a successful command", async () => {
+    const result = await runCommand(...sh("echo ok; echo deprecated >&2"));
+    expect(isSuccess(result) && result.output).toBe("ok\n");
+  });
+});
+
+describe("streamCommand", () => {
+  it("should throw a CommandError when the process fails", async () => {
+    const chunks: string[] = [];
+    const error = await (async () => {
+      try {
+        for await (const chunk of streamCommand(...sh("echo a; exit 2"))) {
+          chunks.push(chunk);
+        }
+      } catch (error) {
+        return error;
+      }
+    })();
+    expect(chunks.join("")).toBe("a\n");
+    expect(error).toBeInstanceOf(CommandError);
+    expect((error as CommandError).exitCode).toBe(2);
+  });
+
+  it("should pass stderr lines to onStderr while streaming stdout", async () => {
+    const stderr: string[] = [];
+    const [command, options] = sh("echo out; echo one >&2; echo two >&2");
+    const chunks: string[] = [];
+    for await (
+      const chunk of streamCommand(command, {
+        ...options,
+        onStderr: (line) => stderr.push(line),
+      })
+    ) {
+      chunks.push(chunk);
+    }
+    expect(chunks.join("")).toBe("out\n");
+    expect(stderr).toEqual(["one", "two"]);
+  });
+
+  it("should end quietly when aborted", async () => {
+    const controller = new AbortController();
+    const lines: string[] = [];
+    for await (
+      const line of streamCommandLines("sh", {
+        args: ["-c", "echo ready; exec sleep 10"],
+        signal: controller.signal,
+      })
+    ) {
+      lines.push(line);
+      controller.abort();
+    }
+    expect(lines).toEqual(["ready"]);
+  });
+
+  it("should refuse to run on a remote executor's host", async () => {
+    const remote: CommandExecutor = Object.assign(
+      () => Promise.reject(new Error("not reached")),
+      { host: "edge-07" },
+    );
+    const error = await withCommandExecutor(remote, async () => {
+      try {
+        for await (const _ of streamCommand(...sh("echo local"))) {
+          // Nothing to do
+        }
+      } catch (error) {
+        return error;
+      }
+    });
+    expect(error).toBeInstanceOf(CommandError);
+    expect((error as CommandError).kind).toBe("unsupported");
+  });
+});
+
+describe("splitLines", () => {
+  it("should join lines split across chunks", async () => {
+    async function* chunks() {
+      yield "fi";
+      yield "rst\r\nsec";
+      yield "ond\n\nthi";
+      yield "rd";
+    }
+    const lines: string[] = [];
+    for await (const line of splitLines(chunks())) lines.push(line);
+    expect(lines).toEqual(["first", "second", "", "third"]);
+  });
+});
+
+describe("streamCommandLines", () => {
+  it("should yield complete lines", async () => {
+    const lines: string[] = [];
+    for await (const line of streamCommandLines(...sh("printf 'a\\nb\\nc'"))) {
+      lines.push(line);
+    }
+    expect(lines).toEqual(["a", "b", "c"]);
+  });
+
+  it("should stop the process when the consumer stops early", async () => {
+    const started = performance.now();
+    for await (
+      const line of streamCommandLines(...sh("while true; do echo y; done"))
+    ) {
+      expect(line).toBe("y");
+      break;
+    }
+    expect(performance.now() - started).toBeLessThan(5000);
+  });
+});
+
+describe("streamCommandJson", () => {
+  it("should parse one document per line, skipping blank lines", async () => {
+    const documents: unknown[] = [];
+    for await (
+      const document of streamCommandJson(
+        ...sh(`echo '{"a":1}'; echo; echo '[2]'`),
+      )
+    ) {
+      documents.push(document);
+    }
+    expect(documents).toEqual([{ a: 1 }, [2]]);
+  });
+});
+
+describe("command executors", () => {
+  const recorded = (
+    argv: string[],
+    output: Partial<CommandOutput> = {},
+  ): CommandOutput => ({
+    argv,
+    exitCode: 0,
+    signal: null,
+    stdout: "",
+    stderr: "",
+    durationMs: 0,
+    ...output,
+  });
+
+  it("should replay recorded outputs in order, repeating the last", async () => {
+    const executor = createReplayExecutor([
+      recorded(["ip", "link"], { stdout: "first" }),
+      recorded(["ip", "link"], { stdout: "second" }),
+    ]);
+    const outputs = [];
+    for (let i = 0; i < 3; i++) {
+      outputs.push(await runCommand("ip", { args: ["link"], executor }));
+    }
+    expect(outputs.map((result) => isSuccess(result) && result.output))
+      .toEqual(["first", "second", "second"]);
+  });
+
+  it("should apply exit status and stderr policy to replayed outputs", async () => {
+    const executor = createReplayExecutor([
+      recorded(["nft", "list", "ruleset"], { exitCode: 1, stderr: "denied" }),
+    ]);
+    const result = await withCommandExecutor(
+      executor,
+      () => executeCommand("nft", { args: ["list", "ruleset"] }),
+    );
+    expect(getCommandError(result)?.message).toBe("denied");
+  });
+
+  it("should fail without a CommandError when nothing was recorded", async () => {
+    const result = await executeCommand("ip", {
+      args: ["route"],
+      executor: createReplayExecutor([]),
+    });
+    expect(isSuccess(result)).toBe(false);
+    expect(getCommandError(result)).toBeUndefined();
+  });
+
+  it("should scope withCommandExecutor to the callback", async () => {
+    const executor = createReplayExecutor([recorded(["sh", "-c", "echo"])]);
+    await withCommandExecutor(executor, () => runCommand(...sh("echo")));
+    const result = await runCommand(...sh("echo live"));
+    expect(isSuccess(result) && result.output).toBe("live\n");
+  });
+
+  it("should save recordings that replay as the live run", async () => {
+    const { executor, recordings } = createRecordingExecutor();
+    const live = await withCommandExecutor(
+      executor,
+      () => runCommand(...sh("echo recorded")),
+    );
+    const path = await Deno.makeTempFile({ suffix: ".json" });
+    try {
+      await saveCommandRecordings(path, recordings);
+      const loaded = await loadCommandRecordings(path);
+      expect(isSuccess(loaded) && loaded.output).toEqual(recordings);
+      if (!isSuccess(loaded)) return;
+      const replayed = await withCommandExecutor(
+        createReplayExecutor(loaded.output),
+        () => runCommand(...sh("echo recorded")),
+      );
+      expect(replayed).toEqual(live);
+    } finally {
+      await Deno.remove(path);
+    }
+  });
+});
+
+describe("privileged", () => {
+  let strategy: PrivilegeStrategy;
+  beforeEach(() => {
+    strategy = getPrivilegeStrategy();
+  });
+  afterEach(() => setPrivilegeStrategy(strategy));
+
+  it("should prefix the command with the strategy", () => {
+    setPrivilegeStrategy("sudo");
+    expect(privileged("nft", { args: ["list", "tables"] })).toEqual([
+      "sudo",
+      { args: ["-n", "nft", "list", "tables"] },
+    ]);
+    setPrivilegeStrategy({ prefix: ["netadmin", "--"] });
+    expect(privileged("nft")).toEqual(["netadmin", { args: ["--", "nft"] }]);
+  });
+
+  it("should leave the command alone without elevation", () => {
+    setPrivilegeStrategy("none");
+    const options = { args: ["list", "tables"] };
+    expect(privileged("nft", options)).toEqual(["nft", options]);
+  });
+
+  it("should fail with a PrivilegeError when sudo wants a password", async () => {
+    setPrivilegeStrategy("sudo");
+    const result = await executeCommand(
+      ...privileged("nft", {
+        executor: createReplayExecutor([{
+          argv: ["sudo", "-n", "nft"],
+          exitCode: 1,
+          signal: null,
+          stdout: "",
+          stderr: "sudo: a password is required\n",
+          durationMs: 0,
+        }]),
+      }),
+    );
+    expect(getCommandError(result)).toBeInstanceOf(PrivilegeError);
+    expect(getCommandError(result)?.message).toBe(
+      "sudo: a password is required",
+    );
+  });
+
+  it("should not blame elevation for failures of the command", async () => {
+    setPrivilegeStrategy("sudo");
+    const result = await executeCommand(
+      ...privileged("nft", {
+        executor: createReplayExecutor([{
+          argv: ["sudo", "-n", "nft"],
+          exitCode: 1,
+          signal: null,
+          stdout: "",
+          stderr: "Error: syntax error\n",
+          durationMs: 0,
+        }]),
+      }),
+    );
+    expect(getCommandError(result)).toBeInstanceOf(CommandError);
+    expect(getCommandError(result)).not.toBeInstanceOf(PrivilegeError);
+  });
+});
+
+describe("command cancellation", () => {
+  it("should kill a command that exceeds its timeout", async () => {
+    const started = performance.now();
+    const result = await executeCommand("sleep", {
+      args: ["10"],
+      timeout: 100,
+    });
+    expect(performance.now() - started).toBeLessThan(5000);
+    const error = getCommandError(result);
+    expect(error).toBeInstanceOf(CommandCancelledError);
+    expect(error instanceof CommandCancelledError && error.reason).toBe(
+      "timeout",
+    );
+    expect(error?.message).toBe("sleep 10 timed out after 100ms");
+  });
+
+  it("should kill a command when its signal is aborted", async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+    const result = await runCommand("sleep", {
+      args: ["10"],
+      signal: controller.signal,
+    });
+    const error = getCommandError(result);
+    expect(error instanceof CommandCancelledError && error.reason).toBe(
+      "aborted",
+    );
+  });
+
+  it("should not start a command whose signal is already aborted", async () => {
+    const result = await runCommand("sleep", {
+      args: ["10"],
+      signal: AbortSignal.abort(),
+    });
+    expect(getCommandError(result)).toBeInstanceOf(CommandCancelledError);
+    expect(getCommandError(result)?.exitCode).toBe(-1);
+  });
+
+  it("should succeed when the command finishes in time", async () => {
+    const result = await runCommand("echo", { args: ["done"], timeout: 5000 });
+    expect(isSuccess(result) && result.output).toBe("done\n");
+  });
+});
+
+describe("network namespaces", () => {
+  let strategy: PrivilegeStrategy;
+  let argv: string[] = [];
+  const executor: CommandExecutor = (command, options) => {
+    argv = [String(command), ...(options.args ?? []).map(String)];
+    return Promise.resolve({
+      argv,
+      exitCode: 0,
+      signal: null,
+      stdout: "",
+      stderr: "",
+      durationMs: 0,
+    });
+  };
+  beforeEach(() => {
+    strategy = getPrivilegeStrategy();
+  });
+  afterEach(() => setPrivilegeStrategy(strategy));
+
+  it("should run commands through ip netns exec, elevated", async () => {
+    setPrivilegeStrategy("sudo");
+    await withNetworkNamespace(
+      "customer-a",
+      () => runCommand("ip", { args: ["-j", "route"], executor }),
+    );
+    expect(argv).toEqual([
+      "sudo",
+      "-n",
+      "ip",
+      "netns",
+      "exec",
+      "customer-a",
+      "ip",
+      "-j",
+      "route",
+    ]);
+  });
+
+  it("should keep the elevation prefix outermost", async () => {
+    setPrivilegeStrategy("sudo");
+    await withNetworkNamespace(
+      { name: "customer-b", method: "nsenter" },
+      () =>
+        runCommand(
+          ...privileged("nft", { args: ["list", "tables"], executor }),
+        ),
+    );
+    expect(argv).toEqual([
+      "sudo",
+      "-n",
+      "nsenter",
+      "--net=/run/netns/customer-b",
+      "--",
+      "nft",
+      "list",
+      "tables",
+    ]);
+  });
+
+  it("should not elevate when running as root", async () => {
+    setPrivilegeStrategy("none");
+    await withNetworkNamespace(
+      "customer-a",
+      () => runCommand("ip", { args: ["link"], executor }),
+    );
+    expect(argv).toEqual(["ip", "netns", "exec", "customer-a", "ip", "link"]);
+  });
+
+  it("should only affect commands started within the callback", async () => {
+    await Promise.all([
+      withNetworkNamespace("customer-a", async () => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(getNetworkNamespace()).toEqual({ name: "customer-a" });
+      }),
+      withNetworkNamespace("customer-b", () => {
+        expect(getNetworkNamespace()).toEqual({ name: "customer-b" });
+      }),
+    ]);
+    expect(getNetworkNamespace()).toBeUndefined();
+  });
+});
+
+describe("dryRun", () => {
+  it("should plan mutating commands and run the others", async () => {
+    const plan = await dryRun(async () => {
+      expect(isDryRun()).toBe(true);
+      const read = await runCommand("echo", { args: ["state"] });
+      const write = await executeCommand("rm", {
+        args: ["-rf", "/nonexistent/statocyst"],
+        env: { LANG: "C" },
+        mutates: true,
+      });
+      return { read, write };
+    });
+    expect(isSuccess(plan.result.read) && plan.result.read.output).toBe(
+      "state\n",
+    );
+    expect(isSuccess(plan.result.write) && plan.result.write.output.exitCode)
+      .toBe(0);
+    expect(plan.commands).toEqual([
+      { argv: ["rm", "-rf", "/nonexistent/statocyst"], env: { LANG: "C" } },
+    ]);
+    expect(isDryRun()).toBe(false);
+  });
+});
+
+describe("command events", () => {
+  let events: CommandEvent[];
+  let removeSink: () => void;
+  beforeEach(() => {
+    events = [];
+    removeSink = addCommandEventSink((event) => {
+      events.push(event);
+    });
+  });
+  afterEach(() => removeSink());
+
+  it("should report each run with its caller", async () => {
+    const listGreeting = () => runCommand("echo", { args: ["hello"] });
+    await listGreeting();
+    expect(events.length).toBe(1);
+    expect(events[0]).toMatchObject({
+      argv: ["echo", "hello"],
+      caller: "listGreeting",
+      phase: "end",
+      exitCode: 0,
+      stdout: "hello\n",
+      mutates: false,
+      dryRun: false,
+    });
+    expect(events[0].endedAt >= events[0].startedAt).toBe(true);
+  });
+
+  it("should report failures, elevation and planned commands", async () => {
+    const executor: CommandExecutor = (command, options) =>
+      Promise.resolve({
+        argv: [String(command), ...(options.args ?? []).map(String)],
+        exitCode: 1,
+        signal: null,
+        stdout: "",
+        stderr: "x".repeat(5000),
+        durationMs: 3,
+      });
+    await runCommand(
+      ...privileged("nft", { args: ["list", "tables"], executor }),
+    );
+    await dryRun(() =>
+      executeCommand("nft", { args: ["flush", "ruleset"], mutates: true })
+    );
+    expect(events[0].privilege).toBe(
+      Deno.uid() === 0 ? undefined : "sudo",
+    );
+    expect(events[0].exitCode).toBe(1);
+    expect(events[0].error).toBeDefined();
+    expect(events[0].stderr.startsWith("x".repeat(4096) + "...")).toBe(true);
+    expect(events[1]).toMatchObject({
+      argv: ["nft", "flush", "ruleset"],
+      mutates: true,
+      dryRun: true,
+    });
+  });
+
+  it("should keep running commands when a sink fails", async () => {
+    const sinkErrors: unknown[] = [];
+    const removeFailing = addCommandEventSink(() => {
+      throw new Error("disk full");
+    }, { onSinkError: (error) => sinkErrors.push(error) });
+    const removeSilent = addCommandEventSink(() => {
+      throw new Error("dropped");
+    });
+    try {
+      const result = await runCommand("echo", { args: ["still"] });
+      expect(isSuccess(result)).toBe(true);
+      expect(sinkErrors.map((error) => (error as Error).message)).toEqual([
+        "disk full",
+      ]);
+    } finally {
+      removeFailing();
+      removeSilent();
+    }
+  });
+
+  it("should report streaming commands when they start and end", async () => {
+    const tail = async () => {
+      const lines = [];
+      for await (
+        const line of streamCommandLines("sh", {
+          args: ["-c", "echo a; echo b; echo oops >&2; exit 2"],
+        })
+      ) {
+        lines.push(line);
+      }
+      return lines;
+    };
+    await expect(tail()).rejects.toThrow(CommandError);
+    expect(events.map(({ phase, exitCode }) => ({ phase, exitCode })))
+      .toEqual([
+        { phase: "start", exitCode: null },
+        { phase: "end", exitCode: 2 },
+      ]);
+    expect(events[1]).toMatchObject({
+      argv: ["sh", "-c", "echo a; echo b; echo oops >&2; exit 2"],
+      stdout: "",
+      stderr: "oops\n",
+      mutates: false,
+    });
+    expect(events[1].error).toBeDefined();
+  });
+
+  it("should write JSON lines and console summaries", async () => {
+    const path = await Deno.makeTempFile({ suffix: ".jsonl" });
+    const lines: string[] = [];
+    const removeFile = addCommandEventSink(createJsonlEventSink(path));
+    const removeConsole = addCommandEventSink(
+      createConsoleEventSink((line) => lines.push(line)),
+    );
+    try {
+      await runCommand("echo", { args: ["one"] });
+      await runCommand("echo", { args: ["two"] });
+      const written = (await Deno.readTextFile(path)).trim().split("\n")
+        .map((line) => JSON.parse(line));
+      expect(written.map(({ argv }) => argv)).toEqual([
+        ["echo", "one"],
+        ["echo", "two"],
+      ]);
+      expect(lines[0]).toMatch(/^echo one: exit 0 in \d+ms/);
+    } finally {
+      removeFile();
+      removeConsole();
+      await Deno.remove(path);
+    }
+  });
+});
+
+describe("mutation lock", () => {
+  let running: number;
+  let mostRunning: number;
+  const executor: CommandExecutor = async (command, options) => {
+    running++;
+    mostRunning = Math.max(mostRunning, running);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    running--;
+    return {
+      argv: [String(command), ...(options.args ?? []).map(String)],
+      exitCode: 0,
+      signal: null,
+      stdout: "",
+      stderr: "",
+      durationMs: 10,
+    };
+  };
+  beforeEach(() => {
+    running = 0;
+    mostRunning = 0;
+  });
+
+  it("should run mutating commands one at a time", async () => {
+    await Promise.all(
+      [1, 2, 3].map((handle) =>
+        executeCommand("nft", {
+          args: ["delete", "rule", "ip", "filter", "INPUT", String(handle)],
+          executor,
+          mutates: true,
+        })
+      ),
+    );
+    expect(mostRunning).toBe(1);
+  });
+
+  it("should not serialize reads", async () => {
+    await Promise.all(
+      [1, 2].map(() =>
+        executeCommand("nft", { args: ["list", "ruleset"], executor })
+      ),
+    );
+    expect(mostRunning).toBe(2);
+  });
+
+  it("should hold the lock across a sequence and be reentrant", async () => {
+    const order: string[] = [];
+    const mutate = (name: string) =>
+      executeCommand("nft", { args: [name], executor, mutates: true }).then(
+        (result) => {
+          order.push(name);
+          return result;
+        },
+      );
+    await Promise.all([
+      withMutationLock(async () => {
+        await mutate("lookup");
+        return await mutate("delete");
+      }),
+      mutate("other"),
+    ]);
+    expect(order).toEqual(["lookup", "delete", "other"]);
+  });
+
+  it("should hold a flock on the lock file", async () => {
+    const path = await Deno.makeTempFile();
+    const previous = getMutationLockFile();
+    setMutationLockFile(path);
+    try {
+      const result = await withMutationLock(() =>
+        runCommand("flock", { args: ["-n", path, "true"] })
+      );
+      expect(getCommandError(result)?.exitCode).toBe(1);
+      const unlocked = await runCommand("flock", {
+        args: ["-n", path, "true"],
+      });
+      expect(isSuccess(unlocked)).toBe(true);
+    } finally {
+      setMutationLockFile(previous);
+      await Deno.remove(path);
+    }
+  });
+
+  it("should fail when the lock file cannot be opened", async () => {
+    const previous = getMutationLockFile();
+    setMutationLockFile("/nonexistent/statocyst.lock");
+    try {
+      const result = await executeCommand("nft", {
+        args: ["flush", "ruleset"],
+        executor,
+        mutates: true,
+      });
+      expect(isSuccess(result)).toBe(false);
+      expect(running).toBe(0);
+    } finally {
+      setMutationLockFile(previous);
+    }
+  });
+});
+
+describe("error kinds", () => {
+  const failWith = (stderr: string, exitCode = 1): CommandExecutor => () =>
+    Promise.resolve({
+      argv: ["tool"],
+      exitCode,
+      signal: null,
+      stdout: "",
+      stderr,
+      durationMs: 1,
+    });
+
+  it("should classify common failures", async () => {
+    const kindOf = async (stderr: string, exitCode?: number) =>
+      getErrorKind(
+        await executeCommand("tool", { executor: failWith(stderr, exitCode) }),
+      );
+    expect(await kindOf("sh: 1: tool: not found", 127)).toBe("not-installed");
+    expect(await kindOf("RTNETLINK answers: Operation not permitted")).toBe(
+      "permission-denied",
+    );
+    expect(await kindOf("RTNETLINK answers: File exists")).toBe("exists");
+    expect(await kindOf("open /x: No such file or directory")).toBe(
+      "not-found",
+    );
+    expect(await kindOf("Device or resource busy")).toBe("busy");
+    expect(await kindOf("something else")).toBe("unknown");
+  });
+
+  it("should try the tool's classifier first", async () => {
+    const result = await executeCommand("tool", {
+      executor: failWith("Error: No such file or directory"),
+      classifyError: () => "syntax",
+    });
+    expect(getCommandError(result)?.kind).toBe("syntax");
+  });
+
+  it("should report timeouts and kinds of other failures", async () => {
+    const timedOut = await executeCommand("sleep", {
+      args: ["10"],
+      timeout: 50,
+    });
+    expect(getErrorKind(timedOut)).toBe("timeout");
+    expect(getErrorKind(createKindFail("not-found", "Rule not found"))).toBe(
+      "not-found",
+    );
+    expect(getErrorKind(await runCommand("true"))).toBeUndefined();
+  });
+});
@@ -34,15 +34,1362 @@ import {
   pipeAsync,
   Result,
 } from "@joyautomation/dark-matter";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { appendFile, readFile, writeFile } from "node:fs/promises";
+import {
+  getProcessRuntime,
+  isProgramNotFound,
+  ProcessOptions,
+  ProcessSignal,
+  ProcessStatus,
+} from "./runtime.ts";
+
+export * from "./runtime.ts";
 
 /**
- * Executes a Deno command and returns its output as a Result.
+ * Decides whether stderr output makes a command fail.
  *
- * Runs a command using Deno.Command and captures stdout/stderr. If stderr
- * contains any output or an error occurs, returns a Fail result. Otherwise,
- * returns a Success result with the stdout content as a string.
+ * - `"ignore"`: only the exit status decides (default)
+ * - `"fail"`: any stderr output fails the command, even with exit status 0
+ * - a predicate: called with the stderr text of a successful exit; returning
+ *   true fails the command
+ */
+export type StderrPolicy = "ignore" | "fail" | ((stderr: string) => boolean);
+
+/**
+ * Options for runCommand and executeCommand.
+ */
+export interface CommandOptions extends ProcessOptions {
+  /** How stderr output affects success (default: "ignore") */
+  stderrPolicy?: StderrPolicy;
+  /** Milliseconds after which the command is killed and fails */
+  timeout?: number;
+  /** Executor to run this command with (default: the current executor) */
+  executor?: CommandExecutor;
+  /**
+   * Whether the command changes the system; it then holds the mutation lock,
+   * and inside dryRun it is only planned
+   */
+  mutates?: boolean;
+  /**
+   * Classifier for the tool's failures, tried before the common one (see
+   * CommandError's `kind`)
+   */
+  classifyError?: ErrorClassifier;
+}
+
+/**
+ * Options for stopping commands that hang, accepted by every function that
+ * runs one.
  *
- * @param args - Arguments to pass to the Deno.Command constructor (command name and options)
+ * Functions that run several commands apply the timeout to each of them; use
+ * the signal (e.g. `AbortSignal.timeout(ms)`) to bound them all together.
+ */
+export interface CancellationOptions {
+  /** Milliseconds after which a command is killed and fails */
+  timeout?: number;
+  /** Signal that kills the running command and fails it when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Why a command was cancelled: its timeout elapsed, or its signal was aborted.
+ */
+export type CancellationReason = "timeout" | "aborted";
+
+/**
+ * Arguments accepted by the command runners: the command name and its options.
+ */
+export type CommandArgs = [command: string | URL, options?: CommandOptions];
+
+/**
+ * Everything known about a finished command.
+ */
+export interface CommandOutput {
+  /** The command and its arguments */
+  argv: string[];
+  /** Exit code of the process (non-zero when killed by a signal) */
+  exitCode: number;
+  /** Signal that terminated the process, or null if it exited by itself */
+  signal: ProcessSignal | null;
+  /** Decoded standard output */
+  stdout: string;
+  /** Decoded standard error */
+  stderr: string;
+  /** Wall-clock run time in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Runs a command and reports how it ended.
+ *
+ * Executors only run processes; deciding whether a run failed is left to
+ * executeCommand. They throw if the command cannot be started at all.
+ */
+export interface CommandExecutor {
+  (command: string | URL, options: ProcessOptions): Promise<CommandOutput>;
+  /**
+   * Name of the host the executor runs commands on, for results cached per
+   * host (default: the executor itself stands for its host)
+   */
+  host?: string;
+}
+
+const argvOf = (command: string | URL, options?: ProcessOptions) =>
+  [String(command), ...(options?.args ?? [])].map(String);
+
+// How long a cancelled process gets to exit after SIGTERM before SIGKILL
+const KILL_GRACE_MS = 2000;
+
+/**
+ * The default executor, which spawns processes with the current process
+ * runtime (see getProcessRuntime), so it works on Deno, Node.js and Bun.
+ *
+ * When the `signal` option is aborted the process is sent SIGTERM, then
+ * SIGKILL if it has not exited after a grace period. Streams that are not
+ * piped read as empty.
+ *
+ * @param command - The command to run
+ * @param options - Its arguments, environment, streams and AbortSignal
+ * @returns A Promise resolving to the command's output
+ */
+export const processExecutor: CommandExecutor = async (command, options) => {
+  const { signal, ...spawnOptions } = options;
+  signal?.throwIfAborted();
+  const started = performance.now();
+  const child = getProcessRuntime().spawn(command, spawnOptions);
+  let killTimer: ReturnType<typeof setTimeout> | undefined;
+  const cancel = () => {
+    child.kill("SIGTERM");
+    killTimer = setTimeout(() => child.kill("SIGKILL"), KILL_GRACE_MS);
+  };
+  signal?.addEventListener("abort", cancel, { once: true });
+  const [stdout, stderr, status] = await Promise.all([
+    new Response(child.stdout).text(),
+    new Response(child.stderr).text(),
+    child.status,
+  ]).finally(() => {
+    signal?.removeEventListener("abort", cancel);
+    clearTimeout(killTimer);
+  });
+  return {
+    argv: argvOf(command, options),
+    exitCode: status.code,
+    signal: status.signal,
+    stdout,
+    stderr,
+    durationMs: performance.now() - started,
+  };
+};
+
+/**
+ * The default executor under its former name.
+ *
+ * @deprecated Use processExecutor, which runs on every supported runtime.
+ */
+export const denoExecutor: CommandExecutor = processExecutor;
+
+let defaultExecutor: CommandExecutor = processExecutor;
+const executorContext = new AsyncLocalStorage<CommandExecutor>();
+
+/**
+ * Returns the executor commands currently run with.
+ *
+ * This is the executor of the innermost withCommandExecutor call, or the
+ * process-wide default set with setCommandExecutor.
+ *
+ * @returns The current executor
+ */
+export const getCommandExecutor = (): CommandExecutor =>
+  executorContext.getStore() ?? defaultExecutor;
+
+/**
+ * Replaces the process-wide default executor.
+ *
+ * @param executor - The new default, or processExecutor to restore real
+ *                   execution
+ *
+ * @example
+ * ```ts
+ * setCommandExecutor(createReplayExecutor(recordings));
+ * ```
+ */
+export const setCommandExecutor = (executor: CommandExecutor): void => {
+  defaultExecutor = executor;
+};
+
+/**
+ * Runs a function with every command it starts, including those started by
+ * asynchronous work it awaits, going through an executor.
+ *
+ * Unlike setCommandExecutor this does not affect concurrent callers, so
+ * tests using different executors can run side by side.
+ *
+ * @param executor - Executor to use within `fn`
+ * @param fn - The function to run
+ * @returns Whatever `fn` returns
+ *
+ * @example
+ * ```ts
+ * const result = await withCommandExecutor(
+ *   createReplayExecutor(recordings),
+ *   () => getIpAddresses(),
+ * );
+ * ```
+ */
+export const withCommandExecutor = <T>(
+  executor: CommandExecutor,
+  fn: () => T,
+): T => executorContext.run(executor, fn);
+
+/**
+ * Type guard to validate if unknown data is a valid CommandOutput.
+ *
+ * @param data - The data to validate
+ * @returns True if data is a valid CommandOutput, false otherwise
+ */
+export const isCommandOutput = (data: unknown): data is CommandOutput => {
+  if (typeof data !== "object" || data === null) return false;
+
+  const item = data as Record<string, unknown>;
+  return (
+    Array.isArray(item.argv) &&
+    item.argv.every((arg) => typeof arg === "string") &&
+    typeof item.exitCode === "number" &&
+    (item.signal === null || typeof item.signal === "string") &&
+    typeof item.stdout === "string" &&
+    typeof item.stderr === "string" &&
+    typeof item.durationMs === "number"
+  );
+};
+
+/**
+ * Creates an executor that runs commands through another executor and keeps
+ * every output, for saving as replay fixtures.
+ *
+ * @param inner - Executor that actually runs the commands (default:
+ *                processExecutor)
+ * @returns The recording executor and the list it appends outputs to
+ *
+ * @example
+ * ```ts
+ * const { executor, recordings } = createRecordingExecutor();
+ * await withCommandExecutor(executor, () => getIpAddresses());
+ * await saveCommandRecordings("ip/fixtures/ip-address.json", recordings);
+ * ```
+ */
+export const createRecordingExecutor = (
+  inner: CommandExecutor = processExecutor,
+): { executor: CommandExecutor; recordings: CommandOutput[] } => {
+  const recordings: CommandOutput[] = [];
+  return {
+    executor: async (command, options) => {
+      const output = await inner(command, options);
+      recordings.push(output);
+      return output;
+    },
+    recordings,
+  };
+};
+
+/**
+ * Creates an executor that answers commands from recorded outputs instead of
+ * running them.
+ *
+ * Commands are matched by argv. Recordings of the same argv are served in
+ * order, and the last one is repeated once they are used up. A command with
+ * no recording throws, which fails the Result like a command that cannot be
+ * started.
+ *
+ * @param recordings - Outputs captured by a recording executor
+ * @returns The replaying executor
+ *
+ * @example
+ * ```ts
+ * const recordings = await loadCommandRecordings("ip/fixtures/ip-address.json");
+ * if (isSuccess(recordings)) {
+ *   setCommandExecutor(createReplayExecutor(recordings.output));
+ * }
+ * ```
+ */
+export const createReplayExecutor = (
+  recordings: CommandOutput[],
+): CommandExecutor => {
+  const served = new Set<CommandOutput>();
+  return (command, options) => {
+    const argv = argvOf(command, options);
+    const key = JSON.stringify(argv);
+    const matches = recordings.filter((recording) =>
+      JSON.stringify(recording.argv) === key
+    );
+    const output = matches.find((recording) => !served.has(recording)) ??
+      matches[matches.length - 1];
+    if (!output) {
+      return Promise.reject(
+        new Error(`No recorded output for: ${argv.join(" ")}`),
+      );
+    }
+    served.add(output);
+    return Promise.resolve(output);
+  };
+};
+
+/**
+ * Saves recorded command outputs as a JSON fixture file.
+ *
+ * @param path - Destination file path
+ * @param recordings - Outputs captured by a recording executor
+ * @returns A Promise resolving to a Result indicating success or failure
+ */
+export const saveCommandRecordings = async (
+  path: string | URL,
+  recordings: CommandOutput[],
+): Promise<Result<void>> => {
+  try {
+    await writeFile(path, JSON.stringify(recordings, null, 2) + "\n");
+    return createSuccess(undefined);
+  } catch (error) {
+    return createFail(createErrorString(error));
+  }
+};
+
+/**
+ * Loads command outputs saved with saveCommandRecordings.
+ *
+ * @param path - Fixture file path
+ * @returns A Promise resolving to a Result containing the recordings, or an
+ *          error if the file cannot be read or is not a recording fixture
+ */
+export const loadCommandRecordings = async (
+  path: string | URL,
+): Promise<Result<CommandOutput[]>> => {
+  try {
+    const data: unknown = JSON.parse(await readFile(path, "utf8"));
+    if (!Array.isArray(data) || !data.every(isCommandOutput)) {
+      return createFail(`${path} is not a command recording fixture`);
+    }
+    return createSuccess(data);
+  } catch (error) {
+    return createFail(createErrorString(error));
+  }
+};
+
+const describeFailure = (output: CommandOutput): string => {
+  const stderr = output.stderr.trim();
+  if (stderr !== "") return stderr;
+  const command = output.argv.join(" ");
+  return output.signal
+    ? `${command} was terminated by ${output.signal}`
+    : `${command} exited with code ${output.exitCode}`;
+};
+
+/**
+ * What went wrong with a failed operation.
+ *
+ * - `"permission-denied"`: not allowed, e.g. not root or elevation refused
+ * - `"not-installed"`: the program is missing
+ * - `"not-found"`: the object operated on (table, rule, device, file) does
+ *   not exist
+ * - `"exists"`: the object to create already exists
+ * - `"syntax"`: the tool rejected its arguments, filter or configuration
+ * - `"busy"`: the object is in use
+ * - `"unsupported"`: the installed tool lacks a needed feature
+ * - `"invalid-argument"`: a value was rejected before building the command
+ * - `"timeout"`: the `timeout` option elapsed
+ * - `"cancelled"`: the `signal` option was aborted
+ * - `"unknown"`: anything else
+ */
+export type CommandErrorKind =
+  | "permission-denied"
+  | "not-installed"
+  | "not-found"
+  | "exists"
+  | "syntax"
+  | "busy"
+  | "unsupported"
+  | "invalid-argument"
+  | "timeout"
+  | "cancelled"
+  | "unknown";
+
+/**
+ * Decides the kind of a failed command from its output, usually its stderr.
+ * Returns undefined when it does not recognize the failure.
+ */
+export type ErrorClassifier = (
+  output: CommandOutput,
+) => CommandErrorKind | undefined;
+
+/**
+ * Recognizes failures reported the same way by most tools: the shell's and
+ * sudo's "command not found" and the C library's error strings.
+ */
+const classifyCommonError: ErrorClassifier = ({ exitCode, stderr }) => {
+  if (exitCode === 127 || /command not found/i.test(stderr)) {
+    return "not-installed";
+  }
+  if (/permission denied|operation not permitted/i.test(stderr)) {
+    return "permission-denied";
+  }
+  if (/device or resource busy/i.test(stderr)) return "busy";
+  if (/file exists/i.test(stderr)) return "exists";
+  if (/no such file or directory|no such device/i.test(stderr)) {
+    return "not-found";
+  }
+  return undefined;
+};
+
+const classifyFailure = (
+  output: CommandOutput,
+  classifyError?: ErrorClassifier,
+): CommandErrorKind =>
+  classifyError?.(output) ?? classifyCommonError(output) ?? "unknown";
+
+/**
+ * Error describing a command that ran but failed.
+ *
+ * The message is the command's stderr, or a description of its exit status
+ * when it printed nothing. Its `kind` says what went wrong, as far as the
+ * tool's output tells. Retrieve it from a failed Result with getCommandError.
+ */
+export class CommandError extends Error implements CommandOutput {
+  override name = "CommandError";
+  readonly kind: CommandErrorKind;
+  readonly argv: string[];
+  readonly exitCode: number;
+  readonly signal: ProcessSignal | null;
+  readonly stdout: string;
+  readonly stderr: string;
+  readonly durationMs: number;
+
+  constructor(output: CommandOutput, kind: CommandErrorKind = "unknown") {
+    super(describeFailure(output));
+    this.kind = kind;
+    this.argv = output.argv;
+    this.exitCode = output.exitCode;
+    this.signal = output.signal;
+    this.stdout = output.stdout;
+    this.stderr = output.stderr;
+    this.durationMs = output.durationMs;
+  }
+}
+
+/**
+ * Error for a command that was killed because its timeout elapsed or its
+ * AbortSignal was aborted.
+ *
+ * A command cancelled before it could start reports exit code -1.
+ */
+export class CommandCancelledError extends CommandError {
+  override name = "CommandCancelledError";
+  readonly reason: CancellationReason;
+
+  constructor(
+    output: CommandOutput,
+    reason: CancellationReason,
+    timeout?: number,
+  ) {
+    super(output, reason === "timeout" ? "timeout" : "cancelled");
+    this.reason = reason;
+    this.message = reason === "timeout"
+      ? `${output.argv.join(" ")} timed out after ${timeout}ms`
+      : `${output.argv.join(" ")} was cancelled`;
+  }
+}
+
+/**
+ * Returns the CommandError attached to a failed command Result.
+ *
+ * @param result - A Result returned by runCommand, executeCommand or a wrapper
+ *                 built on them
+ * @returns The CommandError, or undefined if the Result succeeded or did
+ *          not come from a command that ran
+ *
+ * @example
+ * ```ts
+ * const result = await runCommand("nft", { args: ["list", "ruleset"] });
+ * const error = getCommandError(result);
+ * if (error) console.error(`exit ${error.exitCode}: ${error.stderr}`);
+ * ```
+ */
+export const getCommandError = (
+  result: Result<unknown>,
+): CommandError | undefined =>
+  !isSuccess(result) && "commandError" in result &&
+    result.commandError instanceof CommandError
+    ? result.commandError
+    : undefined;
+
+/**
+ * Creates a failed Result of a known kind for failures detected without a
+ * failing command, e.g. a lookup that found nothing.
+ *
+ * @param kind - What went wrong
+ * @param message - The error message
+ * @returns A failed Result that getErrorKind reports as `kind`
+ *
+ * @example
+ * ```ts
+ * return createKindFail("not-found", "Rule not found");
+ * ```
+ */
+export const createKindFail = (
+  kind: CommandErrorKind,
+  message: string,
+): Result<never> => Object.assign(createFail(message), { errorKind: kind });
+
+/**
+ * Returns what went wrong with a failed Result.
+ *
+ * @param result - A Result returned by any function of this library
+ * @returns The kind of the failure, "unknown" if it was not classified, or
+ *          undefined if the Result succeeded
+ *
+ * @example
+ * ```ts
+ * const result = await createNfTable("ip", "nat");
+ * switch (getErrorKind(result)) {
+ *   case "exists":
+ *     break; // Already set up
+ *   case "permission-denied":
+ *     throw new Error("run as root or configure sudo");
+ * }
+ * ```
+ */
+export const getErrorKind = (
+  result: Result<unknown>,
+): CommandErrorKind | undefined => {
+  if (isSuccess(result)) return undefined;
+  const commandError = getCommandError(result);
+  if (commandError) return commandError.kind;
+  return "errorKind" in result && typeof result.errorKind === "string"
+    ? result.errorKind as CommandErrorKind
+    : "unknown";
+};
+
+/**
+ * How commands that need root are elevated.
+ *
+ * - `"auto"`: no elevation when already running as root, `"sudo"` otherwise
+ *   (default)
+ * - `"none"`: run commands as the current user, e.g. in a root container
+ * - `"sudo"`: `sudo -n`, which fails instead of prompting for a password
+ * - `"doas"`: `doas -n`, which fails instead of prompting for a password
+ * - `"pkexec"`: polkit; fails if no authentication agent or rule allows it
+ * - a custom prefix, with an optional check recognizing denied elevation
+ */
+export type PrivilegeStrategy =
+  | "auto"
+  | "none"
+  | "sudo"
+  | "doas"
+  | "pkexec"
+  | {
+    prefix: string[];
+    isDenied?: (output: CommandOutput) => boolean;
+  };
+
+const PRIVILEGE_PREFIXES = {
+  none: { prefix: [] },
+  sudo: {
+    prefix: ["sudo", "-n"],
+    isDenied: (output: CommandOutput) =>
+      output.exitCode === 1 &&
+      /^sudo: (a password is required|a terminal is required|.* is not in the sudoers file|sorry, user .* is not allowed)/m
+        .test(output.stderr),
+  },
+  doas: {
+    prefix: ["doas", "-n"],
+    isDenied: (output: CommandOutput) =>
+      output.exitCode === 1 &&
+      /^doas: (Authentication required|Operation not permitted|.*not permitted)/m
+        .test(output.stderr),
+  },
+  pkexec: {
+    prefix: ["pkexec"],
+    // 126: the authentication dialog was dismissed; 127: not authorized
+    isDenied: (output: CommandOutput) =>
+      output.exitCode === 126 ||
+      (output.exitCode === 127 &&
+        /Error executing command as another user|Not authorized/
+          .test(output.stderr)),
+  },
+};
+
+let privilegeStrategy: PrivilegeStrategy = "auto";
+const privilegeContext = new AsyncLocalStorage<PrivilegeStrategy>();
+
+/**
+ * Returns the privilege strategy used by functions that need root.
+ *
+ * This is the strategy of the innermost withPrivilegeStrategy call, or the
+ * process-wide one set with setPrivilegeStrategy ("auto" by default).
+ *
+ * @returns The current privilege strategy
+ */
+export const getPrivilegeStrategy = (): PrivilegeStrategy =>
+  privilegeContext.getStore() ?? privilegeStrategy;
+
+/**
+ * Sets how every module elevates commands that need root.
+ *
+ * @param strategy - The privilege strategy to use from now on
+ *
+ * @example
+ * ```ts
+ * // The service already runs as root inside a container without sudo
+ * setPrivilegeStrategy("none");
+ *
+ * // Elevate through a wrapper that is allowed in sudoers
+ * setPrivilegeStrategy({ prefix: ["/usr/local/bin/netadmin"] });
+ * ```
+ */
+export const setPrivilegeStrategy = (strategy: PrivilegeStrategy): void => {
+  privilegeStrategy = strategy;
+};
+
+/**
+ * Runs a function with every command it starts elevated with a privilege
+ * strategy, without affecting concurrent callers.
+ *
+ * @param strategy - The privilege strategy to use within `fn`
+ * @param fn - The function to run
+ * @returns Whatever `fn` returns
+ *
+ * @example
+ * ```ts
+ * const tables = await withPrivilegeStrategy("doas", () => getTables());
+ * ```
+ */
+export const withPrivilegeStrategy = <T>(
+  strategy: PrivilegeStrategy,
+  fn: () => T,
+): T => privilegeContext.run(strategy, fn);
+
+const resolvePrivilege = (
+  strategy: PrivilegeStrategy,
+): { prefix: string[]; isDenied?: (output: CommandOutput) => boolean } => {
+  if (typeof strategy === "object") return strategy;
+  if (strategy === "auto") {
+    return PRIVILEGE_PREFIXES[
+      getProcessRuntime().uid() === 0 ? "none" : "sudo"
+    ];
+  }
+  return PRIVILEGE_PREFIXES[strategy];
+};
+
+/**
+ * Builds the arguments to run a command as root with the current privilege
+ * strategy.
+ *
+ * @param command - The command that needs root
+ * @param options - Its options, as for runCommand or streamCommand
+ * @returns Arguments for runCommand, streamCommand and the other runners
+ *
+ * @example
+ * ```ts
+ * // sudo -n nft -j list tables (with the default strategy, as a normal user)
+ * const result = await runCommand(...privileged("nft", { args: ["-j", "list", "tables"] }));
+ * ```
+ */
+export const privileged = <
+  O extends CommandOptions | StreamCommandOptions = CommandOptions,
+>(
+  command: string,
+  options: O = {} as O,
+): [command: string, options: O] => {
+  const [elevator, ...elevatorArgs] =
+    resolvePrivilege(getPrivilegeStrategy()).prefix;
+  if (elevator === undefined) return [command, options];
+  return [elevator, {
+    ...options,
+    args: [...elevatorArgs, command, ...(options.args ?? [])],
+  }];
+};
+
+/**
+ * Error for a command that failed because it could not be elevated without
+ * interaction, e.g. because sudo wanted a password.
+ *
+ * The command itself never ran. Configure passwordless elevation for it, or
+ * choose another strategy with setPrivilegeStrategy.
+ */
+export class PrivilegeError extends CommandError {
+  override name = "PrivilegeError";
+
+  constructor(output: CommandOutput) {
+    super(output, "permission-denied");
+  }
+}
+
+const isPrivilegeDenied = (output: CommandOutput): boolean => {
+  const { prefix, isDenied } = resolvePrivilege(getPrivilegeStrategy());
+  return prefix.length > 0 &&
+    prefix.every((arg, index) => output.argv[index] === arg) &&
+    (isDenied?.(output) ?? false);
+};
+
+/**
+ * A named network namespace commands can be run in, as created with
+ * `ip netns add`.
+ */
+export interface NetworkNamespace {
+  /** Namespace name, as listed by `ip netns list` */
+  name: string;
+  /**
+   * How commands enter the namespace (default: "ip-netns").
+   *
+   * - `"ip-netns"`: `ip netns exec <name>`, which also applies the
+   *   namespace's /etc/netns/<name> configuration
+   * - `"nsenter"`: `nsenter --net=/run/netns/<name>`, for systems without
+   *   iproute2's netns support
+   */
+  method?: "ip-netns" | "nsenter";
+}
+
+let defaultNamespace: NetworkNamespace | undefined;
+const namespaceContext = new AsyncLocalStorage<
+  NetworkNamespace | undefined
+>();
+
+const toNamespace = (
+  namespace: string | NetworkNamespace | undefined,
+): NetworkNamespace | undefined =>
+  typeof namespace === "string" ? { name: namespace } : namespace;
+
+/**
+ * Returns the network namespace commands currently run in.
+ *
+ * This is the namespace of the innermost withNetworkNamespace call, or the
+ * process-wide default set with setNetworkNamespace.
+ *
+ * @returns The current namespace, or undefined for the root namespace
+ */
+export const getNetworkNamespace = (): NetworkNamespace | undefined =>
+  namespaceContext.getStore() ?? defaultNamespace;
+
+/**
+ * Sets the network namespace every command runs in by default.
+ *
+ * @param namespace - Namespace name or description, or undefined for the
+ *                    root namespace
+ */
+export const setNetworkNamespace = (
+  namespace: string | NetworkNamespace | undefined,
+): void => {
+  defaultNamespace = toNamespace(namespace);
+};
+
+/**
+ * Runs a function with every command it starts, in every module, executed
+ * inside a network namespace.
+ *
+ * Entering a namespace needs root, so commands are elevated with the
+ * privilege strategy even if they would not be otherwise. Concurrent callers
+ * are not affected, so operations on different namespaces can run side by
+ * side.
+ *
+ * @param namespace - Namespace name or description
+ * @param fn - The function to run
+ * @returns Whatever `fn` returns
+ *
+ * @example
+ * ```ts
+ * const rules = await withNetworkNamespace("customer-a", () => getRules());
+ * const routes = await withNetworkNamespace(
+ *   { name: "customer-b", method: "nsenter" },
+ *   () => getIpRoutes(),
+ * );
+ * ```
+ */
+export const withNetworkNamespace = <T>(
+  namespace: string | NetworkNamespace,
+  fn: () => T,
+): T => namespaceContext.run(toNamespace(namespace), fn);
+
+/**
+ * Rewrites a command to run in the current network namespace, keeping the
+ * privilege escalation prefix outermost.
+ */
+const inNetworkNamespace = <O extends ProcessOptions>(
+  command: string | URL,
+  options: O,
+): [command: string | URL, options: O] => {
+  const namespace = getNetworkNamespace();
+  if (!namespace) return [command, options];
+  const { prefix } = resolvePrivilege(getPrivilegeStrategy());
+  const argv = argvOf(command, options);
+  const elevated = prefix.length > 0 &&
+    prefix.every((arg, index) => argv[index] === arg);
+  const entry = namespace.method === "nsenter"
+    ? ["nsenter", `--net=/run/netns/${namespace.name}`, "--"]
+    : ["ip", "netns", "exec", namespace.name];
+  const [elevator, ...elevatorArgs] = prefix;
+  const args = [
+    ...entry,
+    ...argv.slice(elevated ? prefix.length : 0),
+  ];
+  return elevator === undefined
+    ? [args[0], { ...options, args: args.slice(1) }]
+    : [elevator, { ...options, args: [...elevatorArgs, ...args] }];
+};
+
+const isStderrFailure = (stderr: string, policy: StderrPolicy): boolean => {
+  if (policy === "ignore") return false;
+  if (policy === "fail") return stderr.length > 0;
+  return policy(stderr);
+};
+
+/**
+ * A command that would have run outside dryRun.
+ */
+export interface PlannedCommand {
+  /** The command and its arguments, after elevation and namespace entry */
+  argv: string[];
+  /** Environment variables set for the command */
+  env?: Record<string, string>;
+  /** Working directory of the command */
+  cwd?: string;
+}
+
+/**
+ * The outcome of a dry run.
+ */
+export interface CommandPlan<T> {
+  /** Whatever the dry-run function returned */
+  result: T;
+  /** The mutating commands it would have run, in order */
+  commands: PlannedCommand[];
+}
+
+const planContext = new AsyncLocalStorage<PlannedCommand[]>();
+
+/**
+ * Runs a function without changing the system, recording the commands it
+ * would have run.
+ *
+ * Commands marked as mutating (every create, delete and install function) are
+ * recorded with their exact argv and reported as successful with empty
+ * output instead of running. Read-only commands still run, so functions that
+ * inspect the system before changing it plan against its real state.
+ *
+ * @param fn - The function to plan
+ * @returns A Promise resolving to the function's result and the planned
+ *          commands
+ *
+ * @example
+ * ```ts
+ * const { commands } = await dryRun(() => initializeStandardTables());
+ * for (const { argv } of commands) console.log(argv.join(" "));
+ * // sudo -n nft -j add table ip nat
+ * // ...
+ * ```
+ */
+export const dryRun = async <T>(
+  fn: () => T | Promise<T>,
+): Promise<CommandPlan<T>> => {
+  const commands: PlannedCommand[] = [];
+  const result = await planContext.run(commands, fn);
+  return { result, commands };
+};
+
+/**
+ * Returns whether commands are currently being planned by dryRun rather than
+ * run.
+ *
+ * @returns True inside dryRun
+ */
+export const isDryRun = (): boolean => planContext.getStore() !== undefined;
+
+let mutationLockFile: string | undefined;
+let mutationQueue: Promise<void> = Promise.resolve();
+const mutationLockContext = new AsyncLocalStorage<boolean>();
+
+/**
+ * Sets the file used to serialize mutations across processes.
+ *
+ * Without one (the default), mutations are only serialized within this
+ * process. With one, every process using it takes an exclusive flock on the
+ * file around each mutation, so several services on the same machine cannot
+ * interleave their changes. The lock is taken on the local machine, also for
+ * commands run on a remote host.
+ *
+ * @param path - The lock file, e.g. "/run/lock/statocyst.lock", or undefined
+ *               for in-process locking only; it is created if missing
+ *
+ * @example
+ * ```ts
+ * setMutationLockFile("/run/lock/statocyst.lock");
+ * ```
+ */
+export const setMutationLockFile = (path: string | undefined): void => {
+  mutationLockFile = path;
+};
+
+/**
+ * Returns the file used to serialize mutations across processes.
+ *
+ * @returns The lock file, or undefined for in-process locking only
+ */
+export const getMutationLockFile = (): string | undefined => mutationLockFile;
+
+/**
+ * Waits for the in-process mutation lock and returns the function releasing
+ * it.
+ */
+const acquireMutationQueue = (): Promise<() => void> => {
+  let release!: () => void;
+  const held = new Promise<void>((resolve) => release = resolve);
+  const acquired = mutationQueue.then(() => release);
+  mutationQueue = mutationQueue.then(() => held);
+  return acquired;
+};
+
+/**
+ * Runs a function while holding the mutation lock, so no other mutation in
+ * this process (or, with setMutationLockFile, in any process sharing the lock
+ * file) runs at the same time.
+ *
+ * Every command with the `mutates` option takes the lock, so use this to make
+ * a sequence such as "look up a handle, then delete it" atomic. The lock is
+ * reentrant: functions called within `fn` do not wait for it again. Inside
+ * dryRun nothing is locked.
+ *
+ * @param fn - The function to run
+ * @returns A Promise resolving to the Result of `fn`, or a failed Result if
+ *          the lock file cannot be opened
+ *
+ * @example
+ * ```ts
+ * const result = await withMutationLock(() =>
+ *   rpipeAsync(
+ *     () => getRuleFromChain("ip", "filter", "INPUT", rule),
+ *     (found) => deleteRuleByHandle("ip", "filter", "INPUT", found.handle),
+ *   )
+ * );
+ * ```
+ */
+export const withMutationLock = async <T>(
+  fn: () => Promise<Result<T>>,
+): Promise<Result<T>> => {
+  if (mutationLockContext.getStore() || isDryRun()) return await fn();
+  const release = await acquireMutationQueue();
+  let unlock: (() => Promise<void>) | undefined;
+  try {
+    if (mutationLockFile !== undefined) {
+      unlock = await getProcessRuntime().lockFile(mutationLockFile);
+    }
+  } catch (error) {
+    release();
+    return createFail(
+      `Failed to lock ${mutationLockFile}: ${createErrorString(error)}`,
+    );
+  }
+  try {
+    return await mutationLockContext.run(true, fn);
+  } finally {
+    await unlock?.();
+    release();
+  }
+};
+
+/**
+ * A structured record of one command run, for audit logs and tracing.
+ */
+export interface CommandEvent {
+  /** The command and its arguments, after elevation and namespace entry */
+  argv: string[];
+  /** The program the command was elevated with (e.g. "sudo"), if any */
+  privilege?: string;
+  /** The network namespace the command ran in, if any */
+  namespace?: string;
+  /** The function that ran the command (e.g. "createRule"), if known */
+  caller?: string;
+  /**
+   * "end" once the command has finished; streaming commands also report
+   * "start" when they are spawned, with no exit status yet
+   */
+  phase: "start" | "end";
+  /** When the command was started */
+  startedAt: Date;
+  /** When the command ended (the start time for "start" events) */
+  endedAt: Date;
+  /** Wall-clock run time in milliseconds */
+  durationMs: number;
+  /**
+   * Exit status, or null if the command could not be started or has not
+   * ended yet
+   */
+  exitCode: number | null;
+  /** The signal that killed the command, if any */
+  signal: ProcessSignal | null;
+  /**
+   * Standard output, truncated to 4096 characters; empty for streaming
+   * commands, whose output goes to the consumer
+   */
+  stdout: string;
+  /** Standard error, truncated to 4096 characters */
+  stderr: string;
+  /** Why the command failed, if it did */
+  error?: string;
+  /** Whether the command changes the system */
+  mutates: boolean;
+  /** Whether the command was only planned by dryRun, not run */
+  dryRun: boolean;
+}
+
+/**
+ * Receives an event for every command run. Sinks are awaited before the
+ * command's Result is returned.
+ */
+export type CommandEventSink = (event: CommandEvent) => void | Promise<void>;
+
+/**
+ * Options for a command event sink.
+ */
+export interface CommandEventSinkOptions {
+  /**
+   * Called with the error when the sink throws or rejects; without it such
+   * errors are dropped
+   */
+  onSinkError?: (error: unknown, event: CommandEvent) => void;
+}
+
+const EVENT_OUTPUT_LIMIT = 4096;
+const eventSinks = new Map<CommandEventSink, CommandEventSinkOptions>();
+const moduleUrl = import.meta.url;
+
+const truncateOutput = (output: string): string =>
+  output.length > EVENT_OUTPUT_LIMIT
+    ? `${output.slice(0, EVENT_OUTPUT_LIMIT)}... (${
+      output.length - EVENT_OUTPUT_LIMIT
+    } more characters)`
+    : output;
+
+/**
+ * Finds the first named function on a stack trace outside this module.
+ */
+const callerOf = (stack = ""): string | undefined =>
+  stack.split("\n")
+    .map((line) => line.match(/^\s+at (?:async )?([^\s(]+) \((.*)\)$/))
+    .find((match) => match && !match[2].startsWith(moduleUrl))?.[1];
+
+/**
+ * Registers a sink that receives an event for every command run by
+ * executeCommand, streamCommand and the functions built on them, in every
+ * module.
+ *
+ * A sink that throws does not fail the command; the error is passed to the
+ * `onSinkError` option, if given.
+ *
+ * @param sink - The sink, e.g. from createJsonlEventSink or a callback
+ * @param options - Where the sink's own errors go
+ * @returns A function that removes the sink again
+ *
+ * @example
+ * ```ts
+ * const remove = addCommandEventSink((event) => {
+ *   if (event.mutates) audit.push(event);
+ * });
+ * await createRule("ip", "filter", "INPUT", "tcp dport 22 accept");
+ * remove();
+ * ```
+ */
+export const addCommandEventSink = (
+  sink: CommandEventSink,
+  options: CommandEventSinkOptions = {},
+): () => void => {
+  eventSinks.set(sink, options);
+  return () => eventSinks.delete(sink);
+};
+
+/**
+ * Creates a sink that appends each event as one line of JSON to a file.
+ *
+ * @param path - The file to append to; it is created if missing
+ * @returns The sink
+ *
+ * @example
+ * ```ts
+ * addCommandEventSink(createJsonlEventSink("/var/log/statocyst/commands.jsonl"));
+ * ```
+ */
+export const createJsonlEventSink =
+  (path: string | URL): CommandEventSink => (event) =>
+    appendFile(path, `${JSON.stringify(event)}\n`);
+
+/**
+ * Creates a sink that prints a one-line summary of each event.
+ *
+ * @param log - Function to print with (default: console.log)
+ * @returns The sink
+ *
+ * @example
+ * ```ts
+ * addCommandEventSink(createConsoleEventSink());
+ * // sudo -n nft -j add table ip nat: exit 0 in 12ms (createNfTable)
+ * ```
+ */
+export const createConsoleEventSink = (
+  log: (line: string) => void = console.log,
+): CommandEventSink =>
+(event) => {
+  const outcome = event.phase === "start"
+    ? "started"
+    : event.dryRun
+    ? "planned"
+    : event.error ?? `exit ${event.exitCode}`;
+  log(
+    `${event.argv.join(" ")}: ${
+      event.phase === "start" || event.dryRun
+        ? outcome
+        : `${outcome} in ${Math.round(event.durationMs)}ms`
+    }${event.caller ? ` (${event.caller})` : ""}`,
+  );
+};
+
+const emitCommandEvent = async (event: CommandEvent): Promise<void> => {
+  for (const [sink, { onSinkError }] of eventSinks) {
+    try {
+      await sink(event);
+    } catch (error) {
+      try {
+        onSinkError?.(error, event);
+      } catch {
+        // A failing error handler must not fail the command either
+      }
+    }
+  }
+};
+
+/**
+ * The elevation and network namespace of a command, for its events.
+ */
+const describeRun = (
+  argv: string[],
+): Pick<CommandEvent, "privilege" | "namespace"> => {
+  const { prefix } = resolvePrivilege(getPrivilegeStrategy());
+  const elevated = prefix.length > 0 &&
+    prefix.every((arg, index) => argv[index] === arg);
+  const namespace = getNetworkNamespace();
+  return {
+    ...(elevated ? { privilege: prefix[0] } : {}),
+    ...(namespace ? { namespace: namespace.name } : {}),
+  };
+};
+
+/**
+ * Executes a command and returns everything known about its run.
+ *
+ * The command fails when it exits with a non-zero status or is killed by a
+ * signal, or when its stderr output fails the stderr policy. A failed Result
+ * carries a CommandError with the exit code, signal, output, argv and
+ * duration; see getCommandError. It is a PrivilegeError when the privilege
+ * strategy refused to elevate the command. A program that is not installed
+ * fails with a CommandError of kind "not-installed" and exit code -1; other
+ * commands that cannot be started fail without one. The `classifyError`
+ * option decides the `kind` of other failures.
+ *
+ * With the `timeout` option, or when the `signal` option is aborted, the
+ * process is killed and the Result fails with a CommandCancelledError.
+ *
+ * The command runs through the `executor` option if given, otherwise through
+ * the current executor (see withCommandExecutor and setCommandExecutor), in
+ * the current network namespace (see withNetworkNamespace). Inside dryRun,
+ * commands with the `mutates` option are only recorded; otherwise they hold
+ * the mutation lock while running (see withMutationLock). Every run, planned or
+ * not, is reported to the sinks added with addCommandEventSink.
+ *
+ * @param args - The command name and options (see ProcessOptions), plus an
+ *               optional stderr policy and timeout
+ * @returns A Promise resolving to a Result containing the command's output
+ *
+ * @example
+ * ```ts
+ * const result = await executeCommand("nft", { args: ["-j", "list", "tables"] });
+ * if (isSuccess(result)) {
+ *   console.log(`took ${result.output.durationMs}ms`, result.output.stderr);
+ * }
+ * ```
+ */
+export const executeCommand = async (
+  ...[command, options = {}]: CommandArgs
+): Promise<Result<CommandOutput>> => {
+  const {
+    stderrPolicy = "ignore",
+    executor = getCommandExecutor(),
+    timeout,
+    signal,
+    mutates = false,
+    classifyError,
+    ...commandOptions
+  } = options;
+  const caller = eventSinks.size > 0 ? callerOf(new Error().stack) : undefined;
+  const startedAt = new Date();
+  const [target, targetOptions] = inNetworkNamespace(command, commandOptions);
+  const argv = argvOf(target, targetOptions);
+  const plan = planContext.getStore();
+  if (plan && mutates) {
+    plan.push({
+      argv,
+      ...(targetOptions.env ? { env: targetOptions.env } : {}),
+      ...(targetOptions.cwd ? { cwd: String(targetOptions.cwd) } : {}),
+    });
+  }
+  const result = plan && mutates
+    ? createSuccess<CommandOutput>({
+      argv,
+      exitCode: 0,
+      signal: null,
+      stdout: "",
+      stderr: "",
+      durationMs: 0,
+    })
+    : mutates
+    ? await withMutationLock(() =>
+      runExecution(target, targetOptions, {
+        stderrPolicy,
+        executor,
+        timeout,
+        signal,
+        classifyError,
+      })
+    )
+    : await runExecution(target, targetOptions, {
+      stderrPolicy,
+      executor,
+      timeout,
+      signal,
+      classifyError,
+    });
+  if (eventSinks.size > 0) {
+    const output = isSuccess(result) ? result.output : getCommandError(result);
+    const endedAt = new Date();
+    await emitCommandEvent({
+      argv,
+      ...describeRun(argv),
+      ...(caller ? { caller } : {}),
+      phase: "end",
+      startedAt,
+      endedAt,
+      durationMs: output?.durationMs ??
+        endedAt.getTime() - startedAt.getTime(),
+      exitCode: output?.exitCode ?? null,
+      signal: output?.signal ?? null,
+      stdout: truncateOutput(output?.stdout ?? ""),
+      stderr: truncateOutput(output?.stderr ?? ""),
+      ...(isSuccess(result) ? {} : { error: result.error }),
+      mutates,
+      dryRun: plan !== undefined && mutates,
+    });
+  }
+  return result;
+};
+
+/**
+ * Runs a command, already placed in its network namespace, through the
+ * executor and turns its output into a Result.
+ */
+const runExecution = async (
+  target: string | URL,
+  targetOptions: ProcessOptions,
+  { stderrPolicy, executor, timeout, signal, classifyError }: {
+    stderrPolicy: StderrPolicy;
+    executor: CommandExecutor;
+    timeout?: number;
+    signal?: AbortSignal;
+    classifyError?: ErrorClassifier;
+  },
+): Promise<Result<CommandOutput>> => {
+  const timeoutController = new AbortController();
+  const timer = timeout === undefined
+    ? undefined
+    : setTimeout(() => timeoutController.abort(), timeout);
+  const cancellation = (): CancellationReason | undefined =>
+    timeoutController.signal.aborted
+      ? "timeout"
+      : signal?.aborted
+      ? "aborted"
+      : undefined;
+  const started = performance.now();
+  try {
+    const output = await executor(target, {
+      ...targetOptions,
+      ...(signal || timeout !== undefined
+        ? {
+          signal: signal
+            ? AbortSignal.any([signal, timeoutController.signal])
+            : timeoutController.signal,
+        }
+        : {}),
+    });
+    const success = output.exitCode === 0 && output.signal === null;
+    if (!success || isStderrFailure(output.stderr, stderrPolicy)) {
+      const reason = cancellation();
+      const error = reason
+        ? new CommandCancelledError(output, reason, timeout)
+        : isPrivilegeDenied(output)
+        ? new PrivilegeError(output)
+        : new CommandError(output, classifyFailure(output, classifyError));
+      return Object.assign(createFail(error.message), { commandError: error });
+    }
+    return createSuccess(output);
+  } catch (error) {
+    const reason = cancellation();
+    if (reason) {
+      const cancelled = new CommandCancelledError(
+        {
+          argv: argvOf(target, targetOptions),
+          exitCode: -1,
+          signal: null,
+          stdout: "",
+          stderr: "",
+          durationMs: performance.now() - started,
+        },
+        reason,
+        timeout,
+      );
+      return Object.assign(createFail(cancelled.message), {
+        commandError: cancelled,
+      });
+    }
+    if (isProgramNotFound(error)) {
+      const missing = new CommandError(
+        {
+          argv: argvOf(target, targetOptions),
+          exitCode: -1,
+          signal: null,
+          stdout: "",
+          stderr: "",
+          durationMs: performance.now() - started,
+        },
+        "not-installed",
+      );
+      missing.message = createErrorString(error);
+      return Object.assign(createFail(missing.message), {
+        commandError: missing,
+      });
+    }
+    return createFail(createErrorString(error));
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Executes a command and returns its output as a Result.
+ *
+ * Runs a command through the current executor and captures stdout/stderr. The
+ * command fails when it exits unsuccessfully; stderr output alone does not
+ * fail it unless the `stderrPolicy` option says so, so warnings printed by
+ * tools like nft or apt-get do not turn a successful run into a failure. A
+ * failed Result carries a CommandError (see getCommandError).
+ *
+ * The `timeout` and `signal` options kill a command that hangs; it then fails
+ * with a CommandCancelledError.
+ *
+ * @param args - The command name and options (see ProcessOptions), plus an
+ *               optional stderr policy and timeout
  * @returns A Promise resolving to a Result containing the command's stdout on success,
  *          or an error message on failure
  *
@@ -52,26 +1399,20 @@ import {
  * if (isSuccess(result)) {
  *   console.log(result.output); // "hello\n"
  * }
+ *
+ * // Give up on a wedged netplan after 5 seconds
+ * const config = await runCommand("netplan", { args: ["get"], timeout: 5000 });
  * ```
  */
 export const runCommand = async (
-  ...args: ConstructorParameters<typeof Deno.Command>
+  ...args: CommandArgs
 ): Promise<Result<string>> => {
-  const cmd = new Deno.Command(...args);
-  try {
-    const result = await cmd.output();
-    const textDecoder = new TextDecoder();
-    if (result.stderr.length > 0) {
-      return createFail(createErrorString(textDecoder.decode(result.stderr)));
-    }
-    return createSuccess(textDecoder.decode(result.stdout));
-  } catch (error) {
-    return createFail(createErrorString(error));
-  }
+  const result = await executeCommand(...args);
+  return isSuccess(result) ? createSuccess(result.output.stdout) : result;
 };
 
 /**
- * Executes a Deno command and processes its output with a custom processor function.
+ * Executes a command and processes its output with a custom processor function.
  *
  * Runs a command using runCommand and, if successful, applies the provided processor
  * function to transform the stdout string into a custom type. This is useful for
@@ -80,7 +1421,7 @@ export const runCommand = async (
  * @template T - The type of the processed output
  * @param processor - Function to transform the command's stdout string into type T.
  *                    Defaults to identity function that casts the string to T
- * @param args - Arguments to pass to the Deno.Command constructor (command name and options)
+ * @param args - The command name and options, as for runCommand
  * @returns A Promise resolving to a Result containing the processed output on success,
  *          or an error message on failure
  *
@@ -99,7 +1440,7 @@ export const runCommand = async (
  */
 export const runCommandAndProcessOutput = <T>(
   processor: (output: string) => T = (output: string) => output as T,
-  ...args: ConstructorParameters<typeof Deno.Command>
+  ...args: CommandArgs
 ): Promise<Result<T>> =>
   pipeAsync(runCommand(...args), (result) => {
     if (isSuccess(result)) {
@@ -108,3 +1449,262 @@ export const runCommandAndProcessOutput = <T>(
       return result;
     }
   });
+
+/**
+ * Options for streamCommand and the line and JSON streams built on it.
+ */
+export interface StreamCommandOptions extends ProcessOptions {
+  /** Called with each line the process writes to stderr, as it is written */
+  onStderr?: (line: string) => void;
+  /** Classifier for the tool's failures (see CommandOptions) */
+  classifyError?: ErrorClassifier;
+}
+
+/**
+ * Arguments accepted by the streaming runners: the command name and its
+ * options.
+ */
+export type StreamCommandArgs = [
+  command: string | URL,
+  options?: StreamCommandOptions,
+];
+
+/**
+ * Splits a stream of text chunks into lines.
+ *
+ * Lines may span any number of chunks. Line terminators (`\n` or `\r\n`) are
+ * removed, and a final line without a terminator is yielded when the chunks
+ * end.
+ *
+ * @param chunks - Text chunks, split at arbitrary positions
+ * @returns An async generator of lines
+ *
+ * @example
+ * ```ts
+ * for await (const line of splitLines(streamCommand("ip", { args: ["monitor"] }))) {
+ *   console.log(line);
+ * }
+ * ```
+ */
+export async function* splitLines(
+  chunks: AsyncIterable<string>,
+): AsyncGenerator<string> {
+  let buffer = "";
+  for await (const chunk of chunks) {
+    buffer += chunk;
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) yield line.replace(/\r$/, "");
+  }
+  if (buffer !== "") yield buffer.replace(/\r$/, "");
+}
+
+/**
+ * Drains stderr, passing each line to the callback while keeping the full
+ * text for a CommandError.
+ */
+const collectStderr = async (
+  stream: ReadableStream<Uint8Array>,
+  onLine?: (line: string) => void,
+): Promise<string> => {
+  let text = "";
+  async function* chunks() {
+    for await (const chunk of stream.pipeThrough(new TextDecoderStream())) {
+      text += chunk;
+      yield chunk;
+    }
+  }
+  for await (const line of splitLines(chunks())) onLine?.(line);
+  return text;
+};
+
+/**
+ * Spawns a long-running command and yields its stdout as it arrives.
+ *
+ * Unlike runCommand, which buffers all output until the process exits, this
+ * yields decoded text chunks as soon as they are written, making it suitable
+ * for commands that never terminate on their own (live captures, monitors).
+ * Chunk boundaries are arbitrary and may split lines; multi-byte characters
+ * are decoded safely across them. Use streamCommandLines or streamCommandJson
+ * for line-oriented output.
+ *
+ * Streaming always spawns a local process with the current process runtime,
+ * so executors that only record or replay output do not apply. Within a
+ * remote executor (one with a `host`, e.g. inside withSshHost) the iteration
+ * throws a CommandError of kind "unsupported" instead of running the command
+ * on the wrong machine. The sinks added with addCommandEventSink
+ * receive a "start" event when the process is spawned and an "end" event
+ * once it has exited.
+ *
+ * Stdout is only read as fast as the consumer iterates, so a slow consumer
+ * makes the process block on a full pipe instead of buffering without bound.
+ * Stderr is drained continuously and passed line by line to the `onStderr`
+ * option.
+ *
+ * The process is killed when the consumer stops iterating early. Pass an
+ * AbortSignal in the command options to stop it from elsewhere; an aborted
+ * process ends the iteration quietly. If the process exits unsuccessfully for
+ * any other reason, the iteration throws a CommandError carrying its exit
+ * status and stderr (stdout has already been yielded and is left empty).
+ *
+ * @param args - The command name and options (see ProcessOptions), plus an
+ *               optional stderr callback
+ * @returns An async generator of stdout text chunks
+ *
+ * @example
+ * ```ts
+ * const controller = new AbortController();
+ * for await (const chunk of streamCommand("ping", {
+ *   args: ["127.0.0.1"],
+ *   signal: controller.signal,
+ * })) {
+ *   console.log(chunk);
+ * }
+ * ```
+ */
+export async function* streamCommand(
+  ...args: StreamCommandArgs
+): AsyncGenerator<string> {
+  const [command, options] = inNetworkNamespace(args[0], args[1] ?? {});
+  const { onStderr, classifyError, signal, ...spawnOptions } = options;
+  const argv = argvOf(command, options);
+  const { host } = getCommandExecutor();
+  if (host !== undefined) {
+    throw new CommandError({
+      argv,
+      exitCode: -1,
+      signal: null,
+      stdout: "",
+      stderr: `Streaming commands cannot run on ${host}`,
+      durationMs: 0,
+    }, "unsupported");
+  }
+  const caller = eventSinks.size > 0 ? callerOf(new Error().stack) : undefined;
+  const event = {
+    argv,
+    ...describeRun(argv),
+    ...(caller ? { caller } : {}),
+    startedAt: new Date(),
+    stdout: "",
+    mutates: false,
+    dryRun: false,
+  };
+  await emitCommandEvent({
+    ...event,
+    phase: "start",
+    endedAt: event.startedAt,
+    durationMs: 0,
+    exitCode: null,
+    signal: null,
+    stderr: "",
+  });
+  const started = performance.now();
+  let status: ProcessStatus | undefined;
+  let stderrText = "";
+  let failure: unknown;
+  try {
+    const child = getProcessRuntime().spawn(command, {
+      ...spawnOptions,
+      stdin: "null",
+      stdout: "piped",
+      stderr: "piped",
+    });
+    const abort = () => child.kill("SIGTERM");
+    if (signal?.aborted) abort();
+    signal?.addEventListener("abort", abort, { once: true });
+    const stderr = collectStderr(child.stderr, onStderr);
+    try {
+      for await (
+        const chunk of child.stdout.pipeThrough(new TextDecoderStream())
+      ) {
+        yield chunk;
+      }
+      status = await child.status;
+      if ((status.code !== 0 || status.signal !== null) && !signal?.aborted) {
+        const output = {
+          argv,
+          exitCode: status.code,
+          signal: status.signal,
+          stdout: "",
+          stderr: await stderr,
+          durationMs: performance.now() - started,
+        };
+        throw new CommandError(output, classifyFailure(output, classifyError));
+      }
+    } finally {
+      signal?.removeEventListener("abort", abort);
+      if (!status) {
+        child.kill();
+        status = await child.status.catch(() => undefined);
+      }
+      stderrText = await stderr;
+    }
+  } catch (error) {
+    failure = error;
+    throw error;
+  } finally {
+    await emitCommandEvent({
+      ...event,
+      phase: "end",
+      endedAt: new Date(),
+      durationMs: performance.now() - started,
+      exitCode: status?.code ?? null,
+      signal: status?.signal ?? null,
+      stderr: truncateOutput(stderrText),
+      ...(failure !== undefined ? { error: createErrorString(failure) } : {}),
+    });
+  }
+}
+
+/**
+ * Spawns a long-running command and yields its stdout line by line.
+ *
+ * Behaves like streamCommand, but each yielded value is one complete line
+ * without its terminator.
+ *
+ * @param args - The command name and options, as for streamCommand
+ * @returns An async generator of stdout lines
+ *
+ * @example
+ * ```ts
+ * for await (const line of streamCommandLines("ip", {
+ *   args: ["monitor", "link"],
+ *   signal,
+ * })) {
+ *   console.log(line);
+ * }
+ * ```
+ */
+export const streamCommandLines = (
+  ...args: StreamCommandArgs
+): AsyncGenerator<string> => splitLines(streamCommand(...args));
+
+/**
+ * Spawns a long-running command that prints one JSON document per line
+ * and yields the parsed documents.
+ *
+ * Blank lines are skipped. A line that is not valid JSON ends the iteration
+ * with a SyntaxError, which also terminates the process.
+ *
+ * @template T - The type of each document; not validated, so check it with a
+ *               type guard when the output is not trusted
+ * @param args - The command name and options, as for streamCommand
+ * @returns An async generator of parsed documents
+ *
+ * @example
+ * ```ts
+ * for await (const event of streamCommandJson(...privileged("nft", {
+ *   args: ["-j", "monitor"],
+ *   signal,
+ * }))) {
+ *   console.log(event);
+ * }
+ * ```
+ */
+export async function* streamCommandJson<T = unknown>(
+  ...args: StreamCommandArgs
+): AsyncGenerator<T> {
+  for await (const line of streamCommandLines(...args)) {
+    if (line.trim() !== "") yield JSON.parse(line) as T;
+  }
+}
@@ -1,6 +1,10 @@
-import { getIpAddresses, getIpRoutes } from "./command.ts";
+import { classifyIpError, getIpAddresses, getIpRoutes } from "./command.ts";
 import { describe, it } from "@std/testing/bdd";
-import { resultIsSuccessAndMatches } from "../testUtils.ts";
+import { expect } from "@std/expect";
+import {
+  resultIsSuccessAndMatches,
+  withRecordedCommands,
+} from "../testUtils.ts";
 import { isIpAddressList, isIpRouteList } from "./types.ts";
 
 describe("getIpAddresses", () => {
@@ -19,3 +23,57 @@ describe("getIpAddresses", () => {
     );
   });
 });
+
+describe("ip commands (recorded)", () => {
+  const fixture = new URL("./fixtures/commands.json", import.meta.url);
+
+  it("should parse recorded addresses", async () => {
+    const result = await withRecordedCommands(fixture, getIpAddresses);
+    resultIsSuccessAndMatches(
+      result,
+      true,
+      (result) => isIpAddressList(result.output),
+    );
+    resultIsSuccessAndMatches(
+      result,
+      "192.168.1.10",
+      (result) => result.output[1].addr_info[0].local,
+    );
+  });
+  it("should parse recorded routes", async () => {
+    const result = await withRecordedCommands(fixture, getIpRoutes);
+    resultIsSuccessAndMatches(
+      result,
+      "192.168.1.1",
+      (result) =>
+        result.output.find((route) => route.dst === "default")?.gateway,
+    );
+  });
+});
+
+describe("classifyIpError", () => {
+  const output = {
+    argv: ["ip", "link", "set", "eth9", "up"],
+    exitCode: 1,
+    signal: null,
+    stdout: "",
+    durationMs: 1,
+  };
+  it("should recognize missing devices and bad arguments", () => {
+    expect(
+      classifyIpError({ ...output, stderr: 'Cannot find device "eth9"\n' }),
+    ).toBe("not-found");
+    expect(
+      classifyIpError({
+        ...output,
+        stderr: 'Command "sett" is unknown, try "ip link help".\n',
+      }),
+    ).toBe("syntax");
+    expect(
+      classifyIpError({
+        ...output,
+        stderr: "RTNETLINK answers: File exists\n",
+      }),
+    ).toBeUndefined();
+  });
+});
@@ -1,14 +1,47 @@
-import { Result } from "@joyautomation/dark-matter";
-import { runCommandAndProcessOutput } from "../command.ts";
+import { Result, rpipeAsync } from "@joyautomation/dark-matter";
+import { requireTool } from "../capabilities/command.ts";
+import {
+  CancellationOptions,
+  ErrorClassifier,
+  runCommandAndProcessOutput,
+} from "../command.ts";
 import { IpAddressList, IpRouteList } from "./types.ts";
 
+/**
+ * Classifies ip failures by their error messages.
+ *
+ * Kernel errors ("RTNETLINK answers: File exists") are left to the common
+ * classifier; this recognizes iproute2's own argument and lookup errors.
+ *
+ * @param output - The failed ip command's output
+ * @returns The kind of failure, or undefined if not recognized
+ *
+ * @example
+ * ```ts
+ * classifyIpError({ ...output, stderr: 'Cannot find device "eth9"' });
+ * // "not-found"
+ * ```
+ */
+export const classifyIpError: ErrorClassifier = ({ stderr }) => {
+  if (/cannot find device|does not exist/i.test(stderr)) return "not-found";
+  if (
+    /is unknown, try|is a garbage|is expected rather than|invalid argument/i
+      .test(stderr)
+  ) {
+    return "syntax";
+  }
+  return undefined;
+};
+
 /**
  * Retrieves all network interface addresses and their configuration.
  *
  * Executes the `ip -j address` command to get detailed information about all
  * network interfaces on the system, including IP addresses, MTU, operational
- * state, and other interface properties.
+ * state, and other interface properties. Fails early if the installed ip is
+ * too old to print JSON.
  *
+ * @param options - Timeout and AbortSignal for the command
  * @returns A promise that resolves to an array of network interfaces with their
  *          address information, or rejects if the command fails.
  *
@@ -19,16 +52,24 @@ import { IpAddressList, IpRouteList } from "./types.ts";
  * console.log(interfaces[0].addr_info[0].local); // e.g., "192.168.1.100"
  * ```
  */
-export const getIpAddresses = (): Promise<Result<IpAddressList>> =>
-  runCommandAndProcessOutput<IpAddressList>(
-    (output) => JSON.parse(output),
-    "ip",
-    {
-      args: [
-        "-j",
-        "address",
-      ],
-    },
+export const getIpAddresses = (
+  options: CancellationOptions = {},
+): Promise<Result<IpAddressList>> =>
+  rpipeAsync(
+    () => requireTool("ip", "json", options),
+    () =>
+      runCommandAndProcessOutput<IpAddressList>(
+        (output) => JSON.parse(output),
+        "ip",
+        {
+          args: [
+            "-j",
+            "address",
+          ],
+          classifyError: classifyIpError,
+          ...options,
+        },
+      ),
   );
 
 /**
@@ -37,6 +78,7 @@ export const getIpAddresses = (): Promise<Result<IpAddressList>> =>
  * Executes the `ip -j route` command to get all routing entries, including
  * destinations, gateways, network devices, protocols, and routing metrics.
  *
+ * @param options - Timeout and AbortSignal for the command
  * @returns A promise that resolves to an array of route entries, or rejects
  *          if the command fails.
  *
@@ -47,14 +89,22 @@ export const getIpAddresses = (): Promise<Result<IpAddressList>> =>
  * console.log(defaultRoute?.gateway); // e.g., "192.168.1.1"
  * ```
  */
-export const getIpRoutes = (): Promise<Result<IpRouteList>> =>
-  runCommandAndProcessOutput<IpRouteList>(
-    (output) => JSON.parse(output),
-    "ip",
-    {
-      args: [
-        "-j",
-        "route",
-      ],
-    },
+export const getIpRoutes = (
+  options: CancellationOptions = {},
+): Promise<Result<IpRouteList>> =>
+  rpipeAsync(
+    () => requireTool("ip", "json", options),
+    () =>
+      runCommandAndProcessOutput<IpRouteList>(
+        (output) => JSON.parse(output),
+        "ip",
+        {
+          args: [
+            "-j",
+            "route",
+          ],
+          classifyError: classifyIpError,
+          ...options,
+        },
+      ),
   );
@@ -9,6 +9,9 @@
  * - `@joyautomation/statocyst/netplan` - Netplan configuration
  * - `@joyautomation/statocyst/nftables` - nftables firewall management
  * - `@joyautomation/statocyst/tshark` - Network traffic capture
+ * - `@joyautomation/statocyst/pcap` - pcap/pcapng file reading and writing
+ * - `@joyautomation/statocyst/ssh` - Running the other modules on remote hosts
+ * - `@joyautomation/statocyst/capabilities` - Installed tool versions and features
  *
  * @example
  * ```ts
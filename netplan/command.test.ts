@@ -1,5 +1,6 @@
 import { describe, it } from "node:test";
-import { getNetplanConfig } from "./command.ts";
+import { expect } from "@std/expect";
+import { classifyNetplanError, getNetplanConfig } from "./command.ts";
 import { isNetplanConfig } from "./types.ts";
 import { resultIsSuccessAndMatches } from "../testUtils.ts";
 
@@ -12,3 +13,23 @@ describe("Netplan Command", () => {
     );
   });
 });
+
+describe("classifyNetplanError", () => {
+  it("should recognize invalid configuration", () => {
+    const output = {
+      argv: ["netplan", "get"],
+      exitCode: 1,
+      signal: null,
+      stdout: "",
+      durationMs: 1,
+    };
+    expect(
+      classifyNetplanError({
+        ...output,
+        stderr:
+          "/etc/netplan/01.yaml:5:7: Error in network definition: unknown key 'dhcp'",
+      }),
+    ).toBe("syntax");
+    expect(classifyNetplanError({ ...output, stderr: "" })).toBeUndefined();
+  });
+});
@@ -1,14 +1,42 @@
-import { Result } from "@joyautomation/dark-matter";
-import { runCommandAndProcessOutput } from "../command.ts";
+import { Result, rpipeAsync } from "@joyautomation/dark-matter";
+import { requireTool } from "../capabilities/command.ts";
+import {
+  CancellationOptions,
+  ErrorClassifier,
+  privileged,
+  runCommandAndProcessOutput,
+} from "../command.ts";
 import * as YAML from "@std/yaml";
 import { NetplanConfig } from "./types.ts";
 
+/**
+ * Classifies netplan failures by their error messages.
+ *
+ * @param output - The failed netplan command's output
+ * @returns "syntax" for invalid YAML or network definitions, otherwise
+ *          undefined
+ *
+ * @example
+ * ```ts
+ * classifyNetplanError({
+ *   ...output,
+ *   stderr: "/etc/netplan/01.yaml:5:7: Error in network definition: unknown key 'dhcp'",
+ * }); // "syntax"
+ * ```
+ */
+export const classifyNetplanError: ErrorClassifier = ({ stderr }) =>
+  /invalid yaml|error in network definition|unknown key|expected/i.test(stderr)
+    ? "syntax"
+    : undefined;
+
 /**
  * Retrieves the current netplan configuration.
  *
  * Executes the `netplan get` command to retrieve the system's network
- * configuration and parses the YAML output.
+ * configuration and parses the YAML output. Releases without `netplan get`
+ * fail early with kind "unsupported".
  *
+ * @param options - Timeout and AbortSignal for the command
  * @returns A Promise resolving to a Result containing the parsed NetplanConfig
  *          object, or an error if the command fails
  *
@@ -20,15 +48,21 @@ import { NetplanConfig } from "./types.ts";
  * }
  * ```
  */
-export const getNetplanConfig = (): Promise<Result<NetplanConfig>> =>
-  runCommandAndProcessOutput<NetplanConfig>(
-    (output) => YAML.parse(output) as NetplanConfig,
-    "sudo",
-    {
-      args: [
-        "netplan",
-        "-j",
-        "get",
-      ],
-    },
+export const getNetplanConfig = (
+  options: CancellationOptions = {},
+): Promise<Result<NetplanConfig>> =>
+  rpipeAsync(
+    () => requireTool("netplan", "get", options),
+    () =>
+      runCommandAndProcessOutput<NetplanConfig>(
+        (output) => YAML.parse(output) as NetplanConfig,
+        ...privileged("netplan", {
+          args: [
+            "-j",
+            "get",
+          ],
+          classifyError: classifyNetplanError,
+          ...options,
+        }),
+      ),
   );
@@ -1,11 +1,17 @@
-import { describe, it } from "@std/testing/bdd";
+import { afterAll, beforeAll, describe, it } from "@std/testing/bdd";
 import { expect } from "@std/expect";
 import {
+  classifyNftError,
+  createDnatRule,
+  createNfTableChain,
   createRule,
+  createSnatRule,
   deleteAllMatchingRulesFromChain,
   getRuleFromChain,
   getRules,
   getRulesFromChain,
+  getRulesFromTable,
+  getTable,
   getTables,
   initializeStandardTables,
   installIfNftMissing,
@@ -13,7 +19,18 @@ import {
 } from "./command.ts";
 import { isSuccess } from "@joyautomation/dark-matter";
 import { isNftablesList, isNftRule, NftRule } from "./types.ts";
-import { resultIsSuccessAndMatches } from "../testUtils.ts";
+import {
+  resultIsSuccessAndMatches,
+  withRecordedCommands,
+} from "../testUtils.ts";
+import {
+  dryRun,
+  getCommandError,
+  getErrorKind,
+  getPrivilegeStrategy,
+  PrivilegeStrategy,
+  setPrivilegeStrategy,
+} from "../command.ts";
 
 describe("NFT Tables Command", () => {
   it("should return true if nft is installed", async () => {
@@ -95,3 +112,159 @@ describe("NFT Tables Command", () => {
     }
   });
 });
+
+describe("NFT Tables Command (recorded)", () => {
+  const fixture = new URL("./fixtures/commands.json", import.meta.url);
+  let strategy: PrivilegeStrategy;
+  // The fixture was recorded as a normal user elevating with sudo -n
+  beforeAll(() => {
+    strategy = getPrivilegeStrategy();
+    setPrivilegeStrategy("sudo");
+  });
+  afterAll(() => setPrivilegeStrategy(strategy));
+
+  it("should report nft as missing when which exits with 1", async () => {
+    resultIsSuccessAndMatches(
+      await withRecordedCommands(fixture, isNftInstalled),
+      false,
+    );
+  });
+  it("should parse recorded tables", async () => {
+    resultIsSuccessAndMatches(
+      await withRecordedCommands(fixture, getTables),
+      true,
+      (result) => isNftablesList(result.output),
+    );
+  });
+  it("should extract the rules of a recorded table", async () => {
+    const result = await withRecordedCommands(
+      fixture,
+      () => getRulesFromTable("ip", "nat"),
+    );
+    resultIsSuccessAndMatches(result, 1, (result) => result.output.length);
+    resultIsSuccessAndMatches(
+      result,
+      true,
+      (result) => isNftRule(result.output[0]),
+    );
+  });
+  it("should surface nft errors with their exit code", async () => {
+    const result = await withRecordedCommands(
+      fixture,
+      () => getTable("ip", "mangle"),
+    );
+    expect(isSuccess(result)).toBe(false);
+    expect(getCommandError(result)?.exitCode).toBe(1);
+    expect(getCommandError(result)?.kind).toBe("not-found");
+  });
+  it("should plan the standard tables without running nft", async () => {
+    const { result, commands } = await dryRun(() => initializeStandardTables());
+    expect(isSuccess(result)).toBe(true);
+    expect(commands.length).toBe(15);
+    expect(commands[0].argv).toEqual([
+      "sudo",
+      "-n",
+      "nft",
+      "-j",
+      "add",
+      "table",
+      "ip",
+      "nat",
+    ]);
+  });
+  it("should plan a DNAT rule", async () => {
+    const { commands } = await dryRun(() =>
+      createDnatRule("192.168.1.10", "10.0.0.5")
+    );
+    expect(commands.map(({ argv }) => argv.slice(3))).toEqual([
+      [
+        "-j",
+        "add",
+        "rule",
+        "ip",
+        "nat",
+        "PREROUTING",
+        "ip daddr 192.168.1.10 counter dnat to 10.0.0.5",
+      ],
+    ]);
+  });
+  it("should quote a rule comment", async () => {
+    const { commands } = await dryRun(() =>
+      createSnatRule(
+        "10.0.0.0/24",
+        "192.168.1.1",
+        "ip",
+        "nat",
+        "POSTROUTING",
+        "lan out",
+      )
+    );
+    expect(commands[0].argv.at(-1)).toBe(
+      'ip saddr 10.0.0.0/24 counter snat to 192.168.1.1 comment "lan out"',
+    );
+  });
+  it("should reject injected values without planning commands", async () => {
+    const attempts = [
+      () => createDnatRule("192.168.1.10; flush ruleset", "10.0.0.5"),
+      () =>
+        createDnatRule(
+          "192.168.1.10",
+          "10.0.0.5",
+          "ip",
+          "nat",
+          "PREROUTING",
+          'x"; flush ruleset; "',
+        ),
+      () => createRule("ip", "nat\nflush ruleset", "PREROUTING", "accept"),
+      () => createRule("ip", "filter", "INPUT", "accept; flush ruleset"),
+      () => createRule("ip", "filter", "INPUT", "accept\nflush ruleset"),
+      () =>
+        createNfTableChain("ip", "filter", "INPUT", "filter", "input; }", 0),
+    ];
+    for (const attempt of attempts) {
+      const { result, commands } = await dryRun(attempt);
+      expect(getErrorKind(result)).toBe("invalid-argument");
+      expect(commands).toEqual([]);
+    }
+  });
+  it("should reject IPv6 addresses for IPv4 NAT rules", async () => {
+    const attempts = [
+      () => createDnatRule("2001:db8::10", "10.0.0.5"),
+      () => createDnatRule("192.168.1.10", "2001:db8::5"),
+      () => createSnatRule("2001:db8::/64", "192.168.1.1"),
+      () => createSnatRule("10.0.0.0/24", "2001:db8::1"),
+    ];
+    for (const attempt of attempts) {
+      const { result, commands } = await dryRun(attempt);
+      expect(getErrorKind(result)).toBe("invalid-argument");
+      expect(commands).toEqual([]);
+    }
+  });
+});
+
+describe("classifyNftError", () => {
+  const output = {
+    argv: ["nft", "add", "rule", "ip", "filter", "INPUT", "junk"],
+    exitCode: 1,
+    signal: null,
+    stdout: "",
+    durationMs: 1,
+  };
+  it("should recognize parser and lookup errors", () => {
+    expect(
+      classifyNftError({
+        ...output,
+        stderr: "Error: syntax error, unexpected string",
+      }),
+    ).toBe("syntax");
+    expect(
+      classifyNftError({
+        ...output,
+        stderr:
+          "Error: No such file or directory; did you mean table 'nat' in family ip?",
+      }),
+    ).toBe("not-found");
+    expect(classifyNftError({ ...output, stderr: "Error: other" }))
+      .toBeUndefined();
+  });
+});
@@ -1,5 +1,13 @@
-import { runCommandAndProcessOutput } from "../command.ts";
-import { createFail, Result, rpipeAsync } from "@joyautomation/dark-matter";
+import {
+  CancellationOptions,
+  createKindFail,
+  ErrorClassifier,
+  getCommandError,
+  privileged,
+  runCommandAndProcessOutput,
+  withMutationLock,
+} from "../command.ts";
+import { Result, rpipeAsync } from "@joyautomation/dark-matter";
 import {
   isNftableEntryRule,
   isNftRule,
@@ -8,6 +16,68 @@ import {
   NftRule,
 } from "./types.ts";
 import { createSuccess, isSuccess } from "@joyautomation/dark-matter";
+import { requireTool } from "../capabilities/command.ts";
+import { ensureInstalled } from "../capabilities/packages.ts";
+import {
+  cidr4,
+  ipv4Address,
+  nftChainType,
+  nftComment,
+  nftFamily,
+  nftHook,
+  nftIdentifier,
+  nftInteger,
+  nftRuleText,
+} from "./values.ts";
+
+/**
+ * Runs a command only if every value it is built from passed validation,
+ * failing with the first invalid value otherwise.
+ */
+const whenValid = <T>(
+  checks: Result<unknown>[],
+  run: () => Promise<Result<T>>,
+): Promise<Result<T>> => {
+  const invalid = checks.find((check) => !isSuccess(check));
+  return invalid ? Promise.resolve(invalid as Result<never>) : run();
+};
+
+/**
+ * Validates the family, table and, optionally, chain naming an nft object.
+ */
+const objectChecks = (
+  family: string,
+  table: string,
+  chain?: string,
+): Result<unknown>[] => [
+  nftFamily(family),
+  nftIdentifier(table, "table name"),
+  ...(chain === undefined ? [] : [nftIdentifier(chain, "chain name")]),
+];
+
+/**
+ * Classifies nft failures by their error messages.
+ *
+ * nft reports kernel errors as "Error: Could not process rule: <reason>",
+ * which the common classifier recognizes; this adds nft's own parser and
+ * cache errors.
+ *
+ * @param output - The failed nft command's output
+ * @returns The kind of failure, or undefined if not recognized
+ *
+ * @example
+ * ```ts
+ * classifyNftError({ ...output, stderr: "Error: syntax error, unexpected junk" });
+ * // "syntax"
+ * ```
+ */
+export const classifyNftError: ErrorClassifier = ({ stderr }) => {
+  if (/syntax error|unexpected|could not parse|unknown .* type/i.test(stderr)) {
+    return "syntax";
+  }
+  if (/did you mean|does not exist/i.test(stderr)) return "not-found";
+  return undefined;
+};
 
 /**
  * Compares two NftRule objects for equality.
@@ -59,6 +129,7 @@ export const areRulesEqual = (rule1: NftRule, rule2: NftRule): boolean => {
  *
  * Uses the `which` command to determine if the `nft` binary is available.
  *
+ * @param options - Timeout and AbortSignal for the command
  * @returns A Promise resolving to a Result containing true if nftables is installed,
  *          false otherwise
  *
@@ -70,17 +141,29 @@ export const areRulesEqual = (rule1: NftRule, rule2: NftRule): boolean => {
  * }
  * ```
  */
-export const isNftInstalled = (): Promise<Result<boolean>> =>
-  runCommandAndProcessOutput<boolean>((output) => output !== "", "which", {
-    args: ["nft"],
-  });
+export const isNftInstalled = async (
+  options: CancellationOptions = {},
+): Promise<Result<boolean>> => {
+  const result = await runCommandAndProcessOutput<boolean>(
+    (output) => output !== "",
+    "which",
+    { args: ["nft"], ...options },
+  );
+  // which exits with status 1 when the binary is not on the PATH
+  return getCommandError(result)?.exitCode === 1
+    ? createSuccess(false)
+    : result;
+};
 
 /**
- * Installs nftables using apt-get.
+ * Installs nftables with the host's package manager.
  *
- * Runs `sudo apt-get install nftables -y` with non-interactive mode.
- * Requires sudo privileges.
+ * Detects apt, dnf, yum, apk, pacman or zypper from /etc/os-release and
+ * installs the nftables package non-interactively, elevated with the
+ * privilege strategy (see ensureInstalled). Does nothing if nft is already
+ * installed.
  *
+ * @param options - Timeout and AbortSignal for each command
  * @returns A Promise resolving to a Result indicating success or failure
  *
  * @example
@@ -91,17 +174,21 @@ export const isNftInstalled = (): Promise<Result<boolean>> =>
  * }
  * ```
  */
-export const installNft = (): Promise<Result<void>> =>
-  runCommandAndProcessOutput<void>(undefined, "sudo", {
-    args: ["apt-get", "install", "nftables", "-y"],
-    env: { DEBIAN_FRONTEND: "noninteractive" },
-  });
+export const installNft = (
+  options: CancellationOptions = {},
+): Promise<Result<void>> =>
+  rpipeAsync(
+    () => ensureInstalled("nft", options),
+    () => createSuccess(undefined),
+  );
 
 /**
  * Checks if nftables is installed and installs it if missing.
  *
- * Convenience function that combines isNftInstalled and installNft.
+ * Convenience function that combines isNftInstalled and installNft. Both run
+ * under one mutation lock (see withMutationLock).
  *
+ * @param options - Timeout and AbortSignal for each command
  * @returns A Promise resolving to a Result containing an object with performedInstall
  *          boolean indicating whether installation was performed
  *
@@ -113,19 +200,23 @@ export const installNft = (): Promise<Result<void>> =>
  * }
  * ```
  */
-export const installIfNftMissing = (): Promise<
+export const installIfNftMissing = (
+  options: CancellationOptions = {},
+): Promise<
   Result<{ performedInstall: boolean }>
 > =>
-  rpipeAsync(
-    isNftInstalled,
-    (result) =>
-      !result
-        ? installNft().then((result) => {
-          return isSuccess(result)
-            ? createSuccess({ performedInstall: true })
-            : result;
-        })
-        : createSuccess({ performedInstall: false }),
+  withMutationLock(() =>
+    rpipeAsync(
+      () => isNftInstalled(options),
+      (result) =>
+        !result
+          ? installNft(options).then((result) => {
+            return isSuccess(result)
+              ? createSuccess({ performedInstall: true })
+              : result;
+          })
+          : createSuccess({ performedInstall: false }),
+    )
   );
 
 /**
@@ -133,7 +224,9 @@ export const installIfNftMissing = (): Promise<
  *
  * @param family - Address family (e.g., "ip", "ip6", "inet")
  * @param table - Table name to create
- * @returns A Promise resolving to a Result indicating success or failure
+ * @param options - Timeout and AbortSignal for the command
+ * @returns A Promise resolving to a Result indicating success or failure;
+ *          invalid names fail with kind "invalid-argument"
  *
  * @example
  * ```ts
@@ -146,10 +239,18 @@ export const installIfNftMissing = (): Promise<
 export const createNfTable = (
   family: string,
   table: string,
+  options: CancellationOptions = {},
 ): Promise<Result<void>> =>
-  runCommandAndProcessOutput<void>(undefined, "sudo", {
-    args: ["nft", "-j", "add", "table", family, table],
-  });
+  whenValid(objectChecks(family, table), () =>
+    runCommandAndProcessOutput<void>(
+      undefined,
+      ...privileged("nft", {
+        args: ["-j", "add", "table", family, table],
+        mutates: true,
+        classifyError: classifyNftError,
+        ...options,
+      }),
+    ));
 
 /**
  * Creates a new chain in an nftables table.
@@ -160,7 +261,10 @@ export const createNfTable = (
  * @param type - Chain type (e.g., "filter", "nat", "route")
  * @param hook - Netfilter hook point (e.g., "prerouting", "input", "forward", "output", "postrouting")
  * @param priority - Chain priority (lower values are processed first)
- * @returns A Promise resolving to a Result indicating success or failure
+ * @param options - Timeout and AbortSignal for the command
+ * @returns A Promise resolving to a Result indicating success or failure;
+ *          invalid names, types, hooks or priorities fail with kind
+ *          "invalid-argument"
  *
  * @example
  * ```ts
@@ -176,25 +280,38 @@ export const createNfTableChain = (
   type: string,
   hook: string,
   priority: number,
+  options: CancellationOptions = {},
 ): Promise<Result<void>> =>
-  runCommandAndProcessOutput<void>(undefined, "sudo", {
-    args: [
-      "nft",
-      "-j",
-      "add",
-      "chain",
-      family,
-      table,
-      chain.toUpperCase(),
-      `{ type ${type} hook ${hook} priority ${priority}; policy accept; }`,
-    ],
-  });
+  whenValid([
+    ...objectChecks(family, table, chain),
+    nftChainType(type),
+    nftHook(hook),
+    nftInteger(priority, "priority"),
+  ], () =>
+    runCommandAndProcessOutput<void>(
+      undefined,
+      ...privileged("nft", {
+        args: [
+          "-j",
+          "add",
+          "chain",
+          family,
+          table,
+          chain.toUpperCase(),
+          `{ type ${type} hook ${hook} priority ${priority}; policy accept; }`,
+        ],
+        mutates: true,
+        classifyError: classifyNftError,
+        ...options,
+      }),
+    ));
 
 /**
  * Creates a standard NAT table with all standard chains.
  *
  * Creates the "nat" table with PREROUTING, INPUT, OUTPUT, and POSTROUTING chains.
  *
+ * @param options - Timeout and AbortSignal for each command
  * @returns A Promise resolving to a Result indicating success or failure
  *
  * @example
@@ -205,15 +322,45 @@ export const createNfTableChain = (
  * }
  * ```
  */
-export const createNatNfTable = (): Promise<Result<void>> =>
-  rpipeAsync(
-    () => createNfTable("ip", "nat"),
-    () =>
-      createNfTableChain("ip", "nat", "PREROUTING", "nat", "prerouting", -100),
-    () => createNfTableChain("ip", "nat", "INPUT", "nat", "input", 100),
-    () => createNfTableChain("ip", "nat", "OUTPUT", "nat", "output", -100),
-    () =>
-      createNfTableChain("ip", "nat", "POSTROUTING", "nat", "postrouting", 100),
+export const createNatNfTable = (
+  options: CancellationOptions = {},
+): Promise<Result<void>> =>
+  withMutationLock(() =>
+    rpipeAsync(
+      () => createNfTable("ip", "nat", options),
+      () =>
+        createNfTableChain(
+          "ip",
+          "nat",
+          "PREROUTING",
+          "nat",
+          "prerouting",
+          -100,
+          options,
+        ),
+      () =>
+        createNfTableChain("ip", "nat", "INPUT", "nat", "input", 100, options),
+      () =>
+        createNfTableChain(
+          "ip",
+          "nat",
+          "OUTPUT",
+          "nat",
+          "output",
+          -100,
+          options,
+        ),
+      () =>
+        createNfTableChain(
+          "ip",
+          "nat",
+          "POSTROUTING",
+          "nat",
+          "postrouting",
+          100,
+          options,
+        ),
+    )
   );
 
 /**
@@ -221,6 +368,7 @@ export const createNatNfTable = (): Promise<Result<void>> =>
  *
  * Creates the "filter" table with INPUT, FORWARD, and OUTPUT chains.
  *
+ * @param options - Timeout and AbortSignal for each command
  * @returns A Promise resolving to a Result indicating success or failure
  *
  * @example
@@ -231,22 +379,62 @@ export const createNatNfTable = (): Promise<Result<void>> =>
  * }
  * ```
  */
-export const createFilterNfTable = (): Promise<Result<void>> =>
-  rpipeAsync(
-    () => createNfTable("ip", "filter"),
-    () => createNfTableChain("ip", "filter", "INPUT", "filter", "input", 0),
-    () => createNfTableChain("ip", "filter", "FORWARD", "filter", "forward", 0),
-    () => createNfTableChain("ip", "filter", "OUTPUT", "filter", "output", 0),
+export const createFilterNfTable = (
+  options: CancellationOptions = {},
+): Promise<Result<void>> =>
+  withMutationLock(() =>
+    rpipeAsync(
+      () => createNfTable("ip", "filter", options),
+      () =>
+        createNfTableChain(
+          "ip",
+          "filter",
+          "INPUT",
+          "filter",
+          "input",
+          0,
+          options,
+        ),
+      () =>
+        createNfTableChain(
+          "ip",
+          "filter",
+          "FORWARD",
+          "filter",
+          "forward",
+          0,
+          options,
+        ),
+      () =>
+        createNfTableChain(
+          "ip",
+          "filter",
+          "OUTPUT",
+          "filter",
+          "output",
+          0,
+          options,
+        ),
+    )
   );
 
 /**
  * Creates a new rule in an nftables chain.
  *
+ * The family, table and chain are validated, and the rule may not contain
+ * `;` or line breaks outside quoted strings, which would make nft run the
+ * rest as further commands.
+ * Otherwise the rule is passed to nft as written: check the values composed
+ * into it with the validators of values.ts, such as ipAddress, port and
+ * interfaceName.
+ *
  * @param family - Address family (e.g., "ip", "ip6", "inet")
  * @param table - Table name containing the chain
  * @param chain - Chain name to add the rule to
  * @param rule - Rule specification in nftables syntax
- * @returns A Promise resolving to a Result indicating success or failure
+ * @param options - Timeout and AbortSignal for the command
+ * @returns A Promise resolving to a Result indicating success or failure;
+ *          invalid names or rule text fail with kind "invalid-argument"
  *
  * @example
  * ```ts
@@ -261,10 +449,21 @@ export const createRule = (
   table: string,
   chain: string,
   rule: string,
+  options: CancellationOptions = {},
 ): Promise<Result<void>> =>
-  runCommandAndProcessOutput<void>(undefined, "sudo", {
-    args: ["nft", "-j", "add", "rule", family, table, chain, rule],
-  });
+  whenValid(
+    [...objectChecks(family, table, chain), nftRuleText(rule)],
+    () =>
+      runCommandAndProcessOutput<void>(
+        undefined,
+        ...privileged("nft", {
+          args: ["-j", "add", "rule", family, table, chain, rule],
+          mutates: true,
+          classifyError: classifyNftError,
+          ...options,
+        }),
+      ),
+  );
 
 /**
  * Retrieves a specific rule by its handle.
@@ -273,6 +472,7 @@ export const createRule = (
  * @param table - Table name containing the chain
  * @param chain - Chain name containing the rule
  * @param handle - Unique handle identifier for the rule
+ * @param options - Timeout and AbortSignal for the command
  * @returns A Promise resolving to a Result containing the NftRule if found
  *
  * @example
@@ -288,13 +488,14 @@ export const getRuleByHandle = (
   table: string,
   chain: string,
   handle: number,
+  options: CancellationOptions = {},
 ): Promise<Result<NftRule>> =>
   rpipeAsync(
-    () => getRulesFromChain(family, table, chain),
+    () => getRulesFromChain(family, table, chain, options),
     (result) => {
       const rule = result.find((entry) => entry.handle === handle);
       if (!rule) {
-        return createFail("Rule not found");
+        return createKindFail("not-found", "Rule not found");
       }
       return createSuccess(rule);
     },
@@ -309,6 +510,7 @@ export const getRuleByHandle = (
  * @param table - Table name containing the chain
  * @param chain - Chain name to search
  * @param ruleEntry - Rule specification to match against
+ * @param options - Timeout and AbortSignal for the command
  * @returns A Promise resolving to a Result containing the matching NftRule if found
  *
  * @example
@@ -322,9 +524,10 @@ export const getRuleFromChain = (
   table: string,
   chain: string,
   ruleEntry: NftRule,
+  options: CancellationOptions = {},
 ): Promise<Result<NftRule>> =>
   rpipeAsync(
-    () => getRulesFromChain(family, table, chain),
+    () => getRulesFromChain(family, table, chain, options),
     (result) => {
       const rule = result.find((entry) => {
         return areRulesEqual(entry, ruleEntry);
@@ -332,7 +535,7 @@ export const getRuleFromChain = (
       if (rule) {
         return createSuccess(rule);
       }
-      return createFail("Rule not found");
+      return createKindFail("not-found", "Rule not found");
     },
   );
 
@@ -343,6 +546,7 @@ export const getRuleFromChain = (
  * @param table - Table name containing the chain
  * @param chain - Chain name containing the rule
  * @param handle - Unique handle identifier for the rule to delete
+ * @param options - Timeout and AbortSignal for the command
  * @returns A Promise resolving to a Result indicating success or failure
  *
  * @example
@@ -358,30 +562,43 @@ export const deleteRuleByHandle = (
   table: string,
   chain: string,
   handle: number,
+  options: CancellationOptions = {},
 ): Promise<Result<void>> =>
-  runCommandAndProcessOutput<void>(undefined, "sudo", {
-    args: [
-      "nft",
-      "-j",
-      "delete",
-      "rule",
-      family,
-      table,
-      chain,
-      "handle",
-      String(handle),
-    ],
-  });
+  whenValid([
+    ...objectChecks(family, table, chain),
+    nftInteger(handle, "handle"),
+  ], () =>
+    runCommandAndProcessOutput<void>(
+      undefined,
+      ...privileged("nft", {
+        args: [
+          "-j",
+          "delete",
+          "rule",
+          family,
+          table,
+          chain,
+          "handle",
+          String(handle),
+        ],
+        mutates: true,
+        classifyError: classifyNftError,
+        ...options,
+      }),
+    ));
 
 /**
  * Deletes a rule from a chain by matching its specification.
  *
- * Finds the rule using getRuleFromChain and deletes it by handle.
+ * Finds the rule using getRuleFromChain and deletes it by handle. The lookup
+ * and the deletion hold the mutation lock together, so no other mutation can
+ * change the chain in between.
  *
  * @param family - Address family (e.g., "ip", "ip6", "inet")
  * @param table - Table name containing the chain
  * @param chain - Chain name containing the rule
  * @param rule - Rule specification to match and delete
+ * @param options - Timeout and AbortSignal for each command
  * @returns A Promise resolving to a Result indicating success or failure
  *
  * @example
@@ -395,21 +612,27 @@ export const deleteRuleFromChain = (
   table: string,
   chain: string,
   rule: NftRule,
+  options: CancellationOptions = {},
 ): Promise<Result<void>> =>
-  rpipeAsync(
-    () => getRuleFromChain(family, table, chain, rule),
-    (result) => deleteRuleByHandle(family, table, chain, result.handle),
+  withMutationLock(() =>
+    rpipeAsync(
+      () => getRuleFromChain(family, table, chain, rule, options),
+      (result) =>
+        deleteRuleByHandle(family, table, chain, result.handle, options),
+    )
   );
 
 /**
  * Deletes all rules from a chain that match the given specification.
  *
- * Finds all matching rules and deletes them in parallel.
+ * Finds all matching rules and deletes them in parallel, holding the mutation
+ * lock from the lookup until the last deletion.
  *
  * @param family - Address family (e.g., "ip", "ip6", "inet")
  * @param table - Table name containing the chain
  * @param chain - Chain name containing the rules
  * @param rule - Rule specification to match and delete
+ * @param options - Timeout and AbortSignal for each command
  * @returns A Promise resolving to a Result indicating success or failure
  *
  * @example
@@ -423,47 +646,54 @@ export const deleteAllMatchingRulesFromChain = (
   table: string,
   chain: string,
   rule: NftRule,
+  options: CancellationOptions = {},
 ): Promise<Result<void>> =>
-  rpipeAsync(
-    () => getRulesFromChain(family, table, chain),
-    async (result) => {
-      const matchingRules = result.filter((entry) =>
-        areRulesEqual(entry, rule)
-      );
+  withMutationLock(() =>
+    rpipeAsync(
+      () => getRulesFromChain(family, table, chain, options),
+      async (result) => {
+        const matchingRules = result.filter((entry) =>
+          areRulesEqual(entry, rule)
+        );
 
-      if (matchingRules.length === 0) {
-        return createFail("No matching rules found");
-      }
+        if (matchingRules.length === 0) {
+          return createKindFail("not-found", "No matching rules found");
+        }
 
-      // Delete all matching rules in parallel (safe since handles don't change)
-      const deleteResults = await Promise.all(
-        matchingRules.map((entry) =>
-          deleteRuleByHandle(family, table, chain, entry.handle)
-        ),
-      );
+        // Delete all matching rules in parallel (safe since handles don't change)
+        const deleteResults = await Promise.all(
+          matchingRules.map((entry) =>
+            deleteRuleByHandle(family, table, chain, entry.handle, options)
+          ),
+        );
 
-      // Check if any deletion failed
-      const failed = deleteResults.find((r) => !isSuccess(r));
-      if (failed) {
-        return failed;
-      }
+        // Check if any deletion failed
+        const failed = deleteResults.find((r) => !isSuccess(r));
+        if (failed) {
+          return failed;
+        }
 
-      return createSuccess(void 0);
-    },
+        return createSuccess(void 0);
+      },
+    )
   );
 
 /**
  * Creates a Destination NAT (DNAT) rule.
  *
- * Redirects packets destined for sourceAddr to destAddr.
+ * Redirects packets destined for sourceAddr to destAddr. The rule matches
+ * IPv4 headers, so both addresses must be IPv4.
  *
- * @param sourceAddr - Source IP address to match
- * @param destAddr - Destination IP address to NAT to
+ * @param sourceAddr - IPv4 address or CIDR network to match
+ * @param destAddr - Destination IPv4 address to NAT to
  * @param family - Address family (default: "ip")
  * @param table - Table name (default: "nat")
  * @param chain - Chain name (default: "PREROUTING")
- * @param comment - Optional comment for the rule
- * @returns A Promise resolving to a Result indicating success or failure
+ * @param comment - Optional comment stored with the rule
+ * @param options - Timeout and AbortSignal for the command
+ * @returns A Promise resolving to a Result indicating success or failure;
+ *          invalid addresses, names or comments fail with kind
+ *          "invalid-argument"
  *
  * @example
  * ```ts
@@ -477,15 +707,26 @@ export const createDnatRule = (
   table = "nat",
   chain = "PREROUTING",
   comment?: string,
-): Promise<Result<void>> =>
-  createRule(
-    family,
-    table,
-    chain,
-    `ip daddr ${sourceAddr} counter dnat to ${destAddr}${
-      comment ? ` # ${comment}` : ""
-    }`,
-  );
+  options: CancellationOptions = {},
+): Promise<Result<void>> => {
+  const quotedComment = comment ? nftComment(comment) : undefined;
+  return whenValid([
+    cidr4(sourceAddr),
+    ipv4Address(destAddr),
+    ...(quotedComment ? [quotedComment] : []),
+  ], () =>
+    createRule(
+      family,
+      table,
+      chain,
+      `ip daddr ${sourceAddr} counter dnat to ${destAddr}${
+        quotedComment && isSuccess(quotedComment)
+          ? ` comment ${quotedComment.output}`
+          : ""
+      }`,
+      options,
+    ));
+};
 
 /**
  * Finds a DNAT rule in a chain by source and destination addresses.
@@ -495,6 +736,7 @@ export const createDnatRule = (
  * @param chain - Chain name to search
  * @param sourceAddr - Source IP address to match
  * @param destAddr - Destination IP address to match
+ * @param options - Timeout and AbortSignal for the command
  * @returns A Promise resolving to a Result containing the NftRule if found, undefined otherwise
  *
  * @example
@@ -508,9 +750,10 @@ export const getDNatRuleFromChain = (
   chain: string,
   sourceAddr: string,
   destAddr: string,
+  options: CancellationOptions = {},
 ): Promise<Result<NftRule | undefined>> =>
   rpipeAsync(
-    () => getRulesFromChain(family, table, chain),
+    () => getRulesFromChain(family, table, chain, options),
     (result) =>
       createSuccess(result.find((entry) => {
         let hasMatchingSource = false;
@@ -545,15 +788,19 @@ export const getDNatRuleFromChain = (
 /**
  * Creates a Source NAT (SNAT) rule.
  *
- * Changes the source address of packets from sourceAddr to destAddr.
+ * Changes the source address of packets from sourceAddr to destAddr. The rule
+ * matches IPv4 headers, so both addresses must be IPv4.
  *
- * @param sourceAddr - Source IP address to match
- * @param destAddr - New source IP address to NAT to
+ * @param sourceAddr - Source IPv4 address or CIDR network to match
+ * @param destAddr - New source IPv4 address to NAT to
  * @param family - Address family (default: "ip")
  * @param table - Table name (default: "nat")
  * @param chain - Chain name (default: "POSTROUTING")
- * @param comment - Optional comment for the rule
- * @returns A Promise resolving to a Result indicating success or failure
+ * @param comment - Optional comment stored with the rule
+ * @param options - Timeout and AbortSignal for the command
+ * @returns A Promise resolving to a Result indicating success or failure;
+ *          invalid addresses, names or comments fail with kind
+ *          "invalid-argument"
  *
  * @example
  * ```ts
@@ -567,15 +814,26 @@ export const createSnatRule = (
   table = "nat",
   chain = "POSTROUTING",
   comment?: string,
-): Promise<Result<void>> =>
-  createRule(
-    family,
-    table,
-    chain,
-    `ip saddr ${sourceAddr} counter snat to ${destAddr}${
-      comment ? ` # ${comment}` : ""
-    }`,
-  );
+  options: CancellationOptions = {},
+): Promise<Result<void>> => {
+  const quotedComment = comment ? nftComment(comment) : undefined;
+  return whenValid([
+    cidr4(sourceAddr),
+    ipv4Address(destAddr),
+    ...(quotedComment ? [quotedComment] : []),
+  ], () =>
+    createRule(
+      family,
+      table,
+      chain,
+      `ip saddr ${sourceAddr} counter snat to ${destAddr}${
+        quotedComment && isSuccess(quotedComment)
+          ? ` comment ${quotedComment.output}`
+          : ""
+      }`,
+      options,
+    ));
+};
 
 /**
  * Creates a double NAT rule (DNAT + SNAT).
@@ -586,6 +844,7 @@ export const createSnatRule = (
  * @param publicAddr - Public IP address to match
  * @param privateAddr - Private IP address to NAT to
  * @param natAddr - NAT source address
+ * @param options - Timeout and AbortSignal for each command
  * @returns A Promise resolving to a Result indicating success or failure
  *
  * @example
@@ -597,10 +856,31 @@ export const createDoubleNatRule = (
   publicAddr: string,
   privateAddr: string,
   natAddr: string,
+  options: CancellationOptions = {},
 ): Promise<Result<void>> =>
-  rpipeAsync(
-    () => createDnatRule(publicAddr, privateAddr),
-    () => createSnatRule(privateAddr, natAddr),
+  withMutationLock(() =>
+    rpipeAsync(
+      () =>
+        createDnatRule(
+          publicAddr,
+          privateAddr,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          options,
+        ),
+      () =>
+        createSnatRule(
+          privateAddr,
+          natAddr,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          options,
+        ),
+    )
   );
 
 /**
@@ -608,6 +888,7 @@ export const createDoubleNatRule = (
  *
  * Creates the "mangle" table with PREROUTING, INPUT, FORWARD, OUTPUT, and POSTROUTING chains.
  *
+ * @param options - Timeout and AbortSignal for each command
  * @returns A Promise resolving to a Result indicating success or failure
  *
  * @example
@@ -618,32 +899,63 @@ export const createDoubleNatRule = (
  * }
  * ```
  */
-export const createMangleNfTable = (): Promise<Result<void>> =>
-  rpipeAsync(
-    () => createNfTable("ip", "mangle"),
-    () =>
-      createNfTableChain(
-        "ip",
-        "mangle",
-        "PREROUTING",
-        "filter",
-        "prerouting",
-        -150,
-      ),
-    () => createNfTableChain("ip", "mangle", "INPUT", "filter", "input", -150),
-    () =>
-      createNfTableChain("ip", "mangle", "FORWARD", "filter", "forward", -150),
-    () =>
-      createNfTableChain("ip", "mangle", "OUTPUT", "filter", "output", -150),
-    () =>
-      createNfTableChain(
-        "ip",
-        "mangle",
-        "POSTROUTING",
-        "filter",
-        "postrouting",
-        -150,
-      ),
+export const createMangleNfTable = (
+  options: CancellationOptions = {},
+): Promise<Result<void>> =>
+  withMutationLock(() =>
+    rpipeAsync(
+      () => createNfTable("ip", "mangle", options),
+      () =>
+        createNfTableChain(
+          "ip",
+          "mangle",
+          "PREROUTING",
+          "filter",
+          "prerouting",
+          -150,
+          options,
+        ),
+      () =>
+        createNfTableChain(
+          "ip",
+          "mangle",
+          "INPUT",
+          "filter",
+          "input",
+          -150,
+          options,
+        ),
+      () =>
+        createNfTableChain(
+          "ip",
+          "mangle",
+          "FORWARD",
+          "filter",
+          "forward",
+          -150,
+          options,
+        ),
+      () =>
+        createNfTableChain(
+          "ip",
+          "mangle",
+          "OUTPUT",
+          "filter",
+          "output",
+          -150,
+          options,
+        ),
+      () =>
+        createNfTableChain(
+          "ip",
+          "mangle",
+          "POSTROUTING",
+          "filter",
+          "postrouting",
+          -150,
+          options,
+        ),
+    )
   );
 
 /**
@@ -651,6 +963,7 @@ export const createMangleNfTable = (): Promise<Result<void>> =>
  *
  * Creates nat, filter, and mangle tables with all their standard chains.
  *
+ * @param options - Timeout and AbortSignal for each command
  * @returns A Promise resolving to a Result indicating success or failure
  *
  * @example
@@ -661,16 +974,23 @@ export const createMangleNfTable = (): Promise<Result<void>> =>
  * }
  * ```
  */
-export const initializeStandardTables = (): Promise<Result<void>> =>
-  rpipeAsync(
-    () => createNatNfTable(),
-    () => createFilterNfTable(),
-    () => createMangleNfTable(),
+export const initializeStandardTables = (
+  options: CancellationOptions = {},
+): Promise<Result<void>> =>
+  withMutationLock(() =>
+    rpipeAsync(
+      () => createNatNfTable(options),
+      () => createFilterNfTable(options),
+      () => createMangleNfTable(options),
+    )
   );
 
 /**
  * Retrieves all nftables tables.
  *
+ * Fails with kind "unsupported" if the installed nft cannot print JSON.
+ *
+ * @param options - Timeout and AbortSignal for the command
  * @returns A Promise resolving to a Result containing the NftablesList
  *
  * @example
@@ -681,11 +1001,20 @@ export const initializeStandardTables = (): Promise<Result<void>> =>
  * }
  * ```
  */
-export const getTables = (): Promise<Result<NftablesList>> =>
-  runCommandAndProcessOutput<NftablesList>(
-    (output) => JSON.parse(output) as NftablesList,
-    "sudo",
-    { args: ["nft", "-j", "list", "tables"] },
+export const getTables = (
+  options: CancellationOptions = {},
+): Promise<Result<NftablesList>> =>
+  rpipeAsync(
+    () => requireTool("nft", "json", options),
+    () =>
+      runCommandAndProcessOutput<NftablesList>(
+        (output) => JSON.parse(output) as NftablesList,
+        ...privileged("nft", {
+          args: ["-j", "list", "tables"],
+          classifyError: classifyNftError,
+          ...options,
+        }),
+      ),
   );
 
 /**
@@ -693,6 +1022,7 @@ export const getTables = (): Promise<Result<NftablesList>> =>
  *
  * @param family - Address family (e.g., "ip", "ip6", "inet")
  * @param tableName - Name of the table to retrieve
+ * @param options - Timeout and AbortSignal for the command
  * @returns A Promise resolving to a Result containing the NftablesList
  *
  * @example
@@ -706,16 +1036,28 @@ export const getTables = (): Promise<Result<NftablesList>> =>
 export const getTable = (
   family: string,
   tableName: string,
+  options: CancellationOptions = {},
 ): Promise<Result<NftablesList>> =>
-  runCommandAndProcessOutput<NftablesList>(
-    (output) => JSON.parse(output) as NftablesList,
-    "sudo",
-    { args: ["nft", "-j", "list", "table", family, tableName] },
+  rpipeAsync(
+    () =>
+      whenValid(objectChecks(family, tableName), () =>
+        requireTool("nft", "json", options)),
+    () =>
+      runCommandAndProcessOutput<NftablesList>(
+        (output) =>
+          JSON.parse(output) as NftablesList,
+        ...privileged("nft", {
+          args: ["-j", "list", "table", family, tableName],
+          classifyError: classifyNftError,
+          ...options,
+        }),
+      ),
   );
 
 /**
  * Retrieves all rules from all nftables tables.
  *
+ * @param options - Timeout and AbortSignal for the command
  * @returns A Promise resolving to a Result containing an array of NftRule objects
  *
  * @example
@@ -726,9 +1068,11 @@ export const getTable = (
  * }
  * ```
  */
-export const getRules = (): Promise<Result<NftRule[]>> =>
+export const getRules = (
+  options: CancellationOptions = {},
+): Promise<Result<NftRule[]>> =>
   rpipeAsync(
-    () => getTables(),
+    () => getTables(options),
     (result) =>
       createSuccess(result.nftables.filter((entry) => isNftRule(entry))),
   );
@@ -738,6 +1082,7 @@ export const getRules = (): Promise<Result<NftRule[]>> =>
  *
  * @param family - Address family (e.g., "ip", "ip6", "inet")
  * @param tableName - Name of the table
+ * @param options - Timeout and AbortSignal for the command
  * @returns A Promise resolving to a Result containing an array of NftRule objects
  *
  * @example
@@ -751,9 +1096,10 @@ export const getRules = (): Promise<Result<NftRule[]>> =>
 export const getRulesFromTable = (
   family: string,
   tableName: string,
+  options: CancellationOptions = {},
 ): Promise<Result<NftRule[]>> =>
   rpipeAsync(
-    () => getTable(family, tableName),
+    () => getTable(family, tableName, options),
     (result) =>
       createSuccess(
         result.nftables.filter((entry) => isNftableEntryRule(entry)).map((
@@ -768,6 +1114,7 @@ export const getRulesFromTable = (
  * @param family - Address family (e.g., "ip", "ip6", "inet")
  * @param tableName - Name of the table containing the chain
  * @param chainName - Name of the chain to retrieve
+ * @param options - Timeout and AbortSignal for the command
  * @returns A Promise resolving to a Result containing the NftablesList
  *
  * @example
@@ -782,11 +1129,23 @@ export const getChain = (
   family: string,
   tableName: string,
   chainName: string,
+  options: CancellationOptions = {},
 ): Promise<Result<NftablesList>> =>
-  runCommandAndProcessOutput<NftablesList>(
-    (output) => JSON.parse(output) as NftablesList,
-    "sudo",
-    { args: ["nft", "-j", "list", "chain", family, tableName, chainName] },
+  rpipeAsync(
+    () =>
+      whenValid(
+        objectChecks(family, tableName, chainName),
+        () => requireTool("nft", "json", options),
+      ),
+    () =>
+      runCommandAndProcessOutput<NftablesList>(
+        (output) => JSON.parse(output) as NftablesList,
+        ...privileged("nft", {
+          args: ["-j", "list", "chain", family, tableName, chainName],
+          classifyError: classifyNftError,
+          ...options,
+        }),
+      ),
   );
 
 /**
@@ -795,6 +1154,7 @@ export const getChain = (
  * @param family - Address family (e.g., "ip", "ip6", "inet")
  * @param tableName - Name of the table containing the chain
  * @param chainName - Name of the chain
+ * @param options - Timeout and AbortSignal for the command
  * @returns A Promise resolving to a Result containing an array of NftRule objects
  *
  * @example
@@ -809,9 +1169,10 @@ export const getRulesFromChain = (
   family: string,
   tableName: string,
   chainName: string,
+  options: CancellationOptions = {},
 ): Promise<Result<NftRule[]>> =>
   rpipeAsync(
-    () => getChain(family, tableName, chainName),
+    () => getChain(family, tableName, chainName, options),
     (result) => {
       return createSuccess(
         result.nftables.filter((entry) =>
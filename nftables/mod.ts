@@ -32,3 +32,4 @@
 
 export * from "./types.ts";
 export * from "./command.ts";
+export * from "./values.ts";
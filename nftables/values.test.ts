@@ -0,0 +1,101 @@
+import { describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import { isSuccess } from "@joyautomation/dark-matter";
+import { getErrorKind } from "../command.ts";
+import {
+  cidr,
+  cidr4,
+  interfaceName,
+  ipAddress,
+  ipv4Address,
+  ipv6Address,
+  nftChainType,
+  nftComment,
+  nftFamily,
+  nftHook,
+  nftIdentifier,
+  nftInteger,
+  nftRuleText,
+  port,
+} from "./values.ts";
+
+describe("nft values", () => {
+  it("should accept IPv4 and IPv6 addresses", () => {
+    expect(isSuccess(ipv4Address("192.168.1.10"))).toBe(true);
+    expect(isSuccess(ipv4Address("256.1.1.1"))).toBe(false);
+    expect(isSuccess(ipv4Address("01.1.1.1"))).toBe(false);
+    expect(isSuccess(ipv6Address("2001:db8::1"))).toBe(true);
+    expect(isSuccess(ipv6Address("::ffff:192.0.2.1"))).toBe(true);
+    expect(isSuccess(ipv6Address("2001:db8:::1"))).toBe(false);
+    expect(isSuccess(ipAddress("fe80::1"))).toBe(true);
+    expect(isSuccess(ipAddress("example.com"))).toBe(false);
+  });
+  it("should reject addresses carrying extra statements", () => {
+    const result = ipAddress("10.0.0.5 counter accept");
+    expect(getErrorKind(result)).toBe("invalid-argument");
+    expect(!isSuccess(result) && result.error).toBe(
+      'Invalid IP address: "10.0.0.5 counter accept"',
+    );
+  });
+  it("should check CIDR prefixes against the address family", () => {
+    expect(isSuccess(cidr("10.0.0.0/8"))).toBe(true);
+    expect(isSuccess(cidr("10.0.0.1"))).toBe(true);
+    expect(isSuccess(cidr("2001:db8::/64"))).toBe(true);
+    expect(isSuccess(cidr("10.0.0.0/33"))).toBe(false);
+    expect(isSuccess(cidr("10.0.0.0/8/8"))).toBe(false);
+    expect(isSuccess(cidr("10.0.0.0/"))).toBe(false);
+  });
+  it("should accept only IPv4 networks as IPv4 CIDR", () => {
+    expect(isSuccess(cidr4("10.0.0.0/8"))).toBe(true);
+    expect(isSuccess(cidr4("10.0.0.1"))).toBe(true);
+    expect(isSuccess(cidr4("10.0.0.0/33"))).toBe(false);
+    expect(isSuccess(cidr4("2001:db8::/64"))).toBe(false);
+  });
+  it("should accept ports between 1 and 65535", () => {
+    expect(isSuccess(port(443))).toBe(true);
+    expect(isSuccess(port(0))).toBe(false);
+    expect(isSuccess(port(65536))).toBe(false);
+    expect(isSuccess(port(80.5))).toBe(false);
+  });
+  it("should accept interface names the kernel allows", () => {
+    expect(isSuccess(interfaceName("eth0.100"))).toBe(true);
+    expect(isSuccess(interfaceName("a-very-long-name0"))).toBe(false);
+    expect(isSuccess(interfaceName("eth0 "))).toBe(false);
+    expect(isSuccess(interfaceName(".."))).toBe(false);
+  });
+  it("should accept nft identifiers and keywords", () => {
+    expect(isSuccess(nftIdentifier("PREROUTING"))).toBe(true);
+    expect(isSuccess(nftIdentifier("my_table-2"))).toBe(true);
+    expect(isSuccess(nftIdentifier("1table"))).toBe(false);
+    expect(isSuccess(nftIdentifier("nat; flush ruleset"))).toBe(false);
+    expect(isSuccess(nftFamily("inet"))).toBe(true);
+    expect(isSuccess(nftFamily("ipv4"))).toBe(false);
+    expect(isSuccess(nftChainType("nat"))).toBe(true);
+    expect(isSuccess(nftHook("postrouting"))).toBe(true);
+    expect(isSuccess(nftHook("input; }"))).toBe(false);
+    expect(isSuccess(nftInteger(-100, "priority"))).toBe(true);
+    expect(isSuccess(nftInteger(NaN, "priority"))).toBe(false);
+  });
+  it("should quote comments and reject ones that would end the quote", () => {
+    const quoted = nftComment("Web server");
+    expect(isSuccess(quoted) && quoted.output).toBe('"Web server"');
+    expect(isSuccess(nftComment('x"; flush ruleset'))).toBe(false);
+    expect(isSuccess(nftComment("line\nbreak"))).toBe(false);
+    expect(isSuccess(nftComment("bell\x07"))).toBe(false);
+    expect(isSuccess(nftComment("delete\x7f"))).toBe(false);
+    expect(isSuccess(nftComment("back\\slash"))).toBe(false);
+    expect(isSuccess(nftComment("x".repeat(129)))).toBe(false);
+  });
+  it("should accept one rule and reject text that starts another command", () => {
+    expect(isSuccess(nftRuleText("tcp dport { 22, 443 } accept"))).toBe(true);
+    expect(getErrorKind(nftRuleText("accept; flush ruleset"))).toBe(
+      "invalid-argument",
+    );
+    expect(isSuccess(nftRuleText("accept\nflush ruleset"))).toBe(false);
+    expect(isSuccess(nftRuleText("accept\rflush ruleset"))).toBe(false);
+    expect(isSuccess(nftRuleText('accept comment "web; ssh"'))).toBe(true);
+    expect(isSuccess(nftRuleText('accept comment "x"; flush ruleset'))).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,261 @@
+import { createSuccess, isSuccess, Result } from "@joyautomation/dark-matter";
+import { createKindFail } from "../command.ts";
+
+// Validation of caller-supplied values before they become nft command text.
+// nft joins its arguments and parses them as one ruleset line, so a value
+// containing `;`, `{` or a newline could otherwise add statements of its own.
+// The functions of command.ts check the values they are given; the address,
+// port and interface validators are for callers composing the rule text of
+// createRule, which only rejects text that would start another command.
+
+const IPV4_OCTET = "(25[0-5]|2[0-4]\\d|1\\d\\d|[1-9]?\\d)";
+const IPV4_PATTERN = new RegExp(`^${IPV4_OCTET}(\\.${IPV4_OCTET}){3}$`);
+// As nft's scanner accepts identifiers, limited to NFT_NAME_MAXLEN
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_./-]{0,254}$/;
+// Linux limits interface names to IFNAMSIZ - 1 characters
+const INTERFACE_PATTERN = /^[A-Za-z0-9_.:-]{1,15}$/;
+// nft stores comments of up to 128 bytes as rule user data
+const COMMENT_MAX_BYTES = 128;
+
+const FAMILIES = ["ip", "ip6", "inet", "arp", "bridge", "netdev"];
+const CHAIN_TYPES = ["filter", "nat", "route"];
+const HOOKS = [
+  "prerouting",
+  "input",
+  "forward",
+  "output",
+  "postrouting",
+  "ingress",
+  "egress",
+];
+
+const invalid = (what: string, value: unknown): Result<never> =>
+  createKindFail(
+    "invalid-argument",
+    `Invalid ${what}: ${JSON.stringify(value)}`,
+  );
+
+const check = <T>(valid: boolean, what: string, value: T): Result<T> =>
+  valid ? createSuccess(value) : invalid(what, value);
+
+/**
+ * Validates an IPv4 address in dotted decimal notation.
+ *
+ * @param value - The address
+ * @returns A Result containing the address, or failing with kind
+ *          "invalid-argument"
+ *
+ * @example
+ * ```ts
+ * ipv4Address("192.168.1.10"); // success
+ * ipv4Address("192.168.1.10; flush ruleset"); // failure
+ * ```
+ */
+export const ipv4Address = (value: string): Result<string> =>
+  check(IPV4_PATTERN.test(value), "IPv4 address", value);
+
+/**
+ * Validates an IPv6 address.
+ *
+ * @param value - The address, e.g. "2001:db8::1"
+ * @returns A Result containing the address, or failing with kind
+ *          "invalid-argument"
+ */
+export const ipv6Address = (value: string): Result<string> => {
+  if (!/^[0-9A-Fa-f:.]+$/.test(value) || !value.includes(":")) {
+    return invalid("IPv6 address", value);
+  }
+  try {
+    // The URL parser implements the full IPv6 address grammar
+    new URL(`http://[${value}]`);
+    return createSuccess(value);
+  } catch {
+    return invalid("IPv6 address", value);
+  }
+};
+
+/**
+ * Validates an IPv4 or IPv6 address.
+ *
+ * @param value - The address
+ * @returns A Result containing the address, or failing with kind
+ *          "invalid-argument"
+ */
+export const ipAddress = (value: string): Result<string> =>
+  isSuccess(ipv4Address(value)) || isSuccess(ipv6Address(value))
+    ? createSuccess(value)
+    : invalid("IP address", value);
+
+/**
+ * Validates a network in CIDR notation, or a single address.
+ *
+ * @param value - The network, e.g. "10.0.0.0/8" or "2001:db8::/32"
+ * @returns A Result containing the network, or failing with kind
+ *          "invalid-argument"
+ */
+export const cidr = (value: string): Result<string> => {
+  const [address, prefix, ...rest] = value.split("/");
+  const bits = isSuccess(ipv4Address(address))
+    ? 32
+    : isSuccess(ipv6Address(address))
+    ? 128
+    : undefined;
+  const valid = bits !== undefined && rest.length === 0 &&
+    (prefix === undefined ||
+      (/^\d{1,3}$/.test(prefix) && Number(prefix) <= bits));
+  return check(valid, "CIDR network", value);
+};
+
+/**
+ * Validates an IPv4 network in CIDR notation, or a single IPv4 address.
+ *
+ * @param value - The network, e.g. "10.0.0.0/8"
+ * @returns A Result containing the network, or failing with kind
+ *          "invalid-argument"
+ *
+ * @example
+ * ```ts
+ * cidr4("10.0.0.0/8"); // success
+ * cidr4("2001:db8::/32"); // failure
+ * ```
+ */
+export const cidr4 = (value: string): Result<string> =>
+  check(
+    isSuccess(ipv4Address(value.split("/")[0])) && isSuccess(cidr(value)),
+    "IPv4 CIDR network",
+    value,
+  );
+
+/**
+ * Validates a TCP or UDP port number.
+ *
+ * @param value - The port
+ * @returns A Result containing the port, or failing with kind
+ *          "invalid-argument"
+ */
+export const port = (value: number): Result<number> =>
+  check(
+    Number.isInteger(value) && value >= 1 && value <= 65535,
+    "port",
+    value,
+  );
+
+/**
+ * Validates a network interface name.
+ *
+ * @param value - The interface name, e.g. "eth0"
+ * @returns A Result containing the name, or failing with kind
+ *          "invalid-argument"
+ */
+export const interfaceName = (value: string): Result<string> =>
+  check(
+    INTERFACE_PATTERN.test(value) && value !== "." && value !== "..",
+    "interface name",
+    value,
+  );
+
+/**
+ * Validates the name of an nftables table, chain, set or other object.
+ *
+ * @param value - The name
+ * @param what - What the name is of, for the error message (default:
+ *               "identifier")
+ * @returns A Result containing the name, or failing with kind
+ *          "invalid-argument"
+ *
+ * @example
+ * ```ts
+ * nftIdentifier("PREROUTING", "chain name"); // success
+ * nftIdentifier("nat; flush ruleset", "table name"); // failure
+ * ```
+ */
+export const nftIdentifier = (
+  value: string,
+  what = "identifier",
+): Result<string> => check(IDENTIFIER_PATTERN.test(value), what, value);
+
+/**
+ * Validates an nftables address family.
+ *
+ * @param value - The family: "ip", "ip6", "inet", "arp", "bridge" or
+ *                "netdev"
+ * @returns A Result containing the family, or failing with kind
+ *          "invalid-argument"
+ */
+export const nftFamily = (value: string): Result<string> =>
+  check(FAMILIES.includes(value), "address family", value);
+
+/**
+ * Validates an nftables base chain type.
+ *
+ * @param value - The type: "filter", "nat" or "route"
+ * @returns A Result containing the type, or failing with kind
+ *          "invalid-argument"
+ */
+export const nftChainType = (value: string): Result<string> =>
+  check(CHAIN_TYPES.includes(value), "chain type", value);
+
+/**
+ * Validates an nftables hook name.
+ *
+ * @param value - The hook, e.g. "prerouting"
+ * @returns A Result containing the hook, or failing with kind
+ *          "invalid-argument"
+ */
+export const nftHook = (value: string): Result<string> =>
+  check(HOOKS.includes(value), "hook", value);
+
+/**
+ * Validates an integer such as a chain priority or rule handle.
+ *
+ * @param value - The number
+ * @param what - What the number is, for the error message
+ * @returns A Result containing the number, or failing with kind
+ *          "invalid-argument"
+ */
+export const nftInteger = (value: number, what: string): Result<number> =>
+  check(Number.isSafeInteger(value), what, value);
+
+/**
+ * Validates a rule comment and quotes it for nft.
+ *
+ * Comments may not contain double quotes, backslashes or control characters
+ * and are limited to 128 bytes.
+ *
+ * @param value - The comment text
+ * @returns A Result containing the quoted comment, or failing with kind
+ *          "invalid-argument"
+ *
+ * @example
+ * ```ts
+ * nftComment("Forward HTTP"); // success: '"Forward HTTP"'
+ * ```
+ */
+export const nftComment = (value: string): Result<string> =>
+  !/["\\]/.test(value) &&
+    ![...value].some((char) =>
+      char.charCodeAt(0) < 0x20 || char.charCodeAt(0) === 0x7f
+    ) &&
+    new TextEncoder().encode(value).length <= COMMENT_MAX_BYTES
+    ? createSuccess(`"${value}"`)
+    : invalid("comment", value);
+
+/**
+ * Validates the text of a rule passed to nft as one command.
+ *
+ * Rule text may contain any nft expressions and statements, but not `;` or
+ * line breaks outside quoted strings, with which nft would run the rest as
+ * further commands.
+ *
+ * @param value - The rule in nftables syntax
+ * @returns A Result containing the rule, or failing with kind
+ *          "invalid-argument"
+ *
+ * @example
+ * ```ts
+ * nftRuleText("tcp dport { 22, 443 } accept"); // success
+ * nftRuleText("accept; flush ruleset"); // failure
+ * ```
+ */
+export const nftRuleText = (value: string): Result<string> =>
+  check(!/[;\r\n]/.test(value.replace(/"[^"\r\n]*"/g, "")), "rule", value);
@@ -0,0 +1,92 @@
+import { describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import { isSuccess } from "@joyautomation/dark-matter";
+import { readPcapFile } from "./reader.ts";
+import { decodePacket, formatIpv6Address } from "./decode.ts";
+import { LinkType } from "./types.ts";
+
+const readPackets = async () => {
+  const result = await readPcapFile(
+    new URL("./fixtures/capture.pcap", import.meta.url).pathname,
+  );
+  if (!isSuccess(result)) throw new Error("fixture did not parse");
+  return result.output.packets;
+};
+
+describe("decodePacket", () => {
+  it("should decode an Ethernet/IPv4/TCP packet", async () => {
+    const [syn] = await readPackets();
+    const decoded = decodePacket(syn.data);
+    expect(decoded.ethernet).toEqual({
+      destination: "00:1d:9c:c8:03:e7",
+      source: "52:54:00:12:34:56",
+      etherType: 0x0800,
+    });
+    expect(decoded.ipv4?.source).toBe("192.168.1.10");
+    expect(decoded.ipv4?.destination).toBe("192.168.1.20");
+    expect(decoded.ipv4?.ttl).toBe(64);
+    expect(decoded.tcp?.sourcePort).toBe(49152);
+    expect(decoded.tcp?.destinationPort).toBe(502);
+    expect(decoded.tcp?.flags.syn).toBe(true);
+    expect(decoded.tcp?.flags.ack).toBe(false);
+    expect(decoded.payload.length).toBe(0);
+  });
+
+  it("should decode an Ethernet/IPv6/UDP packet", async () => {
+    const [, mdns] = await readPackets();
+    const decoded = decodePacket(mdns.data, LinkType.ETHERNET);
+    expect(decoded.ipv6?.source).toBe("fe80::5054:ff:fe12:3456");
+    expect(decoded.ipv6?.destination).toBe("ff02::fb");
+    expect(decoded.udp).toEqual({
+      sourcePort: 5353,
+      destinationPort: 5353,
+      length: 39,
+      checksum: 0x4b8a,
+    });
+    expect(decoded.payload.length).toBe(31);
+  });
+
+  it("should stop at protocols it does not decode", async () => {
+    const [, , arp] = await readPackets();
+    const decoded = decodePacket(arp.data);
+    expect(decoded.ethernet?.etherType).toBe(0x0806);
+    expect(decoded.ipv4).toBeUndefined();
+    expect(decoded.payload.length).toBe(28);
+  });
+
+  it("should unwrap VLAN tags and Linux cooked headers", async () => {
+    const [syn] = await readPackets();
+    const tagged = new Uint8Array(syn.data.length + 4);
+    tagged.set(syn.data.subarray(0, 12));
+    tagged.set([0x81, 0x00, 0x00, 0x64], 12);
+    tagged.set(syn.data.subarray(12), 16);
+    const vlan = decodePacket(tagged);
+    expect(vlan.ethernet?.vlans).toEqual([100]);
+    expect(vlan.tcp?.destinationPort).toBe(502);
+
+    const cooked = new Uint8Array(16 + syn.data.length - 14);
+    cooked.set([0x08, 0x00], 14);
+    cooked.set(syn.data.subarray(14), 16);
+    expect(decodePacket(cooked, LinkType.LINUX_SLL).tcp?.destinationPort)
+      .toBe(502);
+    expect(decodePacket(syn.data.subarray(14), LinkType.RAW).ipv4?.source)
+      .toBe("192.168.1.10");
+  });
+
+  it("should not decode truncated headers", async () => {
+    const [syn] = await readPackets();
+    const decoded = decodePacket(syn.data.subarray(0, 40));
+    expect(decoded.ipv4).toBeDefined();
+    expect(decoded.tcp).toBeUndefined();
+  });
+});
+
+describe("formatIpv6Address", () => {
+  it("should compress the longest run of zero groups", () => {
+    const bytes = new Uint8Array(16);
+    bytes.set([0x20, 0x01, 0x0d, 0xb8], 0);
+    bytes.set([0x00, 0x01], 14);
+    expect(formatIpv6Address(bytes)).toBe("2001:db8::1");
+    expect(formatIpv6Address(new Uint8Array(16))).toBe("::");
+  });
+});
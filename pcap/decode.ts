@@ -0,0 +1,335 @@
+import {
+  DecodedPacket,
+  EthernetHeader,
+  Ipv4Header,
+  Ipv6Header,
+  LinkType,
+  TcpHeader,
+  UdpHeader,
+} from "./types.ts";
+
+const ETHERTYPE_IPV4 = 0x0800;
+const ETHERTYPE_IPV6 = 0x86dd;
+const ETHERTYPE_VLAN = [0x8100, 0x88a8, 0x9100];
+const IP_PROTOCOL_TCP = 6;
+const IP_PROTOCOL_UDP = 17;
+// IPv6 extension headers that share the next-header/length layout
+const IPV6_EXTENSION_HEADERS = [0, 43, 60];
+const IPV6_FRAGMENT_HEADER = 44;
+
+const viewOf = (bytes: Uint8Array): DataView =>
+  new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+const formatMac = (bytes: Uint8Array): string =>
+  [...bytes].map((byte) => byte.toString(16).padStart(2, "0")).join(":");
+
+/**
+ * Formats a 16-byte IPv6 address in the RFC 5952 canonical form.
+ *
+ * @param bytes - The address bytes
+ * @returns The address with the longest run of zero groups compressed
+ */
+export const formatIpv6Address = (bytes: Uint8Array): string => {
+  const view = viewOf(bytes);
+  const groups = Array.from(
+    { length: 8 },
+    (_, index) => view.getUint16(index * 2),
+  );
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let start = 0; start < 8; start++) {
+    let length = 0;
+    while (start + length < 8 && groups[start + length] === 0) length++;
+    if (length > bestLength) {
+      bestStart = start;
+      bestLength = length;
+    }
+  }
+  const hex = groups.map((group) => group.toString(16));
+  if (bestStart === -1) return hex.join(":");
+  return `${hex.slice(0, bestStart).join(":")}::${
+    hex.slice(bestStart + bestLength).join(":")
+  }`;
+};
+
+/**
+ * Decodes an Ethernet II header, including any 802.1Q/802.1ad VLAN tags.
+ *
+ * @param data - Bytes starting at the Ethernet header
+ * @returns The header and the bytes following it, or undefined if truncated
+ */
+export const decodeEthernet = (
+  data: Uint8Array,
+): { header: EthernetHeader; payload: Uint8Array } | undefined => {
+  if (data.length < 14) return undefined;
+  const view = viewOf(data);
+  let etherType = view.getUint16(12);
+  let offset = 14;
+  const vlans: number[] = [];
+  while (ETHERTYPE_VLAN.includes(etherType) && offset + 4 <= data.length) {
+    vlans.push(view.getUint16(offset) & 0x0fff);
+    etherType = view.getUint16(offset + 2);
+    offset += 4;
+  }
+  return {
+    header: {
+      destination: formatMac(data.subarray(0, 6)),
+      source: formatMac(data.subarray(6, 12)),
+      etherType,
+      ...(vlans.length > 0 ? { vlans } : {}),
+    },
+    payload: data.subarray(offset),
+  };
+};
+
+/**
+ * Decodes an IPv4 header.
+ *
+ * The returned payload is bounded by the header's total length, which drops
+ * any Ethernet padding.
+ *
+ * @param data - Bytes starting at the IPv4 header
+ * @returns The header and its payload, or undefined if truncated or not IPv4
+ */
+export const decodeIpv4 = (
+  data: Uint8Array,
+): { header: Ipv4Header; payload: Uint8Array } | undefined => {
+  if (data.length < 20 || data[0] >> 4 !== 4) return undefined;
+  const view = viewOf(data);
+  const headerLength = (data[0] & 0x0f) * 4;
+  const totalLength = view.getUint16(2);
+  if (headerLength < 20 || data.length < headerLength) return undefined;
+  const flagsAndOffset = view.getUint16(6);
+  return {
+    header: {
+      version: 4,
+      headerLength,
+      tos: data[1],
+      totalLength,
+      identification: view.getUint16(4),
+      flags: flagsAndOffset >> 13,
+      fragmentOffset: (flagsAndOffset & 0x1fff) * 8,
+      ttl: data[8],
+      protocol: data[9],
+      checksum: view.getUint16(10),
+      source: [...data.subarray(12, 16)].join("."),
+      destination: [...data.subarray(16, 20)].join("."),
+    },
+    payload: data.subarray(
+      headerLength,
+      Math.max(headerLength, Math.min(totalLength, data.length)),
+    ),
+  };
+};
+
+/**
+ * Decodes an IPv6 header, skipping hop-by-hop, routing, fragment and
+ * destination options extension headers.
+ *
+ * @param data - Bytes starting at the IPv6 header
+ * @returns The header and the upper-layer payload, or undefined if truncated
+ *          or not IPv6
+ */
+export const decodeIpv6 = (
+  data: Uint8Array,
+): { header: Ipv6Header; payload: Uint8Array } | undefined => {
+  if (data.length < 40 || data[0] >> 4 !== 6) return undefined;
+  const view = viewOf(data);
+  const payloadLength = view.getUint16(4);
+  const end = Math.min(40 + payloadLength, data.length);
+  let nextHeader = data[6];
+  let offset = 40;
+  while (offset + 8 <= end) {
+    if (IPV6_EXTENSION_HEADERS.includes(nextHeader)) {
+      const length = (data[offset + 1] + 1) * 8;
+      nextHeader = data[offset];
+      offset += length;
+    } else if (nextHeader === IPV6_FRAGMENT_HEADER) {
+      // Only the first fragment carries the upper-layer header
+      if (view.getUint16(offset + 2) >> 3 !== 0) break;
+      nextHeader = data[offset];
+      offset += 8;
+    } else {
+      break;
+    }
+  }
+  return {
+    header: {
+      version: 6,
+      trafficClass: (view.getUint16(0) >> 4) & 0xff,
+      flowLabel: view.getUint32(0) & 0xfffff,
+      payloadLength,
+      nextHeader,
+      hopLimit: data[7],
+      source: formatIpv6Address(data.subarray(8, 24)),
+      destination: formatIpv6Address(data.subarray(24, 40)),
+    },
+    payload: data.subarray(Math.min(offset, end), end),
+  };
+};
+
+/**
+ * Decodes a TCP header.
+ *
+ * @param data - Bytes starting at the TCP header
+ * @returns The header and the segment payload, or undefined if truncated
+ */
+export const decodeTcp = (
+  data: Uint8Array,
+): { header: TcpHeader; payload: Uint8Array } | undefined => {
+  if (data.length < 20) return undefined;
+  const view = viewOf(data);
+  const headerLength = (data[12] >> 4) * 4;
+  if (headerLength < 20 || data.length < headerLength) return undefined;
+  const flags = data[13];
+  return {
+    header: {
+      sourcePort: view.getUint16(0),
+      destinationPort: view.getUint16(2),
+      sequenceNumber: view.getUint32(4),
+      acknowledgmentNumber: view.getUint32(8),
+      headerLength,
+      flags: {
+        fin: (flags & 0x01) !== 0,
+        syn: (flags & 0x02) !== 0,
+        rst: (flags & 0x04) !== 0,
+        psh: (flags & 0x08) !== 0,
+        ack: (flags & 0x10) !== 0,
+        urg: (flags & 0x20) !== 0,
+        ece: (flags & 0x40) !== 0,
+        cwr: (flags & 0x80) !== 0,
+      },
+      window: view.getUint16(14),
+      checksum: view.getUint16(16),
+      urgentPointer: view.getUint16(18),
+    },
+    payload: data.subarray(headerLength),
+  };
+};
+
+/**
+ * Decodes a UDP header.
+ *
+ * @param data - Bytes starting at the UDP header
+ * @returns The header and the datagram payload, or undefined if truncated
+ */
+export const decodeUdp = (
+  data: Uint8Array,
+): { header: UdpHeader; payload: Uint8Array } | undefined => {
+  if (data.length < 8) return undefined;
+  const view = viewOf(data);
+  const length = view.getUint16(4);
+  return {
+    header: {
+      sourcePort: view.getUint16(0),
+      destinationPort: view.getUint16(2),
+      length,
+      checksum: view.getUint16(6),
+    },
+    payload: data.subarray(8, Math.max(8, Math.min(length, data.length))),
+  };
+};
+
+/**
+ * Returns the network-layer bytes and EtherType of a link-layer frame.
+ */
+const unwrapLinkLayer = (
+  data: Uint8Array,
+  linkType: number,
+): { ethernet?: EthernetHeader; etherType?: number; payload: Uint8Array } => {
+  const view = viewOf(data);
+  switch (linkType) {
+    case LinkType.ETHERNET: {
+      const ethernet = decodeEthernet(data);
+      return ethernet
+        ? {
+          ethernet: ethernet.header,
+          etherType: ethernet.header.etherType,
+          payload: ethernet.payload,
+        }
+        : { payload: data };
+    }
+    case LinkType.LINUX_SLL:
+      return data.length < 16
+        ? { payload: data }
+        : { etherType: view.getUint16(14), payload: data.subarray(16) };
+    case LinkType.LINUX_SLL2:
+      return data.length < 20
+        ? { payload: data }
+        : { etherType: view.getUint16(0), payload: data.subarray(20) };
+    case LinkType.RAW:
+      return {
+        etherType: data[0] >> 4 === 6 ? ETHERTYPE_IPV6 : ETHERTYPE_IPV4,
+        payload: data,
+      };
+    case LinkType.IPV4:
+      return { etherType: ETHERTYPE_IPV4, payload: data };
+    case LinkType.IPV6:
+      return { etherType: ETHERTYPE_IPV6, payload: data };
+    default:
+      return { payload: data };
+  }
+};
+
+/**
+ * Decodes the Ethernet, IPv4/IPv6 and TCP/UDP headers of a captured packet.
+ *
+ * Decoding stops at the first header that is unsupported, truncated or (for
+ * non-initial IPv4 fragments) absent; `payload` then holds the undecoded rest.
+ *
+ * @param data - Captured bytes, starting at the link-layer header
+ * @param linkType - Link type of the interface the packet was captured on
+ * @returns The decoded headers and the remaining payload
+ *
+ * @example
+ * ```ts
+ * for (const packet of capture.packets) {
+ *   const { ipv4, tcp } = decodePacket(
+ *     packet.data,
+ *     capture.interfaces[packet.interfaceId].linkType,
+ *   );
+ *   if (tcp?.destinationPort === 502) console.log(ipv4?.source);
+ * }
+ * ```
+ */
+export const decodePacket = (
+  data: Uint8Array,
+  linkType: number = LinkType.ETHERNET,
+): DecodedPacket => {
+  const link = unwrapLinkLayer(data, linkType);
+  const decoded: DecodedPacket = {
+    ...(link.ethernet ? { ethernet: link.ethernet } : {}),
+    payload: link.payload,
+  };
+
+  let protocol: number | undefined;
+  if (link.etherType === ETHERTYPE_IPV4) {
+    const ipv4 = decodeIpv4(link.payload);
+    if (!ipv4) return decoded;
+    decoded.ipv4 = ipv4.header;
+    decoded.payload = ipv4.payload;
+    // Only the first fragment carries the transport header
+    if (ipv4.header.fragmentOffset === 0) protocol = ipv4.header.protocol;
+  } else if (link.etherType === ETHERTYPE_IPV6) {
+    const ipv6 = decodeIpv6(link.payload);
+    if (!ipv6) return decoded;
+    decoded.ipv6 = ipv6.header;
+    decoded.payload = ipv6.payload;
+    protocol = ipv6.header.nextHeader;
+  }
+
+  if (protocol === IP_PROTOCOL_TCP) {
+    const tcp = decodeTcp(decoded.payload);
+    if (tcp) {
+      decoded.tcp = tcp.header;
+      decoded.payload = tcp.payload;
+    }
+  } else if (protocol === IP_PROTOCOL_UDP) {
+    const udp = decodeUdp(decoded.payload);
+    if (udp) {
+      decoded.udp = udp.header;
+      decoded.payload = udp.payload;
+    }
+  }
+  return decoded;
+};
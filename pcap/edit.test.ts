@@ -0,0 +1,65 @@
+import { describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import { isSuccess } from "@joyautomation/dark-matter";
+import { readPcapFile } from "./reader.ts";
+import { filterCapture, mergeCaptures, sliceCapture } from "./edit.ts";
+import { PcapFile } from "./types.ts";
+
+const readFixture = async (): Promise<PcapFile> => {
+  const result = await readPcapFile(
+    new URL("./fixtures/capture.pcap", import.meta.url).pathname,
+  );
+  if (!isSuccess(result)) throw new Error("fixture did not parse");
+  return result.output;
+};
+
+describe("sliceCapture", () => {
+  it("should slice by index and by time", async () => {
+    const capture = await readFixture();
+    expect(sliceCapture(capture, { start: 1 }).packets.length).toBe(2);
+    const slice = sliceCapture(capture, {
+      from: 1709294400_100000000n,
+      to: 1709294400_250000000n,
+    });
+    expect(slice.packets.map((packet) => packet.data.length)).toEqual([93]);
+    expect(slice.interfaces).toEqual(capture.interfaces);
+  });
+});
+
+describe("filterCapture", () => {
+  it("should filter on decoded headers", async () => {
+    const capture = await readFixture();
+    const modbus = filterCapture(
+      capture,
+      (_, { tcp }) => tcp?.destinationPort === 502,
+    );
+    expect(modbus.packets.length).toBe(1);
+    expect(filterCapture(capture, (_, { udp }) => udp !== undefined).packets)
+      .toEqual([capture.packets[1]]);
+  });
+});
+
+describe("mergeCaptures", () => {
+  it("should interleave packets by time and remap interfaces", async () => {
+    const capture = await readFixture();
+    const later: PcapFile = {
+      ...capture,
+      interfaces: [{ linkType: 113, snaplen: 0 }],
+      packets: capture.packets.map((packet) => ({
+        ...packet,
+        timestamp: packet.timestamp + 100_000000n,
+      })),
+    };
+    const merged = mergeCaptures(capture, later);
+    expect(merged.format).toBe("pcapng");
+    expect(merged.interfaces.length).toBe(2);
+    expect(merged.packets.map((packet) => packet.interfaceId)).toEqual([
+      0,
+      1,
+      0,
+      1,
+      0,
+      1,
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+import { decodePacket } from "./decode.ts";
+import { DecodedPacket, PcapFile, PcapPacket, SliceOptions } from "./types.ts";
+
+/**
+ * Keeps the packets of a capture that fall within an index and/or time range.
+ *
+ * @param file - The capture to slice
+ * @param options - Index and time bounds
+ * @returns A new capture with the same interfaces and the selected packets
+ *
+ * @example
+ * ```ts
+ * // The minute following a known incident time
+ * const incident = BigInt(Date.parse("2024-03-01T10:15:00Z")) * 1_000_000n;
+ * const slice = sliceCapture(capture, {
+ *   from: incident,
+ *   to: incident + 60_000_000_000n,
+ * });
+ * ```
+ */
+export const sliceCapture = (
+  file: PcapFile,
+  options: SliceOptions,
+): PcapFile => ({
+  ...file,
+  packets: file.packets.slice(options.start, options.end).filter((packet) =>
+    (options.from === undefined || packet.timestamp >= options.from) &&
+    (options.to === undefined || packet.timestamp <= options.to)
+  ),
+});
+
+/**
+ * Keeps the packets of a capture that satisfy a predicate.
+ *
+ * The predicate receives each packet together with its decoded headers, so
+ * filters can be written against addresses and ports without a dissector.
+ *
+ * @param file - The capture to filter
+ * @param predicate - Returns true for packets to keep
+ * @returns A new capture with the same interfaces and the matching packets
+ *
+ * @example
+ * ```ts
+ * const modbus = filterCapture(
+ *   capture,
+ *   (_, { tcp }) => tcp?.sourcePort === 502 || tcp?.destinationPort === 502,
+ * );
+ * ```
+ */
+export const filterCapture = (
+  file: PcapFile,
+  predicate: (packet: PcapPacket, decoded: DecodedPacket) => boolean,
+): PcapFile => ({
+  ...file,
+  packets: file.packets.filter((packet) =>
+    predicate(
+      packet,
+      decodePacket(packet.data, file.interfaces[packet.interfaceId]?.linkType),
+    )
+  ),
+});
+
+/**
+ * Merges captures into one, ordering packets by timestamp.
+ *
+ * The interfaces of all captures are concatenated and packet interface ids
+ * remapped to match. Packets with equal timestamps keep their input order.
+ * Since the result may mix link types, it is marked as pcapng.
+ *
+ * @param files - The captures to merge
+ * @returns The merged capture, with the section metadata of the first capture
+ *
+ * @example
+ * ```ts
+ * const merged = mergeCaptures(plantA, plantB);
+ * await writePcapFile("merged.pcapng", merged);
+ * ```
+ */
+export const mergeCaptures = (...files: PcapFile[]): PcapFile => {
+  let interfaceBase = 0;
+  const packets = files.flatMap((file) => {
+    const base = interfaceBase;
+    interfaceBase += file.interfaces.length;
+    return file.packets.map((packet) => ({
+      ...packet,
+      interfaceId: base + packet.interfaceId,
+    }));
+  });
+  return {
+    format: "pcapng",
+    interfaces: files.flatMap((file) => file.interfaces),
+    packets: packets.toSorted((a, b) =>
+      a.timestamp < b.timestamp ? -1 : a.timestamp > b.timestamp ? 1 : 0
+    ),
+    section: files[0]?.section,
+  };
+};
@@ -0,0 +1,27 @@
+/**
+ * @module
+ *
+ * Dependency-free pcap and pcapng file handling.
+ *
+ * This module reads, writes, slices, merges and filters capture files and
+ * decodes Ethernet, IPv4/IPv6 and TCP/UDP headers in pure TypeScript, for
+ * systems without Wireshark installed.
+ *
+ * @example
+ * ```ts
+ * import { decodePacket, readPcapFile } from "@joyautomation/statocyst/pcap";
+ * import { isSuccess } from "@joyautomation/dark-matter";
+ *
+ * const result = await readPcapFile("capture.pcapng");
+ * if (isSuccess(result)) {
+ *   const [first] = result.output.packets;
+ *   console.log(decodePacket(first.data).ipv4?.source);
+ * }
+ * ```
+ */
+
+export * from "./types.ts";
+export * from "./reader.ts";
+export * from "./writer.ts";
+export * from "./decode.ts";
+export * from "./edit.ts";
@@ -0,0 +1,96 @@
+import { describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import { isSuccess } from "@joyautomation/dark-matter";
+import { detectPcapFormat, parsePcap, readPcapFile } from "./reader.ts";
+import { serializePcapng } from "./writer.ts";
+import { isPcapFile, LinkType } from "./types.ts";
+
+const fixturePath = (name: string) =>
+  new URL(`./fixtures/${name}`, import.meta.url).pathname;
+
+describe("readPcapFile", () => {
+  it("should read the packets of a classic pcap file", async () => {
+    const result = await readPcapFile(fixturePath("capture.pcap"));
+    expect(isSuccess(result)).toBe(true);
+    if (!isSuccess(result)) return;
+    const capture = result.output;
+    expect(isPcapFile(capture)).toBe(true);
+    expect(capture.format).toBe("pcap");
+    expect(capture.interfaces).toEqual([
+      { linkType: LinkType.ETHERNET, snaplen: 65535 },
+    ]);
+    expect(capture.packets.map((packet) => packet.data.length)).toEqual([
+      74,
+      93,
+      42,
+    ]);
+    expect(capture.packets.map((packet) => packet.timestamp)).toEqual([
+      1709294400_000000000n,
+      1709294400_250000000n,
+      1709294401_500000000n,
+    ]);
+  });
+
+  it("should fail for a missing file", async () => {
+    const result = await readPcapFile(fixturePath("missing.pcap"));
+    expect(isSuccess(result)).toBe(false);
+  });
+});
+
+describe("parsePcap", () => {
+  it("should read big-endian nanosecond pcap files", () => {
+    const bytes = new Uint8Array(24 + 16 + 4);
+    const view = new DataView(bytes.buffer);
+    view.setUint32(0, 0xa1b23c4d);
+    view.setUint16(4, 2);
+    view.setUint16(6, 4);
+    view.setUint32(16, 1500);
+    view.setUint32(20, LinkType.RAW);
+    view.setUint32(24, 10);
+    view.setUint32(28, 123456789);
+    view.setUint32(32, 4);
+    view.setUint32(36, 60);
+    bytes.set([0x45, 0, 0, 60], 40);
+
+    const result = parsePcap(bytes);
+    expect(isSuccess(result)).toBe(true);
+    if (!isSuccess(result)) return;
+    expect(result.output.interfaces[0].linkType).toBe(LinkType.RAW);
+    expect(result.output.packets[0].timestamp).toBe(10_123456789n);
+    expect(result.output.packets[0].originalLength).toBe(60);
+  });
+
+  it("should read pcapng interfaces, comments and sections", () => {
+    const bytes = serializePcapng({
+      format: "pcapng",
+      section: { application: "statocyst" },
+      interfaces: [{ linkType: 1, snaplen: 0, name: "eth0" }],
+      packets: [{
+        interfaceId: 0,
+        timestamp: 1_000000001n,
+        originalLength: 3,
+        data: new Uint8Array([1, 2, 3]),
+        comment: "first",
+      }],
+    });
+    expect(detectPcapFormat(bytes)).toBe("pcapng");
+    const result = parsePcap(bytes);
+    expect(isSuccess(result)).toBe(true);
+    if (!isSuccess(result)) return;
+    expect(result.output.section?.application).toBe("statocyst");
+    expect(result.output.interfaces[0].name).toBe("eth0");
+    expect(result.output.packets[0].comment).toBe("first");
+    expect(result.output.packets[0].timestamp).toBe(1_000000001n);
+  });
+
+  it("should reject data that is not a capture", () => {
+    expect(isSuccess(parsePcap(new TextEncoder().encode("not a capture"))))
+      .toBe(false);
+  });
+
+  it("should reject truncated packet records", async () => {
+    const bytes = await Deno.readFile(fixturePath("capture.pcap"));
+    const result = parsePcap(bytes.subarray(0, bytes.length - 5));
+    expect(isSuccess(result)).toBe(false);
+  });
+});
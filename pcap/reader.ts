@@ -0,0 +1,277 @@
+import {
+  createErrorString,
+  createFail,
+  createSuccess,
+  Result,
+} from "@joyautomation/dark-matter";
+import { readFile } from "node:fs/promises";
+import {
+  PCAP_MAGIC_MICROSECONDS,
+  PCAP_MAGIC_NANOSECONDS,
+  PcapFile,
+  PcapInterface,
+  PCAPNG_BYTE_ORDER_MAGIC,
+  PcapngBlockType,
+  PcapPacket,
+  PcapSection,
+} from "./types.ts";
+
+const textDecoder = new TextDecoder();
+
+/**
+ * Detects whether bytes hold a classic pcap or a pcapng file.
+ *
+ * @param bytes - The start of a capture file (at least 12 bytes)
+ * @returns The format, or undefined if the magic number is not recognized
+ */
+export const detectPcapFormat = (
+  bytes: Uint8Array,
+): "pcap" | "pcapng" | undefined => {
+  if (bytes.length < 12) return undefined;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint32(0) === PcapngBlockType.SECTION_HEADER) return "pcapng";
+  return [PCAP_MAGIC_MICROSECONDS, PCAP_MAGIC_NANOSECONDS].some((magic) =>
+      view.getUint32(0, false) === magic || view.getUint32(0, true) === magic
+    )
+    ? "pcap"
+    : undefined;
+};
+
+const parseClassicPcap = (bytes: Uint8Array): PcapFile => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const littleEndian = view.getUint32(0, true) === PCAP_MAGIC_MICROSECONDS ||
+    view.getUint32(0, true) === PCAP_MAGIC_NANOSECONDS;
+  const nanoseconds =
+    view.getUint32(0, littleEndian) === PCAP_MAGIC_NANOSECONDS;
+  const interfaces: PcapInterface[] = [{
+    snaplen: view.getUint32(16, littleEndian),
+    // The upper bits of the link type field carry FCS information
+    linkType: view.getUint32(20, littleEndian) & 0x0fffffff,
+  }];
+
+  const packets: PcapPacket[] = [];
+  let offset = 24;
+  while (offset + 16 <= bytes.length) {
+    const seconds = BigInt(view.getUint32(offset, littleEndian));
+    const fraction = BigInt(view.getUint32(offset + 4, littleEndian));
+    const capturedLength = view.getUint32(offset + 8, littleEndian);
+    const originalLength = view.getUint32(offset + 12, littleEndian);
+    const start = offset + 16;
+    if (start + capturedLength > bytes.length) {
+      throw new Error(`Packet record at offset ${offset} is truncated`);
+    }
+    packets.push({
+      interfaceId: 0,
+      timestamp: seconds * 1_000_000_000n +
+        (nanoseconds ? fraction : fraction * 1000n),
+      originalLength,
+      data: bytes.slice(start, start + capturedLength),
+    });
+    offset = start + capturedLength;
+  }
+  return { format: "pcap", interfaces, packets };
+};
+
+/**
+ * Iterates over the options of a pcapng block.
+ */
+const readOptions = (
+  view: DataView,
+  start: number,
+  end: number,
+  littleEndian: boolean,
+): Map<number, Uint8Array[]> => {
+  const options = new Map<number, Uint8Array[]>();
+  let offset = start;
+  while (offset + 4 <= end) {
+    const code = view.getUint16(offset, littleEndian);
+    const length = view.getUint16(offset + 2, littleEndian);
+    if (code === 0) break;
+    const value = new Uint8Array(
+      view.buffer,
+      view.byteOffset + offset + 4,
+      Math.min(length, end - offset - 4),
+    );
+    options.set(code, [...(options.get(code) ?? []), value]);
+    offset += 4 + Math.ceil(length / 4) * 4;
+  }
+  return options;
+};
+
+const optionString = (
+  options: Map<number, Uint8Array[]>,
+  code: number,
+): string | undefined => {
+  const value = options.get(code)?.[0];
+  return value ? textDecoder.decode(value).replace(/\0+$/, "") : undefined;
+};
+
+/** Returns the timestamp units per second encoded in an if_tsresol option */
+const timestampUnits = (resolution: Uint8Array | undefined): bigint => {
+  if (!resolution) return 1_000_000n;
+  const exponent = BigInt(resolution[0] & 0x7f);
+  return resolution[0] & 0x80 ? 2n ** exponent : 10n ** exponent;
+};
+
+const parsePcapng = (bytes: Uint8Array): PcapFile => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const interfaces: PcapInterface[] = [];
+  const units: bigint[] = [];
+  const packets: PcapPacket[] = [];
+  let section: PcapSection | undefined;
+  let littleEndian = true;
+  // Interface ids restart in every section
+  let sectionBase = 0;
+
+  let offset = 0;
+  while (offset + 12 <= bytes.length) {
+    const type = view.getUint32(offset, littleEndian);
+    if (type === PcapngBlockType.SECTION_HEADER) {
+      littleEndian = view.getUint32(offset + 8, true) ===
+        PCAPNG_BYTE_ORDER_MAGIC;
+      sectionBase = interfaces.length;
+    }
+    const length = view.getUint32(offset + 4, littleEndian);
+    if (length < 12 || length % 4 !== 0 || offset + length > bytes.length) {
+      throw new Error(`Block at offset ${offset} has an invalid length`);
+    }
+    const body = offset + 8;
+    const end = offset + length - 4;
+
+    switch (type) {
+      case PcapngBlockType.SECTION_HEADER: {
+        const options = readOptions(view, body + 16, end, littleEndian);
+        section ??= {
+          comment: optionString(options, 1),
+          hardware: optionString(options, 2),
+          os: optionString(options, 3),
+          application: optionString(options, 4),
+        };
+        break;
+      }
+      case PcapngBlockType.INTERFACE_DESCRIPTION: {
+        const options = readOptions(view, body + 8, end, littleEndian);
+        interfaces.push({
+          linkType: view.getUint16(body, littleEndian),
+          snaplen: view.getUint32(body + 4, littleEndian),
+          name: optionString(options, 2),
+          description: optionString(options, 3),
+        });
+        units.push(timestampUnits(options.get(9)?.[0]));
+        break;
+      }
+      case PcapngBlockType.ENHANCED_PACKET:
+      case PcapngBlockType.PACKET: {
+        const enhanced = type === PcapngBlockType.ENHANCED_PACKET;
+        const interfaceId = sectionBase +
+          (enhanced
+            ? view.getUint32(body, littleEndian)
+            : view.getUint16(body, littleEndian));
+        const ticks = (BigInt(view.getUint32(body + 4, littleEndian)) << 32n) |
+          BigInt(view.getUint32(body + 8, littleEndian));
+        const capturedLength = view.getUint32(body + 12, littleEndian);
+        const data = body + 20;
+        if (data + capturedLength > end) {
+          throw new Error(`Packet block at offset ${offset} is truncated`);
+        }
+        const options = readOptions(
+          view,
+          data + Math.ceil(capturedLength / 4) * 4,
+          end,
+          littleEndian,
+        );
+        packets.push({
+          interfaceId,
+          timestamp: ticks * 1_000_000_000n /
+            (units[interfaceId] ?? 1_000_000n),
+          originalLength: view.getUint32(body + 16, littleEndian),
+          data: bytes.slice(data, data + capturedLength),
+          comment: optionString(options, 1),
+        });
+        break;
+      }
+      case PcapngBlockType.SIMPLE_PACKET: {
+        // Simple packets belong to the first interface and carry no timestamp
+        const originalLength = view.getUint32(body, littleEndian);
+        const snaplen = interfaces[sectionBase]?.snaplen || originalLength;
+        const capturedLength = Math.min(
+          originalLength,
+          snaplen,
+          end - body - 4,
+        );
+        packets.push({
+          interfaceId: sectionBase,
+          timestamp: 0n,
+          originalLength,
+          data: bytes.slice(body + 4, body + 4 + capturedLength),
+        });
+        break;
+      }
+    }
+    offset += length;
+  }
+  return { format: "pcapng", interfaces, packets, section };
+};
+
+/**
+ * Parses a classic pcap or pcapng capture from memory.
+ *
+ * Both byte orders and microsecond or nanosecond classic pcap files are
+ * supported. pcapng files may contain several sections; their interfaces are
+ * concatenated and packet interface ids adjusted to match. Block types other
+ * than section headers, interface descriptions and packets are skipped.
+ *
+ * @param bytes - The complete file contents
+ * @returns A Result containing the parsed capture, or an error if the data is
+ *          not a capture file or is truncated
+ *
+ * @example
+ * ```ts
+ * const result = parsePcap(await Deno.readFile("plant-a.pcapng"));
+ * if (isSuccess(result)) {
+ *   console.log(`${result.output.packets.length} packets`);
+ * }
+ * ```
+ */
+export const parsePcap = (bytes: Uint8Array): Result<PcapFile> => {
+  const format = detectPcapFormat(bytes);
+  if (format === undefined) {
+    return createFail("Not a pcap or pcapng file: unrecognized magic number");
+  }
+  try {
+    return createSuccess(
+      format === "pcap" ? parseClassicPcap(bytes) : parsePcapng(bytes),
+    );
+  } catch (error) {
+    return createFail(createErrorString(error));
+  }
+};
+
+/**
+ * Reads and parses a pcap or pcapng file without invoking Wireshark tools.
+ *
+ * @param path - Path to the capture file
+ * @returns A Promise resolving to a Result containing the parsed capture,
+ *          or an error if the file cannot be read or parsed
+ *
+ * @example
+ * ```ts
+ * const result = await readPcapFile("/var/tmp/plant-a.pcapng");
+ * if (isSuccess(result)) {
+ *   for (const packet of result.output.packets) {
+ *     console.log(packet.timestamp, packet.data.length);
+ *   }
+ * }
+ * ```
+ */
+export const readPcapFile = async (path: string): Promise<Result<PcapFile>> => {
+  try {
+    const buffer = await readFile(path);
+    // A plain view, since Buffer's slice() shares memory instead of copying
+    return parsePcap(
+      new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength),
+    );
+  } catch (error) {
+    return createFail(createErrorString(error));
+  }
+};
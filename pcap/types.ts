@@ -0,0 +1,257 @@
+// Types for pcap and pcapng capture files
+
+/**
+ * Link-layer header types (LINKTYPE_* values) of captured packets.
+ *
+ * Only the types decodePacket understands are listed; files with other link
+ * types can still be read and written.
+ */
+export enum LinkType {
+  ETHERNET = 1,
+  RAW = 101,
+  LINUX_SLL = 113,
+  IPV4 = 228,
+  IPV6 = 229,
+  LINUX_SLL2 = 276,
+}
+
+/**
+ * pcapng block types read and written by this module.
+ */
+export enum PcapngBlockType {
+  SECTION_HEADER = 0x0a0d0d0a,
+  INTERFACE_DESCRIPTION = 0x00000001,
+  PACKET = 0x00000002,
+  SIMPLE_PACKET = 0x00000003,
+  ENHANCED_PACKET = 0x00000006,
+}
+
+/** Magic number of classic pcap files with microsecond timestamps */
+export const PCAP_MAGIC_MICROSECONDS = 0xa1b2c3d4;
+/** Magic number of classic pcap files with nanosecond timestamps */
+export const PCAP_MAGIC_NANOSECONDS = 0xa1b23c4d;
+/** Byte-order magic of pcapng section headers */
+export const PCAPNG_BYTE_ORDER_MAGIC = 0x1a2b3c4d;
+
+/**
+ * On-disk capture file format.
+ */
+export type PcapFormat = "pcap" | "pcapng";
+
+/**
+ * An interface packets were captured on.
+ *
+ * Classic pcap files have exactly one; pcapng files have one Interface
+ * Description Block per interface.
+ */
+export interface PcapInterface {
+  /** Link-layer header type of the interface's packets (see LinkType) */
+  linkType: number;
+  /** Maximum number of bytes captured per packet (0 means unlimited) */
+  snaplen: number;
+  /** Interface name (pcapng only, e.g. "eth0") */
+  name?: string;
+  /** Interface description (pcapng only) */
+  description?: string;
+}
+
+/**
+ * A captured packet.
+ */
+export interface PcapPacket {
+  /** Index into the file's interfaces */
+  interfaceId: number;
+  /** Capture time in nanoseconds since the Unix epoch */
+  timestamp: bigint;
+  /** Length of the packet on the wire, which may exceed `data.length` */
+  originalLength: number;
+  /** Captured bytes, starting with the link-layer header */
+  data: Uint8Array;
+  /** Packet comment (pcapng only) */
+  comment?: string;
+}
+
+/**
+ * Metadata from a pcapng Section Header Block.
+ */
+export interface PcapSection {
+  /** Hardware the capture was made on */
+  hardware?: string;
+  /** Operating system the capture was made on */
+  os?: string;
+  /** Application that wrote the file */
+  application?: string;
+  /** Free-form comment */
+  comment?: string;
+}
+
+/**
+ * The contents of a pcap or pcapng file.
+ */
+export interface PcapFile {
+  /** Format the file was read from */
+  format: PcapFormat;
+  /** Interfaces referenced by the packets' `interfaceId` */
+  interfaces: PcapInterface[];
+  /** Packets in file order */
+  packets: PcapPacket[];
+  /** Section metadata (pcapng only) */
+  section?: PcapSection;
+}
+
+/**
+ * Type guard to validate if unknown data is a valid PcapPacket.
+ *
+ * @param data - The data to validate
+ * @returns True if data is a valid PcapPacket, false otherwise
+ */
+export const isPcapPacket = (data: unknown): data is PcapPacket => {
+  if (typeof data !== "object" || data === null) return false;
+
+  const item = data as Record<string, unknown>;
+  return (
+    typeof item.interfaceId === "number" &&
+    typeof item.timestamp === "bigint" &&
+    typeof item.originalLength === "number" &&
+    item.data instanceof Uint8Array
+  );
+};
+
+/**
+ * Type guard to validate if unknown data is a valid PcapFile.
+ *
+ * @param data - The data to validate
+ * @returns True if data is a valid PcapFile, false otherwise
+ */
+export const isPcapFile = (data: unknown): data is PcapFile => {
+  if (typeof data !== "object" || data === null) return false;
+
+  const item = data as Record<string, unknown>;
+  return (
+    (item.format === "pcap" || item.format === "pcapng") &&
+    Array.isArray(item.interfaces) &&
+    Array.isArray(item.packets) &&
+    item.packets.every(isPcapPacket)
+  );
+};
+
+/**
+ * Options for sliceCapture. Every bound is optional.
+ */
+export interface SliceOptions {
+  /** Index of the first packet to keep */
+  start?: number;
+  /** Index past the last packet to keep (exclusive) */
+  end?: number;
+  /** Keep packets captured at or after this time (nanoseconds since the epoch) */
+  from?: bigint;
+  /** Keep packets captured at or before this time (nanoseconds since the epoch) */
+  to?: bigint;
+}
+
+// Decoded protocol headers
+
+/**
+ * Decoded Ethernet II header.
+ */
+export interface EthernetHeader {
+  /** Destination MAC address (e.g. "00:1d:9c:c8:03:e7") */
+  destination: string;
+  /** Source MAC address */
+  source: string;
+  /** EtherType of the payload, after any VLAN tags (e.g. 0x0800 for IPv4) */
+  etherType: number;
+  /** 802.1Q VLAN IDs, outermost first */
+  vlans?: number[];
+}
+
+/**
+ * Decoded IPv4 header.
+ */
+export interface Ipv4Header {
+  version: 4;
+  /** Header length in bytes */
+  headerLength: number;
+  /** DSCP and ECN bits */
+  tos: number;
+  /** Length of the datagram including its header */
+  totalLength: number;
+  identification: number;
+  /** Flag bits (0x2 don't fragment, 0x1 more fragments) */
+  flags: number;
+  /** Fragment offset in bytes */
+  fragmentOffset: number;
+  ttl: number;
+  /** IP protocol number of the payload (6 TCP, 17 UDP, ...) */
+  protocol: number;
+  checksum: number;
+  source: string;
+  destination: string;
+}
+
+/**
+ * Decoded IPv6 header.
+ */
+export interface Ipv6Header {
+  version: 6;
+  trafficClass: number;
+  flowLabel: number;
+  /** Length of the payload including extension headers */
+  payloadLength: number;
+  /** Protocol of the payload after skipping extension headers */
+  nextHeader: number;
+  hopLimit: number;
+  source: string;
+  destination: string;
+}
+
+/**
+ * Decoded TCP header.
+ */
+export interface TcpHeader {
+  sourcePort: number;
+  destinationPort: number;
+  sequenceNumber: number;
+  acknowledgmentNumber: number;
+  /** Header length in bytes */
+  headerLength: number;
+  flags: {
+    fin: boolean;
+    syn: boolean;
+    rst: boolean;
+    psh: boolean;
+    ack: boolean;
+    urg: boolean;
+    ece: boolean;
+    cwr: boolean;
+  };
+  window: number;
+  checksum: number;
+  urgentPointer: number;
+}
+
+/**
+ * Decoded UDP header.
+ */
+export interface UdpHeader {
+  sourcePort: number;
+  destinationPort: number;
+  /** Length of the datagram including its header */
+  length: number;
+  checksum: number;
+}
+
+/**
+ * The headers decodePacket recognized in a packet.
+ *
+ * Decoding stops at the first unsupported or truncated header; `payload`
+ * holds everything after the last decoded one.
+ */
+export interface DecodedPacket {
+  ethernet?: EthernetHeader;
+  ipv4?: Ipv4Header;
+  ipv6?: Ipv6Header;
+  tcp?: TcpHeader;
+  udp?: UdpHeader;
+  payload: Uint8Array;
+}
@@ -0,0 +1,84 @@
+import { describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import { isSuccess } from "@joyautomation/dark-matter";
+import { parsePcap, readPcapFile } from "./reader.ts";
+import { serializePcap, serializePcapng, writePcapFile } from "./writer.ts";
+import { PcapFile } from "./types.ts";
+
+const fixturePath = (name: string) =>
+  new URL(`./fixtures/${name}`, import.meta.url).pathname;
+
+const readFixture = async (): Promise<PcapFile> => {
+  const result = await readPcapFile(fixturePath("capture.pcap"));
+  if (!isSuccess(result)) throw new Error("fixture did not parse");
+  return result.output;
+};
+
+describe("serializePcap", () => {
+  it("should reproduce a classic pcap file byte for byte", async () => {
+    const bytes = await Deno.readFile(fixturePath("capture.pcap"));
+    const result = serializePcap(await readFixture());
+    expect(isSuccess(result)).toBe(true);
+    if (isSuccess(result)) expect(result.output).toEqual(bytes);
+  });
+
+  it("should switch to nanosecond resolution when needed", () => {
+    const capture: PcapFile = {
+      format: "pcap",
+      interfaces: [{ linkType: 1, snaplen: 0 }],
+      packets: [{
+        interfaceId: 0,
+        timestamp: 5_000000007n,
+        originalLength: 1,
+        data: new Uint8Array([0]),
+      }],
+    };
+    const result = serializePcap(capture);
+    expect(isSuccess(result)).toBe(true);
+    if (!isSuccess(result)) return;
+    const parsed = parsePcap(result.output);
+    expect(isSuccess(parsed) && parsed.output.packets[0].timestamp).toBe(
+      5_000000007n,
+    );
+  });
+
+  it("should refuse to mix link types", () => {
+    const result = serializePcap({
+      format: "pcapng",
+      interfaces: [{ linkType: 1, snaplen: 0 }, { linkType: 113, snaplen: 0 }],
+      packets: [],
+    });
+    expect(isSuccess(result)).toBe(false);
+  });
+});
+
+describe("serializePcapng", () => {
+  it("should round-trip packets through pcapng", async () => {
+    const capture = await readFixture();
+    const result = parsePcap(serializePcapng(capture));
+    expect(isSuccess(result)).toBe(true);
+    if (!isSuccess(result)) return;
+    expect(result.output.format).toBe("pcapng");
+    expect(result.output.packets.map((packet) => packet.timestamp)).toEqual(
+      capture.packets.map((packet) => packet.timestamp),
+    );
+    expect(result.output.packets.map((packet) => packet.data)).toEqual(
+      capture.packets.map((packet) => packet.data),
+    );
+  });
+});
+
+describe("writePcapFile", () => {
+  it("should write a file that reads back", async () => {
+    const path = await Deno.makeTempFile({ suffix: ".pcapng" });
+    try {
+      const capture = await readFixture();
+      const result = await writePcapFile(path, capture, "pcapng");
+      expect(isSuccess(result)).toBe(true);
+      const read = await readPcapFile(path);
+      expect(isSuccess(read) && read.output.packets.length).toBe(3);
+    } finally {
+      await Deno.remove(path);
+    }
+  });
+});
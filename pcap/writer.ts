@@ -0,0 +1,252 @@
+import {
+  createErrorString,
+  createFail,
+  createSuccess,
+  isSuccess,
+  Result,
+} from "@joyautomation/dark-matter";
+import { writeFile } from "node:fs/promises";
+import {
+  PCAP_MAGIC_MICROSECONDS,
+  PCAP_MAGIC_NANOSECONDS,
+  PcapFile,
+  PcapFormat,
+  PCAPNG_BYTE_ORDER_MAGIC,
+  PcapngBlockType,
+  PcapSection,
+} from "./types.ts";
+
+const textEncoder = new TextEncoder();
+
+const padding = (length: number): number => (4 - (length % 4)) % 4;
+
+/**
+ * Encodes pcapng options, including the terminating opt_endofopt.
+ */
+const encodeOptions = (
+  options: [code: number, value: Uint8Array | undefined][],
+): Uint8Array => {
+  const present = options.filter(
+    (option): option is [number, Uint8Array] => option[1] !== undefined,
+  );
+  if (present.length === 0) return new Uint8Array(0);
+  const size = present.reduce(
+    (total, [, value]) => total + 4 + value.length + padding(value.length),
+    4,
+  );
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  for (const [code, value] of present) {
+    view.setUint16(offset, code, true);
+    view.setUint16(offset + 2, value.length, true);
+    bytes.set(value, offset + 4);
+    offset += 4 + value.length + padding(value.length);
+  }
+  return bytes;
+};
+
+const text = (value: string | undefined): Uint8Array | undefined =>
+  value === undefined ? undefined : textEncoder.encode(value);
+
+/**
+ * Wraps a block body in the pcapng block type and length fields.
+ */
+const encodeBlock = (type: number, ...parts: Uint8Array[]): Uint8Array => {
+  const bodyLength = parts.reduce((total, part) => total + part.length, 0);
+  const length = 12 + bodyLength + padding(bodyLength);
+  const bytes = new Uint8Array(length);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, type, true);
+  view.setUint32(4, length, true);
+  let offset = 8;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  view.setUint32(length - 4, length, true);
+  return bytes;
+};
+
+const fields = (
+  size: number,
+  write: (view: DataView) => void,
+): Uint8Array => {
+  const bytes = new Uint8Array(size);
+  write(new DataView(bytes.buffer));
+  return bytes;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const bytes = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+};
+
+/**
+ * Serializes a capture as a little-endian pcapng file.
+ *
+ * Timestamps are written with nanosecond resolution, so packets read from
+ * any pcap or pcapng file round-trip without losing precision.
+ *
+ * @param file - The capture to serialize; its `format` is ignored
+ * @returns The pcapng file contents
+ *
+ * @example
+ * ```ts
+ * await Deno.writeFile("out.pcapng", serializePcapng(capture));
+ * ```
+ */
+export const serializePcapng = (file: PcapFile): Uint8Array => {
+  const section: PcapSection = file.section ?? {};
+  const blocks = [
+    encodeBlock(
+      PcapngBlockType.SECTION_HEADER,
+      fields(16, (view) => {
+        view.setUint32(0, PCAPNG_BYTE_ORDER_MAGIC, true);
+        view.setUint16(4, 1, true);
+        view.setUint16(6, 0, true);
+        // Section length -1: not specified
+        view.setBigInt64(8, -1n, true);
+      }),
+      encodeOptions([
+        [1, text(section.comment)],
+        [2, text(section.hardware)],
+        [3, text(section.os)],
+        [4, text(section.application)],
+      ]),
+    ),
+    ...file.interfaces.map((entry) =>
+      encodeBlock(
+        PcapngBlockType.INTERFACE_DESCRIPTION,
+        fields(8, (view) => {
+          view.setUint16(0, entry.linkType, true);
+          view.setUint32(4, entry.snaplen, true);
+        }),
+        encodeOptions([
+          [2, text(entry.name)],
+          [3, text(entry.description)],
+          [9, new Uint8Array([9])],
+        ]),
+      )
+    ),
+    ...file.packets.map((packet) =>
+      encodeBlock(
+        PcapngBlockType.ENHANCED_PACKET,
+        fields(20, (view) => {
+          view.setUint32(0, packet.interfaceId, true);
+          view.setUint32(4, Number(packet.timestamp >> 32n), true);
+          view.setUint32(8, Number(packet.timestamp & 0xffffffffn), true);
+          view.setUint32(12, packet.data.length, true);
+          view.setUint32(16, packet.originalLength, true);
+        }),
+        packet.data,
+        new Uint8Array(padding(packet.data.length)),
+        encodeOptions([[1, text(packet.comment)]]),
+      )
+    ),
+  ];
+  return concat(blocks);
+};
+
+/**
+ * Serializes a capture as a little-endian classic pcap file.
+ *
+ * Classic pcap has a single link type and no interface or comment metadata,
+ * so all interfaces must share a link type and names, descriptions and
+ * comments are dropped. Nanosecond timestamps are used only when a packet
+ * needs them, keeping files readable by older tools otherwise.
+ *
+ * @param file - The capture to serialize; its `format` is ignored
+ * @returns A Result containing the pcap file contents, or an error if the
+ *          capture mixes link types
+ *
+ * @example
+ * ```ts
+ * const result = serializePcap(capture);
+ * if (isSuccess(result)) await Deno.writeFile("out.pcap", result.output);
+ * ```
+ */
+export const serializePcap = (file: PcapFile): Result<Uint8Array> => {
+  const linkTypes = new Set(file.interfaces.map((entry) => entry.linkType));
+  if (linkTypes.size > 1) {
+    return createFail(
+      `Classic pcap supports a single link type, but the capture uses ${
+        [...linkTypes].join(", ")
+      }; write it as pcapng instead`,
+    );
+  }
+  const nanoseconds = file.packets.some((packet) =>
+    packet.timestamp % 1000n !== 0n
+  );
+  const snaplen = Math.max(
+    0,
+    ...file.interfaces.map((entry) => entry.snaplen),
+  ) || 262144;
+  const header = fields(24, (view) => {
+    view.setUint32(
+      0,
+      nanoseconds ? PCAP_MAGIC_NANOSECONDS : PCAP_MAGIC_MICROSECONDS,
+      true,
+    );
+    view.setUint16(4, 2, true);
+    view.setUint16(6, 4, true);
+    view.setUint32(16, snaplen, true);
+    view.setUint32(20, file.interfaces[0]?.linkType ?? 1, true);
+  });
+  const records = file.packets.flatMap((packet) => [
+    fields(16, (view) => {
+      const seconds = packet.timestamp / 1_000_000_000n;
+      const fraction = packet.timestamp % 1_000_000_000n;
+      view.setUint32(0, Number(seconds), true);
+      view.setUint32(
+        4,
+        Number(nanoseconds ? fraction : fraction / 1000n),
+        true,
+      );
+      view.setUint32(8, packet.data.length, true);
+      view.setUint32(12, packet.originalLength, true);
+    }),
+    packet.data,
+  ]);
+  return createSuccess(concat([header, ...records]));
+};
+
+/**
+ * Writes a capture to disk as pcap or pcapng without invoking Wireshark tools.
+ *
+ * @param path - Destination file path
+ * @param file - The capture to write
+ * @param format - Output format (default: the format the capture was read from)
+ * @returns A Promise resolving to a Result indicating success or failure
+ *
+ * @example
+ * ```ts
+ * const result = await readPcapFile("plant-a.pcap");
+ * if (isSuccess(result)) {
+ *   await writePcapFile("plant-a.pcapng", result.output, "pcapng");
+ * }
+ * ```
+ */
+export const writePcapFile = async (
+  path: string,
+  file: PcapFile,
+  format: PcapFormat = file.format,
+): Promise<Result<void>> => {
+  const bytes = format === "pcapng"
+    ? createSuccess(serializePcapng(file))
+    : serializePcap(file);
+  if (!isSuccess(bytes)) return bytes;
+  try {
+    await writeFile(path, bytes.output);
+    return createSuccess(undefined);
+  } catch (error) {
+    return createFail(createErrorString(error));
+  }
+};
@@ -0,0 +1,142 @@
+import { afterEach, describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import { isSuccess } from "@joyautomation/dark-matter";
+import {
+  denoRuntime,
+  getProcessRuntime,
+  isProgramNotFound,
+  nodeRuntime,
+  ProcessRuntime,
+  setProcessRuntime,
+} from "./runtime.ts";
+import {
+  getCommandError,
+  getErrorKind,
+  runCommand,
+  streamCommandLines,
+} from "./command.ts";
+
+const readText = (stream: ReadableStream<Uint8Array>) =>
+  new Response(stream).text();
+
+describe("getProcessRuntime", () => {
+  it("should select the runtime the library was imported in", () => {
+    expect(getProcessRuntime()).toBe(denoRuntime);
+  });
+});
+
+for (const runtime of [denoRuntime, nodeRuntime]) {
+  describe(`${runtime.name}Runtime`, () => {
+    it("should run a program and report its output and status", async () => {
+      const child = runtime.spawn("sh", {
+        args: ["-c", "echo out; echo err >&2; exit 3"],
+      });
+      const [stdout, stderr, status] = await Promise.all([
+        readText(child.stdout),
+        readText(child.stderr),
+        child.status,
+      ]);
+      expect(stdout).toBe("out\n");
+      expect(stderr).toBe("err\n");
+      expect(status).toEqual({ code: 3, signal: null });
+    });
+
+    it("should pass the environment and working directory", async () => {
+      const child = runtime.spawn("sh", {
+        args: ["-c", "echo $GREETING; pwd"],
+        env: { GREETING: "hi" },
+        cwd: "/",
+        stderr: "null",
+      });
+      expect(await readText(child.stdout)).toBe("hi\n/\n");
+    });
+
+    it("should report the signal that killed a program", async () => {
+      const child = runtime.spawn("sleep", { args: ["10"], stderr: "null" });
+      child.kill("SIGKILL");
+      await readText(child.stdout);
+      expect(await child.status).toEqual({ code: 137, signal: "SIGKILL" });
+      // Killing an exited process does nothing
+      child.kill();
+    });
+
+    it("should read streams that are not piped as empty", async () => {
+      const child = runtime.spawn("true", { stdout: "null", stderr: "null" });
+      expect(await readText(child.stdout)).toBe("");
+      expect(await readText(child.stderr)).toBe("");
+      expect((await child.status).code).toBe(0);
+    });
+
+    it("should recognize a missing program", async () => {
+      const error = await (async () => {
+        try {
+          await runtime.spawn("statocyst-no-such-tool", {}).status;
+        } catch (error) {
+          return error;
+        }
+      })();
+      expect(isProgramNotFound(error)).toBe(true);
+    });
+
+    it("should hold an exclusive flock until released", async () => {
+      const path = await Deno.makeTempFile();
+      try {
+        const unlock = await runtime.lockFile(path);
+        const locked = await runCommand("flock", {
+          args: ["-n", path, "true"],
+        });
+        expect(getCommandError(locked)?.exitCode).toBe(1);
+        await unlock();
+        const unlocked = await runCommand("flock", {
+          args: ["-n", path, "true"],
+        });
+        expect(isSuccess(unlocked)).toBe(true);
+      } finally {
+        await Deno.remove(path);
+      }
+    });
+
+    it("should fail to lock a file that cannot be created", async () => {
+      await expect(runtime.lockFile("/nonexistent/statocyst.lock")).rejects
+        .toThrow();
+    });
+  });
+}
+
+describe("command layer on Node.js primitives", () => {
+  let previous: ProcessRuntime | undefined;
+  afterEach(() => {
+    if (previous) setProcessRuntime(previous);
+  });
+  const useNode = () => {
+    previous = getProcessRuntime();
+    setProcessRuntime(nodeRuntime);
+  };
+
+  it("should run commands with the same Results", async () => {
+    useNode();
+    const result = await runCommand("sh", { args: ["-c", "echo hello"] });
+    expect(isSuccess(result) && result.output).toBe("hello\n");
+    const failed = await runCommand("sh", { args: ["-c", "exit 4"] });
+    expect(getCommandError(failed)?.exitCode).toBe(4);
+    const missing = await runCommand("statocyst-no-such-tool");
+    expect(getErrorKind(missing)).toBe("not-installed");
+  });
+
+  it("should kill commands that time out", async () => {
+    useNode();
+    const result = await runCommand("sleep", { args: ["10"], timeout: 50 });
+    expect(getErrorKind(result)).toBe("timeout");
+  });
+
+  it("should stream output", async () => {
+    useNode();
+    const lines = [];
+    for await (
+      const line of streamCommandLines("sh", { args: ["-c", "echo a; echo b"] })
+    ) {
+      lines.push(line);
+    }
+    expect(lines).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,342 @@
+import { spawn as spawnChild } from "node:child_process";
+import { constants } from "node:os";
+import process from "node:process";
+import { Readable } from "node:stream";
+import { fileURLToPath } from "node:url";
+
+/**
+ * Name of a POSIX signal, e.g. "SIGTERM".
+ */
+export type ProcessSignal = `SIG${string}`;
+
+/**
+ * What a standard stream of a process is connected to.
+ *
+ * - `"piped"`: readable (or writable, for stdin) by the caller
+ * - `"inherit"`: shared with the current process
+ * - `"null"`: discarded, or empty for stdin
+ */
+export type ProcessStdio = "piped" | "inherit" | "null";
+
+/**
+ * Options for running a process, the same on every runtime.
+ */
+export interface ProcessOptions {
+  /** Arguments passed to the program */
+  args?: string[];
+  /** Working directory of the process */
+  cwd?: string | URL;
+  /** Environment variables added to (or, with clearEnv, replacing) the current ones */
+  env?: Record<string, string>;
+  /** Whether to start from an empty environment instead of the current one */
+  clearEnv?: boolean;
+  /** User id to run the process as */
+  uid?: number;
+  /** Group id to run the process as */
+  gid?: number;
+  /** Signal that kills the process when aborted */
+  signal?: AbortSignal;
+  /** Where stdin comes from (default: "null") */
+  stdin?: ProcessStdio;
+  /** Where stdout goes (default: "piped") */
+  stdout?: ProcessStdio;
+  /** Where stderr goes (default: "piped") */
+  stderr?: ProcessStdio;
+}
+
+/**
+ * How a process ended.
+ */
+export interface ProcessStatus {
+  /** Exit code (128 plus the signal number when killed by a signal) */
+  code: number;
+  /** Signal that terminated the process, or null if it exited by itself */
+  signal: ProcessSignal | null;
+}
+
+/**
+ * A running process started by a ProcessRuntime.
+ */
+export interface SpawnedProcess {
+  /** Standard output; empty unless piped */
+  stdout: ReadableStream<Uint8Array>;
+  /** Standard error; empty unless piped */
+  stderr: ReadableStream<Uint8Array>;
+  /**
+   * Resolves when the process exits; rejects if the program could not be
+   * started (see isProgramNotFound)
+   */
+  status: Promise<ProcessStatus>;
+  /** Sends a signal (default: SIGTERM); does nothing once the process exited */
+  kill(signal?: ProcessSignal): void;
+}
+
+/**
+ * The process primitives of a JavaScript runtime the command layer is built
+ * on.
+ */
+export interface ProcessRuntime {
+  /** The runtime these primitives use */
+  name: "deno" | "node" | "bun";
+  /**
+   * Starts a program. Aborting the `signal` option is left to the caller.
+   * Throws, or rejects `status`, if the program cannot be started.
+   */
+  spawn(
+    command: string | URL,
+    options: Omit<ProcessOptions, "signal">,
+  ): SpawnedProcess;
+  /** User id of the current process, or null where there is none */
+  uid(): number | null;
+  /**
+   * Waits for an exclusive flock on a file, creating it if missing, and
+   * resolves to a function releasing it again
+   */
+  lockFile(path: string): Promise<() => Promise<void>>;
+}
+
+const emptyStream = (): ReadableStream<Uint8Array> =>
+  new ReadableStream({ start: (controller) => controller.close() });
+
+// Shells report a process killed by signal N with exit code 128 + N
+const signalExitCode = (signal: string): number =>
+  128 + (constants.signals[signal as keyof typeof constants.signals] ?? 0);
+
+const pathOf = (command: string | URL): string =>
+  command instanceof URL ? fileURLToPath(command) : command;
+
+/**
+ * Whether an error thrown by a runtime or executor means the program to run
+ * does not exist.
+ *
+ * @param error - The thrown error
+ * @returns True for Deno's NotFound error and errors with code ENOENT
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await getProcessRuntime().spawn("no-such-tool", {}).status;
+ * } catch (error) {
+ *   isProgramNotFound(error); // true
+ * }
+ * ```
+ */
+export const isProgramNotFound = (error: unknown): boolean =>
+  (typeof Deno !== "undefined" && error instanceof Deno.errors.NotFound) ||
+  (error instanceof Error && "code" in error && error.code === "ENOENT");
+
+/**
+ * Process primitives for Deno, using Deno.Command.
+ */
+export const denoRuntime: ProcessRuntime = {
+  name: "deno",
+  spawn: (command, options) => {
+    const stdout = options.stdout ?? "piped";
+    const stderr = options.stderr ?? "piped";
+    const child = new Deno.Command(command, {
+      ...options,
+      stdin: options.stdin ?? "null",
+      stdout,
+      stderr,
+    }).spawn();
+    return {
+      // Deno throws when reading a stream that is not piped
+      stdout: stdout === "piped" ? child.stdout : emptyStream(),
+      stderr: stderr === "piped" ? child.stderr : emptyStream(),
+      status: child.status.then(({ code, signal }) => ({ code, signal })),
+      kill: (signal = "SIGTERM") => {
+        try {
+          child.kill(signal as Deno.Signal);
+        } catch {
+          // The process has already exited
+        }
+      },
+    };
+  },
+  uid: () => Deno.uid(),
+  lockFile: async (path) => {
+    const file = await Deno.open(path, { create: true, write: true });
+    try {
+      await file.lock(true);
+    } catch (error) {
+      file.close();
+      throw error;
+    }
+    return () => Promise.resolve(file.close());
+  },
+};
+
+// Names of ProcessStdio values for node:child_process and Bun.spawn
+const STDIO_NAMES = {
+  piped: "pipe",
+  inherit: "inherit",
+  null: "ignore",
+} as const;
+
+/**
+ * Takes a flock with the flock(1) utility, for runtimes without a file
+ * locking API. flock holds the lock while `cat` waits on stdin, so closing
+ * stdin, or this process exiting, releases it.
+ */
+const lockWithFlockCommand = (path: string): Promise<() => Promise<void>> =>
+  new Promise((resolve, reject) => {
+    const child = spawnChild("flock", [path, "-c", "echo locked; exec cat"], {
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    let stderr = "";
+    child.stderr.on("data", (chunk) => stderr += chunk);
+    child.once("error", reject);
+    child.once(
+      "exit",
+      (code) =>
+        reject(new Error(stderr.trim() || `flock exited with code ${code}`)),
+    );
+    child.stdout.once("data", () =>
+      resolve(() =>
+        new Promise((released) => {
+          child.once("exit", () => released());
+          child.stdin.end();
+        })
+      ));
+  });
+
+/**
+ * Process primitives for Node.js, using node:child_process.
+ *
+ * File locks are taken with the flock(1) utility from util-linux.
+ */
+export const nodeRuntime: ProcessRuntime = {
+  name: "node",
+  spawn: (command, options) => {
+    const child = spawnChild(pathOf(command), options.args ?? [], {
+      ...(options.cwd ? { cwd: pathOf(options.cwd) } : {}),
+      env: options.clearEnv
+        ? options.env ?? {}
+        : { ...process.env, ...options.env },
+      ...(options.uid !== undefined ? { uid: options.uid } : {}),
+      ...(options.gid !== undefined ? { gid: options.gid } : {}),
+      stdio: [
+        STDIO_NAMES[options.stdin ?? "null"],
+        STDIO_NAMES[options.stdout ?? "piped"],
+        STDIO_NAMES[options.stderr ?? "piped"],
+      ],
+    });
+    const toWeb = (stream: Readable | null) =>
+      stream
+        ? Readable.toWeb(stream) as unknown as ReadableStream<Uint8Array>
+        : emptyStream();
+    return {
+      stdout: toWeb(child.stdout),
+      stderr: toWeb(child.stderr),
+      status: new Promise((resolve, reject) => {
+        child.once("error", reject);
+        child.once("exit", (code, signal) =>
+          resolve({
+            code: code ?? signalExitCode(signal ?? ""),
+            signal: signal as ProcessSignal | null,
+          }));
+      }),
+      kill: (signal = "SIGTERM") => {
+        // Returns false instead of throwing once the process has exited
+        child.kill(signal as NodeJS.Signals);
+      },
+    };
+  },
+  uid: () => process.getuid?.() ?? null,
+  lockFile: lockWithFlockCommand,
+};
+
+/**
+ * The parts of Bun.spawn the Bun runtime uses.
+ */
+interface BunSubprocess {
+  stdout: ReadableStream<Uint8Array> | number | undefined;
+  stderr: ReadableStream<Uint8Array> | number | undefined;
+  exited: Promise<number>;
+  signalCode: string | null;
+  kill(signal?: string): void;
+}
+
+/**
+ * Process primitives for Bun, using Bun.spawn.
+ *
+ * Processes with the `uid` or `gid` option, which Bun.spawn does not
+ * support, and file locks use Bun's node:child_process instead.
+ */
+export const bunRuntime: ProcessRuntime = {
+  name: "bun",
+  spawn: (command, options) => {
+    if (options.uid !== undefined || options.gid !== undefined) {
+      return nodeRuntime.spawn(command, options);
+    }
+    const { Bun } = globalThis as unknown as {
+      Bun: {
+        spawn(
+          cmd: string[],
+          options: Record<string, unknown>,
+        ): BunSubprocess;
+      };
+    };
+    const child = Bun.spawn([pathOf(command), ...options.args ?? []], {
+      ...(options.cwd ? { cwd: pathOf(options.cwd) } : {}),
+      env: options.clearEnv
+        ? options.env ?? {}
+        : { ...process.env, ...options.env },
+      stdin: STDIO_NAMES[options.stdin ?? "null"],
+      stdout: STDIO_NAMES[options.stdout ?? "piped"],
+      stderr: STDIO_NAMES[options.stderr ?? "piped"],
+    });
+    const streamOf = (stream: BunSubprocess["stdout"]) =>
+      stream instanceof ReadableStream ? stream : emptyStream();
+    return {
+      stdout: streamOf(child.stdout),
+      stderr: streamOf(child.stderr),
+      status: child.exited.then((code) => ({
+        code: child.signalCode ? signalExitCode(child.signalCode) : code,
+        signal: child.signalCode as ProcessSignal | null,
+      })),
+      kill: (signal = "SIGTERM") => child.kill(signal),
+    };
+  },
+  uid: () => process.getuid?.() ?? null,
+  lockFile: lockWithFlockCommand,
+};
+
+const detectProcessRuntime = (): ProcessRuntime =>
+  "Deno" in globalThis
+    ? denoRuntime
+    : "Bun" in globalThis
+    ? bunRuntime
+    : nodeRuntime;
+
+let processRuntime = detectProcessRuntime();
+
+/**
+ * Returns the process primitives commands run with.
+ *
+ * This is chosen when the library is imported: denoRuntime on Deno,
+ * bunRuntime on Bun and nodeRuntime otherwise.
+ *
+ * @returns The current runtime
+ *
+ * @example
+ * ```ts
+ * console.log(getProcessRuntime().name); // e.g. "node"
+ * ```
+ */
+export const getProcessRuntime = (): ProcessRuntime => processRuntime;
+
+/**
+ * Replaces the process primitives commands run with, e.g. to use
+ * node:child_process on Deno or Bun.
+ *
+ * @param runtime - The new runtime
+ *
+ * @example
+ * ```ts
+ * setProcessRuntime(nodeRuntime);
+ * ```
+ */
+export const setProcessRuntime = (runtime: ProcessRuntime): void => {
+  processRuntime = runtime;
+};
@@ -0,0 +1,142 @@
+import { afterAll, beforeAll, describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import { isSuccess } from "@joyautomation/dark-matter";
+import {
+  CommandExecutor,
+  getCommandError,
+  getPrivilegeStrategy,
+  processExecutor,
+  runCommand,
+} from "../command.ts";
+import {
+  buildRemoteCommand,
+  buildSshArgs,
+  createSshExecutor,
+  quoteShellArgument,
+  withSshHost,
+} from "./command.ts";
+
+// Stands in for ssh and sshd: runs the remote command line with a local shell
+const SSH_STAND_IN = `#!/bin/sh
+for last; do :; done
+exec sh -c "$last"
+`;
+
+describe("buildSshArgs", () => {
+  it("should share connections and select the destination", () => {
+    expect(buildSshArgs({ host: "edge-07", user: "ops", port: 2222 })).toEqual([
+      "-o",
+      "BatchMode=yes",
+      "-o",
+      "ControlMaster=auto",
+      "-o",
+      "ControlPath=~/.ssh/statocyst-%C",
+      "-o",
+      "ControlPersist=60",
+      "-p",
+      "2222",
+      "ops@edge-07",
+    ]);
+  });
+
+  it("should open a new connection per command without controlPersist", () => {
+    expect(
+      buildSshArgs({
+        host: "edge-07",
+        controlPersist: false,
+        options: { StrictHostKeyChecking: "accept-new" },
+      }),
+    ).toEqual([
+      "-o",
+      "BatchMode=yes",
+      "-o",
+      "StrictHostKeyChecking=accept-new",
+      "edge-07",
+    ]);
+  });
+});
+
+describe("buildRemoteCommand", () => {
+  it("should quote arguments and apply cwd and env", () => {
+    expect(
+      buildRemoteCommand("nft", {
+        args: ["add", "rule", "ip", "filter", "INPUT", "tcp dport 22 accept"],
+        cwd: "/var/tmp",
+        env: { LANG: "C" },
+      }),
+    ).toBe(
+      "cd /var/tmp && env LANG=C nft add rule ip filter INPUT 'tcp dport 22 accept'",
+    );
+    expect(quoteShellArgument("it's")).toBe(`'it'\\''s'`);
+  });
+});
+
+describe("createSshExecutor", () => {
+  let sshCommand: string;
+  beforeAll(async () => {
+    sshCommand = await Deno.makeTempFile();
+    await Deno.writeTextFile(sshCommand, SSH_STAND_IN);
+    await Deno.chmod(sshCommand, 0o755);
+  });
+  afterAll(() => Deno.remove(sshCommand));
+
+  it("should run commands remotely with arguments intact", async () => {
+    const executor = createSshExecutor({ host: "edge-07", sshCommand });
+    const args = ["%s|", "a b", "it's", "$HOME", "*"];
+    const result = await executor("printf", { args });
+    expect(result.stdout).toBe("a b|it's|$HOME|*|");
+    expect(result.argv).toEqual(["printf", ...args]);
+  });
+
+  it("should fail without a CommandError when ssh cannot connect", async () => {
+    const unreachable: CommandExecutor = (_, options) =>
+      processExecutor("sh", {
+        ...options,
+        args: [
+          "-c",
+          "echo 'ssh: connect to host edge-07: timed out' >&2; exit 255",
+        ],
+      });
+    const result = await runCommand("ip", {
+      args: ["link"],
+      executor: createSshExecutor({ host: "edge-07" }, unreachable),
+    });
+    expect(isSuccess(result)).toBe(false);
+    expect(getCommandError(result)).toBeUndefined();
+    expect(!isSuccess(result) && result.error).toContain(
+      "connect to host edge-07: timed out",
+    );
+  });
+
+  it("should report remote failures as CommandErrors", async () => {
+    const result = await runCommand("sh", {
+      args: ["-c", "echo denied >&2; exit 4"],
+      executor: createSshExecutor({ host: "edge-07", sshCommand }),
+    });
+    expect(getCommandError(result)?.exitCode).toBe(4);
+    expect(getCommandError(result)?.message).toBe("denied");
+  });
+
+  it("should report a remote exit status of 255 as a CommandError", async () => {
+    const result = await runCommand("sh", {
+      args: ["-c", "echo gone >&2; exit 255"],
+      executor: createSshExecutor({ host: "edge-07", sshCommand }),
+    });
+    expect(getCommandError(result)?.exitCode).toBe(255);
+    expect(getCommandError(result)?.stderr).toBe("gone\n");
+  });
+
+  it("should route every command and pick the host's privilege strategy", async () => {
+    const result = await withSshHost(
+      { host: "edge-07", user: "ops", sshCommand },
+      async () => {
+        expect(getPrivilegeStrategy()).toBe("sudo");
+        return await runCommand("echo", { args: ["remote"] });
+      },
+    );
+    expect(isSuccess(result) && result.output).toBe("remote\n");
+    await withSshHost({ host: "edge-07", user: "root", sshCommand }, () => {
+      expect(getPrivilegeStrategy()).toBe("none");
+    });
+  });
+});
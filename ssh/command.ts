@@ -0,0 +1,210 @@
+import { Result } from "@joyautomation/dark-matter";
+import {
+  CommandExecutor,
+  processExecutor,
+  ProcessOptions,
+  runCommandAndProcessOutput,
+  withCommandExecutor,
+  withPrivilegeStrategy,
+} from "../command.ts";
+import { SshHost } from "./types.ts";
+
+// ssh creates ~/.ssh with mode 0700 if it is missing, so other local users
+// cannot plant a socket there
+const DEFAULT_CONTROL_PATH = "~/.ssh/statocyst-%C";
+const DEFAULT_CONTROL_PERSIST = 60;
+// ssh reserves exit status 255 for its own errors (connection, auth, ...)
+const SSH_ERROR_EXIT_CODE = 255;
+// Last stderr line the remote shell prints with the command's exit status
+const EXIT_STATUS_MARKER = "statocyst-exit-status:";
+const EXIT_STATUS_PATTERN = new RegExp(`\n?${EXIT_STATUS_MARKER}(\\d+)\n$`);
+
+/**
+ * Quotes an argument for a POSIX shell.
+ *
+ * @param argument - The argument to quote
+ * @returns The argument, single-quoted unless it only contains safe characters
+ *
+ * @example
+ * ```ts
+ * quoteShellArgument("it's"); // "'it'\''s'"
+ * ```
+ */
+export const quoteShellArgument = (argument: string): string =>
+  /^[\w@%+=:,./-]+$/.test(argument)
+    ? argument
+    : `'${argument.replaceAll("'", `'\\''`)}'`;
+
+/**
+ * Builds the ssh arguments that select and connect to a host, up to and
+ * including the destination.
+ *
+ * Batch mode is always on so a missing key fails instead of prompting, and
+ * connections are shared through a ControlMaster socket unless
+ * `controlPersist` is false.
+ *
+ * @param host - The host to connect to
+ * @returns The argument list to pass to ssh before the remote command
+ */
+export const buildSshArgs = (host: SshHost): string[] => [
+  "-o",
+  "BatchMode=yes",
+  ...(host.controlPersist === false ? [] : [
+    "-o",
+    "ControlMaster=auto",
+    "-o",
+    `ControlPath=${host.controlPath ?? DEFAULT_CONTROL_PATH}`,
+    "-o",
+    `ControlPersist=${host.controlPersist ?? DEFAULT_CONTROL_PERSIST}`,
+  ]),
+  ...(host.port !== undefined ? ["-p", String(host.port)] : []),
+  ...(host.identityFile ? ["-i", host.identityFile] : []),
+  ...Object.entries(host.options ?? {}).flatMap(([key, value]) => [
+    "-o",
+    `${key}=${value}`,
+  ]),
+  host.user ? `${host.user}@${host.host}` : host.host,
+];
+
+/**
+ * Builds the shell command line that runs a command on the remote host.
+ *
+ * ssh hands the remote side a single string for its login shell, so every
+ * argument is quoted. The `cwd` and `env` options are applied remotely.
+ *
+ * @param command - The command to run
+ * @param options - Its options, as for runCommand
+ * @returns The remote command line
+ *
+ * @example
+ * ```ts
+ * buildRemoteCommand("nft", { args: ["add", "rule", "ip", "filter", "INPUT", "tcp dport 22 accept"] });
+ * // "nft add rule ip filter INPUT 'tcp dport 22 accept'"
+ * ```
+ */
+export const buildRemoteCommand = (
+  command: string | URL,
+  options: ProcessOptions = {},
+): string => {
+  const env = Object.entries(options.env ?? {}).map(([key, value]) =>
+    `${key}=${value}`
+  );
+  const commandLine = [
+    ...(env.length > 0 ? ["env", ...env] : []),
+    String(command),
+    ...(options.args ?? []).map(String),
+  ].map(quoteShellArgument).join(" ");
+  return options.cwd
+    ? `cd ${quoteShellArgument(String(options.cwd))} && ${commandLine}`
+    : commandLine;
+};
+
+/**
+ * Creates an executor that runs commands on a remote host over SSH.
+ *
+ * Outputs report the command as it was requested, not the ssh invocation, so
+ * failures and recordings read the same as for local commands. The executor's
+ * `host` names the destination, e.g. "ops@edge-07:2222". Aborting the
+ * `signal` option kills the local ssh process. If ssh itself fails (host
+ * unreachable, authentication refused), the executor throws, which fails the
+ * Result like a command that cannot be started.
+ *
+ * The remote shell appends the command's exit status to stderr, where the
+ * executor removes it again, so a remote command exiting with 255 is told
+ * apart from ssh's own errors.
+ *
+ * @param host - The host to run commands on
+ * @param inner - Executor that runs ssh locally (default: processExecutor)
+ * @returns The SSH executor
+ *
+ * @example
+ * ```ts
+ * const executor = createSshExecutor({ host: "edge-07", user: "ops" });
+ * const result = await runCommand("ip", { args: ["-j", "route"], executor });
+ * ```
+ */
+export const createSshExecutor = (
+  host: SshHost,
+  inner: CommandExecutor = processExecutor,
+): CommandExecutor =>
+  Object.assign(async (command: string | URL, options: ProcessOptions) => {
+    const output = await inner(host.sshCommand ?? "ssh", {
+      args: [
+        ...buildSshArgs(host),
+        "--",
+        `${
+          buildRemoteCommand(command, options)
+        }; s=$?; printf '\\n${EXIT_STATUS_MARKER}%d\\n' "$s" >&2; exit "$s"`,
+      ],
+      signal: options.signal,
+      stdout: options.stdout,
+      stderr: options.stderr,
+    });
+    const status = output.stderr.match(EXIT_STATUS_PATTERN);
+    if (!status && output.exitCode === SSH_ERROR_EXIT_CODE) {
+      throw new Error(
+        `ssh to ${host.host} failed: ${
+          output.stderr.trim() || `exit code ${output.exitCode}`
+        }`,
+      );
+    }
+    return {
+      ...output,
+      argv: [String(command), ...(options.args ?? []).map(String)],
+      ...(status
+        ? {
+          exitCode: Number(status[1]),
+          stderr: output.stderr.slice(0, status.index),
+        }
+        : {}),
+    };
+  }, {
+    host: `${host.user ? `${host.user}@` : ""}${host.host}${
+      host.port !== undefined ? `:${host.port}` : ""
+    }`,
+  });
+
+/**
+ * Runs a function with every command it starts, in every module, executed on
+ * a remote host over SSH.
+ *
+ * Commands needing root are elevated with the host's privilege strategy.
+ * Concurrent callers are not affected, so several hosts can be managed side
+ * by side. Streaming functions (streamCommand and those built on it, such as
+ * streamPackets and startRingBufferCapture) are not supported and fail with
+ * kind "unsupported".
+ *
+ * @param host - The host to run commands on
+ * @param fn - The function to run
+ * @returns Whatever `fn` returns
+ *
+ * @example
+ * ```ts
+ * const edge = { host: "10.20.0.7", user: "ops", privilege: "sudo" } as const;
+ * const addresses = await withSshHost(edge, () => getIpAddresses());
+ * const rules = await withSshHost(edge, () => getRules({ timeout: 10_000 }));
+ * ```
+ */
+export const withSshHost = <T>(host: SshHost, fn: () => T): T =>
+  withCommandExecutor(
+    createSshExecutor(host),
+    () =>
+      withPrivilegeStrategy(
+        host.privilege ?? (host.user === "root" ? "none" : "sudo"),
+        fn,
+      ),
+  );
+
+/**
+ * Closes the shared connection to a host.
+ *
+ * @param host - The host to disconnect from
+ * @returns A Promise resolving to a Result indicating success or failure;
+ *          it fails if no shared connection is open
+ */
+export const closeSshConnection = (host: SshHost): Promise<Result<void>> =>
+  runCommandAndProcessOutput<void>(undefined, host.sshCommand ?? "ssh", {
+    args: ["-O", "exit", ...buildSshArgs(host)],
+    // Always the local ssh, even when called within withSshHost
+    executor: processExecutor,
+  });
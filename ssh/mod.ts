@@ -0,0 +1,27 @@
+/**
+ * @module
+ *
+ * Remote command execution over SSH.
+ *
+ * This module runs the typed functions of the other modules against remote
+ * Linux hosts, reusing one connection per host, so Deno only needs to be
+ * installed on the managing machine.
+ *
+ * @example
+ * ```ts
+ * import { withSshHost } from "@joyautomation/statocyst/ssh";
+ * import { getIpAddresses } from "@joyautomation/statocyst/ip";
+ * import { isSuccess } from "@joyautomation/dark-matter";
+ *
+ * const result = await withSshHost(
+ *   { host: "edge-07", user: "ops" },
+ *   () => getIpAddresses(),
+ * );
+ * if (isSuccess(result)) {
+ *   console.log(result.output.map((entry) => entry.ifname));
+ * }
+ * ```
+ */
+
+export * from "./types.ts";
+export * from "./command.ts";
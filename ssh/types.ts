@@ -0,0 +1,40 @@
+import { PrivilegeStrategy } from "../command.ts";
+
+// Types for running commands on remote hosts over SSH
+
+/**
+ * A remote Linux host commands can be run on over SSH.
+ *
+ * Authentication must work without interaction (keys or an agent); ssh runs
+ * in batch mode and fails instead of prompting.
+ */
+export interface SshHost {
+  /** Host name or address */
+  host: string;
+  /** Remote user (default: ssh's own default, usually the local user) */
+  user?: string;
+  /** SSH port (default: 22, or as configured in ~/.ssh/config) */
+  port?: number;
+  /** Private key file to authenticate with */
+  identityFile?: string;
+  /** Additional `-o` options, e.g. `{ StrictHostKeyChecking: "accept-new" }` */
+  options?: Record<string, string>;
+  /**
+   * How commands needing root are elevated on this host (default: "none"
+   * when logging in as root, "sudo" otherwise)
+   */
+  privilege?: PrivilegeStrategy;
+  /**
+   * Seconds an idle shared connection is kept open (default: 60), or false
+   * to open a new connection for every command
+   */
+  controlPersist?: number | false;
+  /**
+   * Socket path for the shared connection, with ssh's `%` tokens
+   * (default: "~/.ssh/statocyst-%C"); keep it in a directory only the
+   * current user can write to
+   */
+  controlPath?: string;
+  /** ssh binary to run (default: "ssh") */
+  sshCommand?: string;
+}
@@ -1,5 +1,10 @@
 import { isSuccess, Result, ResultSuccess } from "@joyautomation/dark-matter";
 import { expect } from "@std/expect/expect";
+import {
+  createReplayExecutor,
+  loadCommandRecordings,
+  withCommandExecutor,
+} from "./command.ts";
 
 export const resultIsSuccessAndMatches = <T>(
   result: Result<T>,
@@ -12,3 +17,38 @@ export const resultIsSuccessAndMatches = <T>(
     expect(beforeCheck(result)).toBe(expected);
   }
 };
+
+/**
+ * Runs a function with commands answered from a recorded fixture file
+ * instead of the host, so wrappers can be tested without root.
+ */
+export const withRecordedCommands = async <T>(
+  fixture: URL,
+  fn: () => Promise<T>,
+): Promise<T> => {
+  const recordings = await loadCommandRecordings(fixture);
+  if (!isSuccess(recordings)) throw new Error(recordings.error);
+  return withCommandExecutor(createReplayExecutor(recordings.output), fn);
+};
+
+/**
+ * Runs a function with shell scripts standing in for programs, found first on
+ * PATH, so wrappers that spawn a tool directly can be tested without it.
+ */
+export const withStandInPrograms = async <T>(
+  programs: Record<string, string>,
+  fn: () => Promise<T>,
+): Promise<T> => {
+  const directory = await Deno.makeTempDir();
+  const path = Deno.env.get("PATH") ?? "";
+  try {
+    for (const [name, script] of Object.entries(programs)) {
+      await Deno.writeTextFile(`${directory}/${name}`, script, { mode: 0o755 });
+    }
+    Deno.env.set("PATH", `${directory}:${path}`);
+    return await fn();
+  } finally {
+    Deno.env.set("PATH", path);
+    await Deno.remove(directory, { recursive: true });
+  }
+};
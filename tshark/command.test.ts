@@ -0,0 +1,262 @@
+import { beforeEach, describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import { CommandError } from "../command.ts";
+import { clearToolCapabilities } from "../capabilities/command.ts";
+import {
+  buildCaptureArgs,
+  buildReadArgs,
+  classifyTsharkError,
+  fromEkPacket,
+  parseTsharkJson,
+  readCaptureFile,
+  streamPackets,
+  summarizeCaptureFile,
+  summarizePackets,
+  toTsharkPacket,
+} from "./command.ts";
+import { isCaptureSummary, isTsharkPacketList } from "./types.ts";
+import {
+  resultIsSuccessAndMatches,
+  withRecordedCommands,
+  withStandInPrograms,
+} from "../testUtils.ts";
+
+const fixturePath = (name: string) =>
+  new URL(`./fixtures/${name}`, import.meta.url).pathname;
+
+const readFixture = (name: string) => Deno.readTextFile(fixturePath(name));
+
+describe("parseTsharkJson", () => {
+  it("should return typed packets", async () => {
+    const packets = parseTsharkJson(await readFixture("capture.json"));
+    expect(isTsharkPacketList(packets)).toBe(true);
+    expect(packets.length).toBe(3);
+  });
+  it("should extract IPv4 addressing and ports", async () => {
+    const [packet] = parseTsharkJson(await readFixture("capture.json"));
+    expect(packet.number).toBe(1);
+    expect(packet.timestamp).toBe("2024-03-01T12:00:00.000Z");
+    expect(packet.source).toBe("192.168.1.10");
+    expect(packet.destination).toBe("192.168.1.20");
+    expect(packet.sourcePort).toBe(49152);
+    expect(packet.destinationPort).toBe(502);
+    expect(packet.protocol).toBe("tcp");
+  });
+  it("should extract IPv6 addressing and UDP ports", async () => {
+    const packet = parseTsharkJson(await readFixture("capture.json"))[1];
+    expect(packet.source).toBe("fe80::5054:ff:fe12:3456");
+    expect(packet.destination).toBe("ff02::fb");
+    expect(packet.destinationPort).toBe(5353);
+    expect(packet.protocol).toBe("dns");
+  });
+  it("should fall back to MAC addresses for non-IP traffic", async () => {
+    const packet = parseTsharkJson(await readFixture("capture.json"))[2];
+    expect(packet.source).toBe("52:54:00:12:34:56");
+    expect(packet.destination).toBe("ff:ff:ff:ff:ff:ff");
+    expect(packet.sourcePort).toBe(undefined);
+  });
+  it("should treat empty output as an empty capture", () => {
+    expect(parseTsharkJson("")).toEqual([]);
+  });
+});
+
+// A Modbus/TCP request as printed by `tshark -T ek`: an index line, then the
+// packet document
+const EK_OUTPUT = `{"index":{"_index":"packets-2024-03-01","_type":"doc"}}
+{"timestamp":"1709294700123","layers":{"frame":{"frame_frame_time_epoch":"1709294700.123456000","frame_frame_number":"1","frame_frame_len":"66","frame_frame_protocols":"eth:ethertype:ip:tcp:mbtcp:modbus"},"ip":{"ip_ip_src":"192.168.1.10","ip_ip_dst":"192.168.1.20","ip_ip_flags_tree":{"ip_ip_flags_df":true}},"tcp":{"tcp_tcp_srcport":"50000","tcp_tcp_dstport":502},"mbtcp":{"mbtcp_mbtcp_trans_id":"1","mbtcp_mbtcp_prot_id":"0","mbtcp_mbtcp_len":"6","mbtcp_mbtcp_unit_id":"1"},"modbus":{"modbus_modbus_func_code":"3","modbus_modbus_reference_num":"0","modbus_modbus_word_cnt":"2"}}}
+`;
+
+describe("fromEkPacket", () => {
+  it("should restore field names and render values as strings", () => {
+    const [index, document] = EK_OUTPUT.trim().split("\n").map((line) =>
+      JSON.parse(line)
+    );
+    expect(fromEkPacket(index)).toBe(undefined);
+    const packet = fromEkPacket(document, "packets-2024-03-01");
+    expect(packet?._index).toBe("packets-2024-03-01");
+    expect(packet?._source.layers.ip).toEqual({
+      "ip.src": "192.168.1.10",
+      "ip.dst": "192.168.1.20",
+      "ip.flags_tree": { "ip.flags_df": "true" },
+    });
+    const typed = packet && toTsharkPacket(packet);
+    expect(typed?.destinationPort).toBe(502);
+    expect(typed?.modbus).toMatchObject({ unitId: 1, functionCode: 3 });
+  });
+});
+
+describe("streamPackets", () => {
+  beforeEach(() => clearToolCapabilities());
+  const standIn = (version: string) => ({
+    tshark: `#!/bin/sh
+if [ "$1" = "-v" ]; then echo "${version}"; exit 0; fi
+case "$*" in
+  "-l -i eth0 -c 1 -Q -T ek") ;;
+  *) echo "tshark: unexpected arguments: $*" >&2; exit 1 ;;
+esac
+cat <<'EOF'
+${EK_OUTPUT}EOF
+`,
+  });
+
+  it("should yield packets from line-delimited EK output", async () => {
+    const packets = await withStandInPrograms(
+      standIn("TShark (Wireshark) 4.0.11 (Git v4.0.11 packaged as 4.0.11-1)."),
+      () => Array.fromAsync(streamPackets({ interface: "eth0", count: 1 })),
+    );
+    expect(packets.map(({ source, destination, protocol }) => ({
+      source,
+      destination,
+      protocol,
+    }))).toEqual([{
+      source: "192.168.1.10",
+      destination: "192.168.1.20",
+      protocol: "modbus",
+    }]);
+  });
+
+  it("should fail before capturing when tshark lacks EK output", async () => {
+    const error = await withStandInPrograms(
+      standIn("TShark 1.10.6 (v1.10.6 from master-1.10)"),
+      async () => {
+        try {
+          await Array.fromAsync(streamPackets({ interface: "eth0", count: 1 }));
+        } catch (error) {
+          return error;
+        }
+      },
+    );
+    expect(error).toBeInstanceOf(CommandError);
+    expect((error as CommandError).kind).toBe("unsupported");
+  });
+});
+
+describe("buildCaptureArgs", () => {
+  it("should include the capture filter and stop conditions", () => {
+    expect(
+      buildCaptureArgs({
+        interface: "eth0",
+        count: 10,
+        duration: 5,
+        filter: "tcp port 80",
+      }),
+    ).toEqual([
+      "-i",
+      "eth0",
+      "-c",
+      "10",
+      "-a",
+      "duration:5",
+      "-f",
+      "tcp port 80",
+      "-Q",
+      "-T",
+      "json",
+      "--no-duplicate-keys",
+    ]);
+  });
+});
+
+describe("buildReadArgs", () => {
+  it("should include the display filter", () => {
+    expect(buildReadArgs({ path: "in.pcap", filter: "tcp.port == 502" }))
+      .toEqual([
+        "-r",
+        "in.pcap",
+        "-Y",
+        "tcp.port == 502",
+        "-T",
+        "json",
+        "--no-duplicate-keys",
+      ]);
+  });
+});
+
+describe("summarizePackets", () => {
+  it("should report counts, time span and protocols", async () => {
+    const summary = summarizePackets(
+      parseTsharkJson(await readFixture("capture.json")),
+    );
+    expect(isCaptureSummary(summary)).toBe(true);
+    expect(summary).toEqual({
+      packetCount: 3,
+      byteCount: 209,
+      firstTimestamp: "2024-03-01T12:00:00.000Z",
+      lastTimestamp: "2024-03-01T12:00:01.500Z",
+      duration: 1.5,
+      protocols: ["arp", "dns", "eth", "ethertype", "ip", "ipv6", "tcp", "udp"],
+    });
+  });
+  it("should summarize an empty capture", () => {
+    expect(summarizePackets([])).toEqual({
+      packetCount: 0,
+      byteCount: 0,
+      firstTimestamp: undefined,
+      lastTimestamp: undefined,
+      duration: 0,
+      protocols: [],
+    });
+  });
+});
+
+describe("readCaptureFile (recorded)", () => {
+  const fixture = new URL("./fixtures/commands.json", import.meta.url);
+  // Replayed by argv, so the path is the one the fixture was recorded with;
+  // the capture is the pcap module's fixture
+  const path = "pcap/fixtures/capture.pcap";
+  it("should return typed packets from a pcap file", async () => {
+    resultIsSuccessAndMatches(
+      await withRecordedCommands(fixture, () => readCaptureFile({ path })),
+      true,
+      (result) => isTsharkPacketList(result.output),
+    );
+  });
+  it("should apply the display filter", async () => {
+    resultIsSuccessAndMatches(
+      await withRecordedCommands(
+        fixture,
+        () => readCaptureFile({ path, filter: "tcp.port == 502" }),
+      ),
+      1,
+      (result) => result.output.length,
+    );
+  });
+  it("should summarize a pcap file", async () => {
+    resultIsSuccessAndMatches(
+      await withRecordedCommands(fixture, () => summarizeCaptureFile({ path })),
+      3,
+      (result) => result.output.packetCount,
+    );
+  });
+});
+
+describe("classifyTsharkError", () => {
+  const output = {
+    argv: ["tshark", "-i", "eth9"],
+    exitCode: 1,
+    signal: null,
+    stdout: "",
+    durationMs: 1,
+  };
+  it("should recognize permission, device and filter errors", () => {
+    expect(
+      classifyTsharkError({
+        ...output,
+        stderr: "tshark: You don't have permission to capture on that device",
+      }),
+    ).toBe("permission-denied");
+    expect(
+      classifyTsharkError({
+        ...output,
+        stderr:
+          "tshark: The capture session could not be initiated on interface 'eth9' (No such device exists).",
+      }),
+    ).toBe("not-found");
+    expect(
+      classifyTsharkError({
+        ...output,
+        stderr: 'tshark: "modbus.func" is neither a field nor a protocol name.',
+      }),
+    ).toBe("syntax");
+  });
+});
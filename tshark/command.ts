@@ -0,0 +1,463 @@
+import {
+  createSuccess,
+  isSuccess,
+  Result,
+  rpipeAsync,
+} from "@joyautomation/dark-matter";
+import {
+  CommandError,
+  ErrorClassifier,
+  getCommandError,
+  getErrorKind,
+  runCommandAndProcessOutput,
+  streamCommandJson,
+} from "../command.ts";
+import { requireTool } from "../capabilities/command.ts";
+import {
+  CaptureOptions,
+  CaptureSummary,
+  isTsharkJsonPacket,
+  ReadCaptureOptions,
+  StreamCaptureOptions,
+  TsharkFieldValue,
+  TsharkJsonPacket,
+  TsharkLayer,
+  TsharkLayers,
+  TsharkPacket,
+} from "./types.ts";
+import {
+  decodeIndustrialLayers,
+  getFieldValue,
+  getNumericFieldValue,
+} from "./dissectors.ts";
+
+/**
+ * Classifies tshark and dumpcap failures by their error messages.
+ *
+ * @param output - The failed tshark or dumpcap command's output
+ * @returns The kind of failure, or undefined if not recognized
+ *
+ * @example
+ * ```ts
+ * classifyTsharkError({
+ *   ...output,
+ *   stderr: 'tshark: "modbus.func" is neither a field nor a protocol name.',
+ * }); // "syntax"
+ * ```
+ */
+export const classifyTsharkError: ErrorClassifier = ({ stderr }) => {
+  if (/don't have permission|permission denied/i.test(stderr)) {
+    return "permission-denied";
+  }
+  if (/doesn't exist|no such device|there is no device named/i.test(stderr)) {
+    return "not-found";
+  }
+  if (
+    /neither a field nor a protocol|(invalid|isn't a valid) (capture|display) filter|unexpected in the filter|invalid option/i
+      .test(stderr)
+  ) {
+    return "syntax";
+  }
+  return undefined;
+};
+
+const parseEpoch = (value: string): number => {
+  const number = Number(value);
+  // Newer tshark releases may render absolute times as ISO 8601 strings.
+  return Number.isNaN(number) ? Date.parse(value) / 1000 : number;
+};
+
+/**
+ * Converts a raw tshark JSON packet into the typed TsharkPacket model.
+ *
+ * Industrial protocol layers (Modbus/TCP, EtherNet/IP, CIP, OPC UA, MQTT and
+ * S7comm) are decoded into their typed properties when present.
+ *
+ * @param raw - A packet as emitted by `tshark -T json`
+ * @returns The packet with its commonly used fields extracted
+ *
+ * @example
+ * ```ts
+ * const packets = JSON.parse(output).map(toTsharkPacket);
+ * ```
+ */
+export const toTsharkPacket = (raw: TsharkJsonPacket): TsharkPacket => {
+  const layers: TsharkLayers = raw._source.layers;
+  const frame = layers.frame;
+  const epoch = parseEpoch(frame["frame.time_epoch"]);
+  const protocols = frame["frame.protocols"].split(":");
+  const network = layers.ip !== undefined
+    ? { layer: layers.ip, src: "ip.src", dst: "ip.dst" }
+    : layers.ipv6 !== undefined
+    ? { layer: layers.ipv6, src: "ipv6.src", dst: "ipv6.dst" }
+    : { layer: layers.eth, src: "eth.src", dst: "eth.dst" };
+  const transport = layers.tcp !== undefined
+    ? { layer: layers.tcp, src: "tcp.srcport", dst: "tcp.dstport" }
+    : { layer: layers.udp, src: "udp.srcport", dst: "udp.dstport" };
+
+  return {
+    number: Number(frame["frame.number"]),
+    timestamp: new Date(epoch * 1000).toISOString(),
+    epoch,
+    length: Number(frame["frame.len"]),
+    protocols,
+    protocol: protocols[protocols.length - 1],
+    source: getFieldValue(network.layer, network.src),
+    destination: getFieldValue(network.layer, network.dst),
+    sourcePort: getNumericFieldValue(transport.layer, transport.src),
+    destinationPort: getNumericFieldValue(transport.layer, transport.dst),
+    ...decodeIndustrialLayers(layers),
+    layers,
+  };
+};
+
+/**
+ * Parses the output of `tshark -T json` into typed packets.
+ *
+ * tshark prints nothing at all when no packets were captured, so empty output
+ * is treated as an empty capture. Entries that do not look like packets are
+ * skipped.
+ *
+ * @param output - The raw stdout of a `tshark -T json` invocation
+ * @returns An array of typed packets
+ *
+ * @example
+ * ```ts
+ * const packets = parseTsharkJson(await Deno.readTextFile("capture.json"));
+ * ```
+ */
+export const parseTsharkJson = (output: string): TsharkPacket[] => {
+  if (output.trim() === "") return [];
+  const data: unknown = JSON.parse(output);
+  if (!Array.isArray(data)) return [];
+  return data.filter((item) => isTsharkJsonPacket(item)).map(toTsharkPacket);
+};
+
+const JSON_OUTPUT_ARGS = ["-T", "json", "--no-duplicate-keys"];
+const EK_OUTPUT_ARGS = ["-T", "ek"];
+
+/**
+ * Builds the tshark arguments for a live capture.
+ *
+ * @param options - Capture options
+ * @param outputArgs - Output format arguments (default: `-T json`)
+ * @returns The argument list to pass to tshark
+ */
+export const buildCaptureArgs = (
+  options: StreamCaptureOptions,
+  outputArgs: string[] = JSON_OUTPUT_ARGS,
+): string[] => [
+  "-i",
+  options.interface,
+  ...(options.count !== undefined ? ["-c", String(options.count)] : []),
+  ...(options.duration !== undefined
+    ? ["-a", `duration:${options.duration}`]
+    : []),
+  ...(options.snaplen !== undefined ? ["-s", String(options.snaplen)] : []),
+  ...(options.filter ? ["-f", options.filter] : []),
+  // -Q keeps the "Capturing on ..." banner and packet count off stderr
+  "-Q",
+  ...outputArgs,
+];
+
+/**
+ * Captures a bounded number of packets from a network interface.
+ *
+ * Executes `tshark -i <interface> -c <count> -T json` and parses the dissected
+ * packets. The capture stops once `count` packets have been seen or, if given,
+ * after `duration` seconds. Capturing requires permission to open the
+ * interface (root, or membership of the `wireshark` group on most systems).
+ * tshark releases older than 3.0 lack `--no-duplicate-keys` and fail before
+ * capturing.
+ *
+ * @param options - Capture options (interface, packet count, BPF filter, ...)
+ * @returns A Promise resolving to a Result containing the captured packets,
+ *          or an error if the command fails
+ *
+ * @example
+ * ```ts
+ * const result = await capturePackets({
+ *   interface: "eth0",
+ *   count: 10,
+ *   filter: "tcp port 80",
+ * });
+ * if (isSuccess(result)) {
+ *   for (const packet of result.output) {
+ *     console.log(`${packet.timestamp}: ${packet.source} -> ${packet.destination}`);
+ *   }
+ * }
+ * ```
+ */
+export const capturePackets = (
+  options: CaptureOptions,
+): Promise<Result<TsharkPacket[]>> =>
+  rpipeAsync(
+    () =>
+      requireTool("tshark", "json", {
+        timeout: options.timeout,
+        signal: options.signal,
+      }),
+    () =>
+      runCommandAndProcessOutput<TsharkPacket[]>(
+        parseTsharkJson,
+        "tshark",
+        {
+          args: buildCaptureArgs(options),
+          classifyError: classifyTsharkError,
+          timeout: options.timeout,
+          signal: options.signal,
+        },
+      ),
+  );
+
+const fromEkValue = (layer: string, value: unknown): TsharkFieldValue =>
+  Array.isArray(value)
+    ? value.map((entry) => fromEkValue(layer, entry)) as TsharkFieldValue
+    : typeof value === "object" && value !== null
+    ? fromEkLayer(layer, value as Record<string, unknown>)
+    : String(value);
+
+// EK writes "ip.src" as "ip_ip_src": the protocol, then the field name with
+// its dots replaced. Only the first dot can be restored; the dissector
+// helpers match the remaining ones either way.
+const fromEkLayer = (
+  layer: string,
+  fields: Record<string, unknown>,
+): TsharkLayer => {
+  const prefix = `${layer}_`;
+  return Object.fromEntries(
+    Object.entries(fields).map(([key, value]) => {
+      const name = key.startsWith(prefix) ? key.slice(prefix.length) : key;
+      return [
+        name.startsWith(prefix)
+          ? `${layer}.${name.slice(prefix.length)}`
+          : name,
+        fromEkValue(layer, value),
+      ];
+    }),
+  );
+};
+
+/**
+ * Converts a packet document of `tshark -T ek` output into the `-T json`
+ * packet shape.
+ *
+ * EK output is line-delimited: an Elasticsearch index line precedes each
+ * packet document. Field names are restored to Wireshark's dotted form where
+ * possible (`ip_ip_src` becomes `ip.src`) and values are rendered as strings,
+ * as in `-T json` output.
+ *
+ * @param document - A parsed line of EK output
+ * @param index - The `_index` of the preceding index line, if any
+ * @returns The packet, or undefined for index lines and other non-packets
+ *
+ * @example
+ * ```ts
+ * fromEkPacket({
+ *   timestamp: "1700000000123",
+ *   layers: { frame: { frame_frame_number: "1", ... } },
+ * }); // { _source: { layers: { frame: { "frame.number": "1", ... } } }, ... }
+ * ```
+ */
+export const fromEkPacket = (
+  document: unknown,
+  index = "",
+): TsharkJsonPacket | undefined => {
+  if (typeof document !== "object" || document === null) return undefined;
+  const { layers } = document as { layers?: unknown };
+  if (typeof layers !== "object" || layers === null) return undefined;
+  const packet = {
+    _index: index,
+    _type: "doc",
+    _score: null,
+    _source: {
+      layers: Object.fromEntries(
+        Object.entries(layers).map(([layer, value]) => [
+          layer,
+          fromEkValue(layer, value),
+        ]),
+      ),
+    },
+  };
+  return isTsharkJsonPacket(packet) ? packet : undefined;
+};
+
+/**
+ * Streams live packets from a network interface as they are captured.
+ *
+ * Runs `tshark -l -T ek`, which prints one JSON document per line and flushes
+ * after every packet, and yields each packet as soon as tshark has dissected
+ * it (see fromEkPacket). The capture continues until `count`
+ * packets or `duration` seconds have elapsed, the signal is aborted, or the
+ * consumer stops iterating (which also terminates tshark). If tshark exits
+ * with an error, the iteration throws a CommandError carrying its stderr;
+ * tshark releases without EK output fail with kind "unsupported" before
+ * capturing. Live captures run locally; within withSshHost the iteration throws a
+ * CommandError of kind "unsupported".
+ *
+ * @param options - Capture options (interface, BPF filter, stop conditions, signal)
+ * @returns An async generator of captured packets
+ *
+ * @example
+ * ```ts
+ * const controller = new AbortController();
+ * setTimeout(() => controller.abort(), 60_000);
+ * for await (const packet of streamPackets({
+ *   interface: "eth0",
+ *   filter: "tcp port 502",
+ *   signal: controller.signal,
+ * })) {
+ *   console.log(`${packet.timestamp}: ${packet.source} -> ${packet.destination}`);
+ * }
+ * ```
+ */
+export async function* streamPackets(
+  options: StreamCaptureOptions,
+): AsyncGenerator<TsharkPacket> {
+  // -l flushes stdout after every packet instead of when the buffer fills
+  const args = ["-l", ...buildCaptureArgs(options, EK_OUTPUT_ARGS)];
+  const required = await requireTool("tshark", "ek", {
+    signal: options.signal,
+  });
+  if (!isSuccess(required)) {
+    throw getCommandError(required) ?? new CommandError({
+      argv: ["tshark", ...args],
+      exitCode: -1,
+      signal: null,
+      stdout: "",
+      stderr: required.error,
+      durationMs: 0,
+    }, getErrorKind(required));
+  }
+  let index: string | undefined;
+  for await (
+    const document of streamCommandJson<Record<string, unknown>>("tshark", {
+      args,
+      classifyError: classifyTsharkError,
+      signal: options.signal,
+    })
+  ) {
+    const { index: indexLine } = document as {
+      index?: { _index?: string };
+    };
+    if (indexLine) {
+      index = indexLine._index;
+      continue;
+    }
+    const packet = fromEkPacket(document, index);
+    if (packet) yield toTsharkPacket(packet);
+  }
+}
+
+/**
+ * Builds the tshark arguments for reading a capture file.
+ *
+ * @param options - Read options
+ * @param outputArgs - Output format arguments (default: `-T json`)
+ * @returns The argument list to pass to tshark
+ */
+export const buildReadArgs = (
+  options: ReadCaptureOptions,
+  outputArgs: string[] = JSON_OUTPUT_ARGS,
+): string[] => [
+  "-r",
+  options.path,
+  ...(options.count !== undefined ? ["-c", String(options.count)] : []),
+  ...(options.filter ? ["-Y", options.filter] : []),
+  ...outputArgs,
+];
+
+/**
+ * Reads and dissects the packets in a pcap or pcapng file.
+ *
+ * Executes `tshark -r <path> -T json` and returns the same typed packet model
+ * as live capture. An optional display filter selects which packets are
+ * returned.
+ *
+ * @param options - Read options (file path, display filter, packet limit)
+ * @returns A Promise resolving to a Result containing the packets in the file,
+ *          or an error if the command fails
+ *
+ * @example
+ * ```ts
+ * const result = await readCaptureFile({
+ *   path: "/var/tmp/plant-a.pcapng",
+ *   filter: "tcp.port == 502",
+ * });
+ * if (isSuccess(result)) {
+ *   console.log(`${result.output.length} Modbus/TCP packets`);
+ * }
+ * ```
+ */
+export const readCaptureFile = (
+  options: ReadCaptureOptions,
+): Promise<Result<TsharkPacket[]>> =>
+  rpipeAsync(
+    () =>
+      requireTool("tshark", "json", {
+        timeout: options.timeout,
+        signal: options.signal,
+      }),
+    () =>
+      runCommandAndProcessOutput<TsharkPacket[]>(
+        parseTsharkJson,
+        "tshark",
+        {
+          args: buildReadArgs(options),
+          classifyError: classifyTsharkError,
+          timeout: options.timeout,
+          signal: options.signal,
+        },
+      ),
+  );
+
+/**
+ * Summarizes a set of packets.
+ *
+ * @param packets - Packets from a live capture or a capture file
+ * @returns The packet and byte counts, time span and protocols seen
+ *
+ * @example
+ * ```ts
+ * const summary = summarizePackets(packets);
+ * console.log(`${summary.packetCount} packets over ${summary.duration}s`);
+ * ```
+ */
+export const summarizePackets = (packets: TsharkPacket[]): CaptureSummary => {
+  const first = packets[0];
+  const last = packets[packets.length - 1];
+  return {
+    packetCount: packets.length,
+    byteCount: packets.reduce((total, packet) => total + packet.length, 0),
+    firstTimestamp: first?.timestamp,
+    lastTimestamp: last?.timestamp,
+    duration: first && last ? last.epoch - first.epoch : 0,
+    protocols: [...new Set(packets.flatMap((packet) => packet.protocols))]
+      .sort(),
+  };
+};
+
+/**
+ * Reads a capture file and summarizes its contents.
+ *
+ * Convenience function that combines readCaptureFile and summarizePackets.
+ *
+ * @param options - Read options (file path, display filter, packet limit)
+ * @returns A Promise resolving to a Result containing the capture summary,
+ *          or an error if the command fails
+ *
+ * @example
+ * ```ts
+ * const result = await summarizeCaptureFile({ path: "incident.pcap" });
+ * if (isSuccess(result)) {
+ *   console.log(result.output.protocols); // e.g. ["arp", "eth", "ip", "tcp"]
+ * }
+ * ```
+ */
+export const summarizeCaptureFile = (
+  options: ReadCaptureOptions,
+): Promise<Result<CaptureSummary>> =>
+  rpipeAsync(
+    () => readCaptureFile(options),
+    (packets) => createSuccess(summarizePackets(packets)),
+  );
@@ -0,0 +1,136 @@
+import { describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import { findFieldValues, getFieldValue } from "./dissectors.ts";
+import { parseTsharkJson } from "./command.ts";
+import {
+  isCipPacket,
+  isEnipPacket,
+  isModbusPacket,
+  isMqttPacket,
+  isOpcUaPacket,
+  isS7commPacket,
+  ModbusFunctionCode,
+  MqttMessageType,
+} from "./types.ts";
+
+const readPackets = async () =>
+  parseTsharkJson(
+    await Deno.readTextFile(
+      new URL("./fixtures/industrial.json", import.meta.url),
+    ),
+  );
+
+describe("getFieldValue", () => {
+  it("should match names restored from EK output", () => {
+    expect(getFieldValue({ "s7comm.param_func": "0x04" }, "s7comm.param.func"))
+      .toBe("0x04");
+    expect(
+      findFieldValues(
+        { "opcua.transport_type": "MSG" },
+        "opcua.transport.type",
+      ),
+    ).toEqual(["MSG"]);
+  });
+  it("should return the first value of a duplicated field", () => {
+    expect(getFieldValue({ "ip.src": ["10.0.0.1", "10.0.0.2"] }, "ip.src"))
+      .toBe("10.0.0.1");
+  });
+  it("should use the innermost of repeated layers", () => {
+    expect(
+      getFieldValue(
+        [{ "ip.src": "10.0.0.1" }, { "ip.src": "10.0.0.2" }],
+        "ip.src",
+      ),
+    ).toBe("10.0.0.2");
+  });
+});
+
+describe("findFieldValues", () => {
+  it("should collect values from nested subtrees", () => {
+    expect(
+      findFieldValues({
+        "a": "1",
+        "tree": { "x": "2", "deeper": [{ "x": "3" }, { "x": ["4", "5"] }] },
+        "x": "1",
+      }, "x"),
+    ).toEqual(["2", "3", "4", "5", "1"]);
+  });
+});
+
+describe("decodeIndustrialLayers", () => {
+  it("should decode a Modbus/TCP request", async () => {
+    const [packet] = await readPackets();
+    expect(isModbusPacket(packet)).toBe(true);
+    expect(packet.modbus).toEqual({
+      transactionId: 7,
+      protocolId: 0,
+      length: 6,
+      unitId: 1,
+      functionCode: ModbusFunctionCode.ReadHoldingRegisters,
+      referenceNumber: 40,
+      wordCount: 2,
+    });
+  });
+  it("should decode Modbus register values from a response", async () => {
+    const packet = (await readPackets())[1];
+    expect(packet.modbus?.registers).toEqual([1200, 35]);
+    expect(packet.modbus?.requestFrame).toBe(1);
+  });
+  it("should decode a Modbus exception", async () => {
+    const packet = (await readPackets())[2];
+    expect(packet.modbus?.exceptionCode).toBe(2);
+  });
+  it("should decode EtherNet/IP and CIP", async () => {
+    const [request, response] = (await readPackets()).slice(3, 5);
+    expect(isEnipPacket(request) && isCipPacket(request)).toBe(true);
+    expect(request.enip?.command).toBe(0x6f);
+    expect(request.enip?.session).toBe(0x12345678);
+    expect(request.cip).toEqual({
+      service: 0x0e,
+      isResponse: false,
+      classId: 1,
+      instance: 1,
+      attribute: 7,
+    });
+    expect(response.cip?.isResponse).toBe(true);
+    expect(response.cip?.generalStatus).toBe(0);
+  });
+  it("should decode OPC UA", async () => {
+    const packet = (await readPackets())[5];
+    expect(isOpcUaPacket(packet)).toBe(true);
+    expect(packet.opcua).toEqual({
+      messageType: "MSG",
+      messageSize: 85,
+      secureChannelId: 3,
+      securityTokenId: 1,
+      sequenceNumber: 52,
+      requestId: 2,
+      serviceNodeId: 631,
+    });
+  });
+  it("should decode an MQTT publish", async () => {
+    const packet = (await readPackets())[6];
+    expect(isMqttPacket(packet)).toBe(true);
+    expect(packet.mqtt?.messageType).toBe(MqttMessageType.Publish);
+    expect(packet.mqtt?.topic).toBe("plant/line1/pv");
+    expect(packet.mqtt?.qos).toBe(1);
+    expect(packet.mqtt?.retain).toBe(true);
+    expect(packet.mqtt?.duplicate).toBe(false);
+  });
+  it("should decode an S7comm read request", async () => {
+    const packet = (await readPackets())[7];
+    expect(isS7commPacket(packet)).toBe(true);
+    expect(packet.s7comm).toEqual({
+      rosctr: 1,
+      pduReference: 256,
+      function: 0x04,
+      itemCount: 1,
+      items: [{ area: 0x84, dbNumber: 1, address: 0 }],
+    });
+  });
+  it("should not add industrial layers to other traffic", async () => {
+    const [packet] = await readPackets();
+    expect(isMqttPacket(packet)).toBe(false);
+    expect("mqtt" in packet).toBe(false);
+  });
+});
@@ -0,0 +1,314 @@
+import {
+  CipLayer,
+  EnipLayer,
+  IndustrialLayers,
+  ModbusTcpLayer,
+  MqttLayer,
+  OpcUaLayer,
+  S7commItem,
+  S7commLayer,
+  TsharkFieldValue,
+  TsharkLayer,
+  TsharkLayers,
+} from "./types.ts";
+
+// Packets streamed as EK keep underscores where a field name had dots after
+// the first (e.g. "s7comm.param_func"), so names also match with dots and
+// underscores treated alike
+const sameField = (key: string, field: string): boolean =>
+  key === field || key.replaceAll(".", "_") === field.replaceAll(".", "_");
+
+/**
+ * Returns the first string value of a field in a dissected layer.
+ *
+ * Handles fields that tshark merged into an array because they occurred more
+ * than once (see `--no-duplicate-keys`). Only the top level of the layer is
+ * searched; use findFieldValues to look inside protocol subtrees.
+ *
+ * @param layer - The layer to read from, or undefined if the layer is absent
+ * @param field - Wireshark field name (e.g. "ip.src")
+ * @returns The first string value of the field, or undefined if not present
+ *
+ * @example
+ * ```ts
+ * const src = getFieldValue(packet.layers.ip, "ip.src");
+ * ```
+ */
+export const getFieldValue = (
+  layer: TsharkLayer | TsharkLayer[] | undefined,
+  field: string,
+): string | undefined => {
+  if (layer === undefined) return undefined;
+  // Tunnelled traffic yields several layers of the same protocol; the
+  // innermost one is the most specific.
+  const target = Array.isArray(layer) ? layer[layer.length - 1] : layer;
+  const key = target &&
+    (field in target
+      ? field
+      : Object.keys(target).find((key) => sameField(key, field)));
+  const value: TsharkFieldValue | undefined = key ? target[key] : undefined;
+  if (typeof value === "string") return value;
+  if (Array.isArray(value) && typeof value[0] === "string") {
+    return value[0] as string;
+  }
+  return undefined;
+};
+
+/**
+ * Returns every string value of a field in a layer, including its subtrees.
+ *
+ * tshark nests many fields under subtree keys (e.g. `mqtt.hdrflags_tree` or
+ * the per-register subtrees of Modbus), so this walks the whole layer and
+ * collects every occurrence in document order.
+ *
+ * @param layer - The layer to search, or undefined if the layer is absent
+ * @param field - Wireshark field name (e.g. "modbus.regval_uint16")
+ * @returns All values of the field, or an empty array if not present
+ *
+ * @example
+ * ```ts
+ * const registers = findFieldValues(packet.layers.modbus, "modbus.regval_uint16");
+ * ```
+ */
+export const findFieldValues = (
+  layer: TsharkFieldValue | undefined,
+  field: string,
+): string[] => {
+  if (layer === undefined || typeof layer === "string") return [];
+  if (Array.isArray(layer)) {
+    return layer.flatMap((entry) =>
+      typeof entry === "string" ? [] : findFieldValues(entry, field)
+    );
+  }
+  return Object.entries(layer).flatMap(([key, value]) => {
+    if (sameField(key, field)) {
+      if (typeof value === "string") return [value];
+      if (Array.isArray(value)) {
+        return value.filter((entry) => typeof entry === "string") as string[];
+      }
+    }
+    return findFieldValues(value, field);
+  });
+};
+
+const toNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined) return undefined;
+  // Number() understands the "0x" prefix tshark uses for hex fields
+  const number = Number(value);
+  return Number.isNaN(number) ? undefined : number;
+};
+
+const toBoolean = (value: string | undefined): boolean | undefined =>
+  value === undefined
+    ? undefined
+    : value === "1" || value.toLowerCase() === "true";
+
+const getString = (
+  layer: TsharkLayer | TsharkLayer[] | undefined,
+  field: string,
+): string | undefined =>
+  getFieldValue(layer, field) ?? findFieldValues(layer, field)[0];
+
+/**
+ * Returns the value of a field as a number.
+ *
+ * Looks the field up like getFieldValue, falling back to the layer's
+ * subtrees when it is not found at the top level. Hex values such as
+ * "0x006f" are converted as well.
+ *
+ * @param layer - The layer to read from, or undefined if the layer is absent
+ * @param field - Wireshark field name (e.g. "tcp.dstport")
+ * @returns The numeric value, or undefined if not present or not numeric
+ *
+ * @example
+ * ```ts
+ * const port = getNumericFieldValue(packet.layers.tcp, "tcp.dstport");
+ * ```
+ */
+export const getNumericFieldValue = (
+  layer: TsharkLayer | TsharkLayer[] | undefined,
+  field: string,
+): number | undefined => toNumber(getString(layer, field));
+
+const getBoolean = (
+  layer: TsharkLayer | TsharkLayer[] | undefined,
+  field: string,
+) => toBoolean(getString(layer, field));
+
+/**
+ * Decodes the Modbus/TCP layers of a packet.
+ *
+ * @param layers - All dissected layers of the packet
+ * @returns The decoded Modbus/TCP ADU, or undefined if the packet has none
+ */
+export const decodeModbusTcp = (
+  layers: TsharkLayers,
+): ModbusTcpLayer | undefined => {
+  const mbtcp = layers.mbtcp;
+  const transactionId = getNumericFieldValue(mbtcp, "mbtcp.trans_id");
+  const unitId = getNumericFieldValue(mbtcp, "mbtcp.unit_id");
+  if (transactionId === undefined || unitId === undefined) return undefined;
+
+  const modbus = layers.modbus;
+  const registers = findFieldValues(modbus, "modbus.regval_uint16")
+    .map((value) => Number(value));
+  return {
+    transactionId,
+    protocolId: getNumericFieldValue(mbtcp, "mbtcp.prot_id") ?? 0,
+    length: getNumericFieldValue(mbtcp, "mbtcp.len") ?? 0,
+    unitId,
+    functionCode: getNumericFieldValue(modbus, "modbus.func_code"),
+    exceptionCode: getNumericFieldValue(modbus, "modbus.exception_code"),
+    referenceNumber: getNumericFieldValue(modbus, "modbus.reference_num"),
+    wordCount: getNumericFieldValue(modbus, "modbus.word_cnt"),
+    bitCount: getNumericFieldValue(modbus, "modbus.bit_cnt"),
+    byteCount: getNumericFieldValue(modbus, "modbus.byte_cnt"),
+    registers: registers.length > 0 ? registers : undefined,
+    requestFrame: getNumericFieldValue(modbus, "modbus.request_frame"),
+  };
+};
+
+/**
+ * Decodes the EtherNet/IP encapsulation layer of a packet.
+ *
+ * @param layers - All dissected layers of the packet
+ * @returns The decoded encapsulation header, or undefined if the packet has none
+ */
+export const decodeEnip = (layers: TsharkLayers): EnipLayer | undefined => {
+  const enip = layers.enip;
+  const command = getNumericFieldValue(enip, "enip.command");
+  if (command === undefined) return undefined;
+  return {
+    command,
+    length: getNumericFieldValue(enip, "enip.length") ?? 0,
+    session: getNumericFieldValue(enip, "enip.session") ?? 0,
+    status: getNumericFieldValue(enip, "enip.status") ?? 0,
+    senderContext: getString(enip, "enip.context"),
+  };
+};
+
+/**
+ * Decodes the CIP layer of a packet.
+ *
+ * @param layers - All dissected layers of the packet
+ * @returns The decoded CIP message, or undefined if the packet has none
+ */
+export const decodeCip = (layers: TsharkLayers): CipLayer | undefined => {
+  const cip = layers.cip;
+  const service = getNumericFieldValue(cip, "cip.sc");
+  if (service === undefined) return undefined;
+  return {
+    service,
+    isResponse: getBoolean(cip, "cip.rr") ?? false,
+    classId: getNumericFieldValue(cip, "cip.class"),
+    instance: getNumericFieldValue(cip, "cip.instance"),
+    attribute: getNumericFieldValue(cip, "cip.attribute"),
+    symbol: getString(cip, "cip.symbol"),
+    generalStatus: getNumericFieldValue(cip, "cip.genstat"),
+  };
+};
+
+/**
+ * Decodes the OPC UA layer of a packet.
+ *
+ * @param layers - All dissected layers of the packet
+ * @returns The decoded OPC UA message, or undefined if the packet has none
+ */
+export const decodeOpcUa = (layers: TsharkLayers): OpcUaLayer | undefined => {
+  const opcua = layers.opcua;
+  const messageType = getString(opcua, "opcua.transport.type");
+  if (messageType === undefined) return undefined;
+  return {
+    messageType,
+    messageSize: getNumericFieldValue(opcua, "opcua.transport.size") ?? 0,
+    secureChannelId: getNumericFieldValue(opcua, "opcua.transport.scid"),
+    securityTokenId: getNumericFieldValue(opcua, "opcua.security.tokenid"),
+    sequenceNumber: getNumericFieldValue(opcua, "opcua.security.seq"),
+    requestId: getNumericFieldValue(opcua, "opcua.security.rqid"),
+    serviceNodeId: getNumericFieldValue(opcua, "opcua.servicenodeid.numeric"),
+  };
+};
+
+/**
+ * Decodes the MQTT layer of a packet.
+ *
+ * @param layers - All dissected layers of the packet
+ * @returns The decoded MQTT control packet, or undefined if the packet has none
+ */
+export const decodeMqtt = (layers: TsharkLayers): MqttLayer | undefined => {
+  const mqtt = layers.mqtt;
+  const messageType = getNumericFieldValue(mqtt, "mqtt.msgtype");
+  if (messageType === undefined) return undefined;
+  return {
+    messageType,
+    length: getNumericFieldValue(mqtt, "mqtt.len") ?? 0,
+    qos: getNumericFieldValue(mqtt, "mqtt.qos"),
+    retain: getBoolean(mqtt, "mqtt.retain"),
+    duplicate: getBoolean(mqtt, "mqtt.dupflag"),
+    topic: getString(mqtt, "mqtt.topic"),
+    messageId: getNumericFieldValue(mqtt, "mqtt.msgid"),
+    clientId: getString(mqtt, "mqtt.clientid"),
+    protocolVersion: getNumericFieldValue(mqtt, "mqtt.ver"),
+    payload: getString(mqtt, "mqtt.msg"),
+  };
+};
+
+/**
+ * Decodes the S7comm layer of a packet.
+ *
+ * @param layers - All dissected layers of the packet
+ * @returns The decoded S7comm PDU, or undefined if the packet has none
+ */
+export const decodeS7comm = (
+  layers: TsharkLayers,
+): S7commLayer | undefined => {
+  const s7comm = layers.s7comm;
+  const rosctr = getNumericFieldValue(s7comm, "s7comm.header.rosctr");
+  if (rosctr === undefined) return undefined;
+
+  const areas = findFieldValues(s7comm, "s7comm.param.item.area");
+  const dbNumbers = findFieldValues(s7comm, "s7comm.param.item.db");
+  const addresses = findFieldValues(s7comm, "s7comm.param.item.address");
+  const items: S7commItem[] = areas.map((area, index) => ({
+    area: Number(area),
+    dbNumber: toNumber(dbNumbers[index]),
+    address: Number(addresses[index] ?? 0),
+  }));
+  return {
+    rosctr,
+    pduReference: getNumericFieldValue(s7comm, "s7comm.header.pduref") ?? 0,
+    function: getNumericFieldValue(s7comm, "s7comm.param.func"),
+    itemCount: getNumericFieldValue(s7comm, "s7comm.param.itemcount"),
+    items: items.length > 0 ? items : undefined,
+    errorClass: getNumericFieldValue(s7comm, "s7comm.header.errcls"),
+    errorCode: getNumericFieldValue(s7comm, "s7comm.header.errcod"),
+  };
+};
+
+/**
+ * Decodes every supported industrial protocol layer of a packet.
+ *
+ * @param layers - All dissected layers of the packet
+ * @returns An object containing only the protocols present in the packet
+ *
+ * @example
+ * ```ts
+ * const { modbus } = decodeIndustrialLayers(raw._source.layers);
+ * console.log(modbus?.functionCode);
+ * ```
+ */
+export const decodeIndustrialLayers = (
+  layers: TsharkLayers,
+): IndustrialLayers => {
+  const decoded: IndustrialLayers = {
+    modbus: decodeModbusTcp(layers),
+    enip: decodeEnip(layers),
+    cip: decodeCip(layers),
+    opcua: decodeOpcUa(layers),
+    mqtt: decodeMqtt(layers),
+    s7comm: decodeS7comm(layers),
+  };
+  return Object.fromEntries(
+    Object.entries(decoded).filter(([, layer]) => layer !== undefined),
+  );
+};
@@ -0,0 +1,81 @@
+import { describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import { buildFieldArgs, parseFieldOutput, parseFieldRow } from "./fields.ts";
+import { buildReadArgs } from "./command.ts";
+
+const SPEC = {
+  "ip.src": "string",
+  "tcp.dstport": "number",
+  "mbtcp.unit_id": "number",
+  "modbus.regval_uint16": "number[]",
+  "tcp.flags.syn": "boolean",
+} as const;
+
+describe("buildFieldArgs", () => {
+  it("should request every field with all occurrences", () => {
+    const args = buildFieldArgs(SPEC);
+    expect(args.slice(0, 4)).toEqual(["-T", "fields", "-e", "ip.src"]);
+    expect(args.filter((arg) => arg === "-e").length).toBe(5);
+    expect(args).toContain("occurrence=a");
+    expect(args).toContain("separator=/t");
+  });
+
+  it("should replace the JSON output arguments of a read", () => {
+    const args = buildReadArgs(
+      { path: "plant.pcap", filter: "modbus" },
+      buildFieldArgs({ "ip.src": "string" }),
+    );
+    expect(args).toEqual([
+      "-r",
+      "plant.pcap",
+      "-Y",
+      "modbus",
+      ...buildFieldArgs({ "ip.src": "string" }),
+    ]);
+    expect(args).not.toContain("json");
+  });
+});
+
+describe("parseFieldRow", () => {
+  it("should coerce numbers, hex values and booleans", () => {
+    const row = parseFieldRow("192.168.1.20\t502\t0x01\t\t1", SPEC);
+    expect(row).toEqual({
+      "ip.src": "192.168.1.20",
+      "tcp.dstport": 502,
+      "mbtcp.unit_id": 1,
+      "modbus.regval_uint16": [],
+      "tcp.flags.syn": true,
+    });
+  });
+
+  it("should keep every occurrence for array fields and the first otherwise", () => {
+    const row = parseFieldRow(
+      "10.0.0.1\u001f192.168.1.20\t502\t1\t17\u001f0\u001f65535\tFalse",
+      SPEC,
+    );
+    expect(row["ip.src"]).toBe("10.0.0.1");
+    expect(row["modbus.regval_uint16"]).toEqual([17, 0, 65535]);
+    expect(row["tcp.flags.syn"]).toBe(false);
+  });
+
+  it("should leave missing fields undefined", () => {
+    const row = parseFieldRow("fe80::1", SPEC);
+    expect(row["ip.src"]).toBe("fe80::1");
+    expect(row["tcp.dstport"]).toBeUndefined();
+    expect(row["modbus.regval_uint16"]).toEqual([]);
+  });
+});
+
+describe("parseFieldOutput", () => {
+  it("should return one row per line", () => {
+    const rows = parseFieldOutput(
+      "192.168.1.10\t502\n192.168.1.20\t49152\n",
+      { "ip.src": "string", "tcp.dstport": "number" },
+    );
+    expect(rows.map((row) => row["tcp.dstport"])).toEqual([502, 49152]);
+  });
+
+  it("should treat empty output as no packets", () => {
+    expect(parseFieldOutput("", SPEC)).toEqual([]);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import { CommandExecutor, withCommandExecutor } from "../command.ts";
+import {
+  and,
+  host,
+  net,
+  not,
+  or,
+  parseFilterError,
+  port,
+  portRange,
+  protocol,
+  toCaptureFilter,
+  toDisplayFilter,
+  validateDisplayFilter,
+} from "./filter.ts";
+import { isFilterValidation } from "./types.ts";
+
+const PLC_MODBUS = and(host("192.168.1.20"), port(502, { protocol: "tcp" }));
+
+describe("toCaptureFilter", () => {
+  it("should render primitives as BPF", () => {
+    expect(toCaptureFilter(host("192.168.1.20", "dst"))).toBe(
+      "dst host 192.168.1.20",
+    );
+    expect(toCaptureFilter(net("10.0.0.0/8", "src"))).toBe(
+      "src net 10.0.0.0/8",
+    );
+    expect(toCaptureFilter(port(502, { protocol: "tcp", direction: "dst" })))
+      .toBe("tcp dst port 502");
+    expect(toCaptureFilter(portRange(1, 1024))).toBe("portrange 1-1024");
+    expect(toCaptureFilter(protocol("icmp6"))).toBe("icmp6");
+  });
+
+  it("should parenthesise combinators", () => {
+    expect(toCaptureFilter(PLC_MODBUS)).toBe(
+      "(host 192.168.1.20 and tcp port 502)",
+    );
+    expect(toCaptureFilter(or(protocol("arp"), not(PLC_MODBUS)))).toBe(
+      "(arp or not (host 192.168.1.20 and tcp port 502))",
+    );
+    expect(toCaptureFilter(not(host("10.0.0.1")))).toBe("not (host 10.0.0.1)");
+    expect(toCaptureFilter(not(protocol("arp")))).toBe("not arp");
+  });
+});
+
+describe("toDisplayFilter", () => {
+  it("should render primitives as display filter fields", () => {
+    expect(toDisplayFilter(host("192.168.1.20"))).toBe(
+      "ip.addr == 192.168.1.20",
+    );
+    expect(toDisplayFilter(host("fe80::1", "src"))).toBe("ipv6.src == fe80::1");
+    expect(toDisplayFilter(net("10.0.0.0/8", "dst"))).toBe(
+      "ip.dst == 10.0.0.0/8",
+    );
+    expect(toDisplayFilter(port(502, { protocol: "tcp", direction: "dst" })))
+      .toBe("tcp.dstport == 502");
+    expect(toDisplayFilter(portRange(1, 1024, { protocol: "udp" }))).toBe(
+      "udp.port in {1..1024}",
+    );
+    expect(toDisplayFilter(protocol("ip6"))).toBe("ipv6");
+  });
+
+  it("should match TCP or UDP when no protocol is given", () => {
+    expect(toDisplayFilter(port(1883))).toBe(
+      "(tcp.port == 1883 || udp.port == 1883)",
+    );
+  });
+
+  it("should render combinators with display filter operators", () => {
+    expect(toDisplayFilter(PLC_MODBUS)).toBe(
+      "(ip.addr == 192.168.1.20 && tcp.port == 502)",
+    );
+    expect(toDisplayFilter(or(protocol("arp"), not(protocol("tcp"))))).toBe(
+      "(arp || !tcp)",
+    );
+    expect(toDisplayFilter(not(host("10.0.0.1")))).toBe(
+      "!(ip.addr == 10.0.0.1)",
+    );
+  });
+});
+
+describe("parseFilterError", () => {
+  it("should extract the message and the underlined position", () => {
+    const stderr =
+      `tshark: "tcp.prot" is not a valid protocol or protocol field.
+    ip.addr == 10.0.0.1 && tcp.prot == 80
+                           ^~~~~~~~
+`;
+    const error = parseFilterError(
+      "ip.addr == 10.0.0.1 && tcp.prot == 80",
+      stderr,
+    );
+    expect(error).toEqual({
+      message: '"tcp.prot" is not a valid protocol or protocol field.',
+      position: 23,
+      length: 8,
+    });
+    expect(isFilterValidation({ valid: false, filter: "x", error })).toBe(true);
+  });
+
+  it("should omit the position when tshark does not report one", () => {
+    expect(
+      parseFilterError("tcp.port ==", "tshark: Unexpected end of filter.\n"),
+    )
+      .toEqual({ message: "Unexpected end of filter." });
+  });
+});
+
+describe("validateDisplayFilter", () => {
+  it("should run tshark locally within withCommandExecutor", async () => {
+    const commands: string[] = [];
+    const remote: CommandExecutor = (command) => {
+      commands.push(String(command));
+      throw new Error("not local");
+    };
+    await withCommandExecutor(
+      remote,
+      () => validateDisplayFilter("tcp.port == 502"),
+    );
+    expect(commands).toEqual([]);
+  });
+});
@@ -0,0 +1,432 @@
+import {
+  createErrorString,
+  createFail,
+  createSuccess,
+  isSuccess,
+  Result,
+} from "@joyautomation/dark-matter";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  CancellationOptions,
+  CommandCancelledError,
+  getCommandError,
+  processExecutor,
+  runCommand,
+} from "../command.ts";
+import { classifyTsharkError } from "./command.ts";
+import {
+  FilterDirection,
+  FilterError,
+  FilterExpression,
+  FilterProtocol,
+  FilterValidation,
+} from "./types.ts";
+
+/**
+ * Matches traffic to or from a host.
+ *
+ * @param address - IPv4 or IPv6 address
+ * @param direction - Match only the source or destination address
+ * @returns A filter expression
+ *
+ * @example
+ * ```ts
+ * toCaptureFilter(host("192.168.1.20", "dst")); // "dst host 192.168.1.20"
+ * ```
+ */
+export const host = (
+  address: string,
+  direction?: FilterDirection,
+): FilterExpression => ({ kind: "host", address, direction });
+
+/**
+ * Matches traffic to or from a network.
+ *
+ * @param network - Network in CIDR notation (e.g. "10.0.0.0/8")
+ * @param direction - Match only the source or destination address
+ * @returns A filter expression
+ */
+export const net = (
+  network: string,
+  direction?: FilterDirection,
+): FilterExpression => ({ kind: "net", network, direction });
+
+/**
+ * Matches traffic to or from a port.
+ *
+ * @param port - Port number
+ * @param options - Restrict to TCP or UDP, and/or to the source or destination port
+ * @returns A filter expression
+ *
+ * @example
+ * ```ts
+ * toDisplayFilter(port(502, { protocol: "tcp" })); // "tcp.port == 502"
+ * ```
+ */
+export const port = (
+  port: number,
+  options: { protocol?: "tcp" | "udp"; direction?: FilterDirection } = {},
+): FilterExpression => ({ kind: "port", port, ...options });
+
+/**
+ * Matches traffic to or from a range of ports (inclusive).
+ *
+ * @param from - First port of the range
+ * @param to - Last port of the range
+ * @param options - Restrict to TCP or UDP, and/or to the source or destination port
+ * @returns A filter expression
+ */
+export const portRange = (
+  from: number,
+  to: number,
+  options: { protocol?: "tcp" | "udp"; direction?: FilterDirection } = {},
+): FilterExpression => ({ kind: "portrange", from, to, ...options });
+
+/**
+ * Matches traffic of a protocol.
+ *
+ * @param protocol - Protocol name
+ * @returns A filter expression
+ */
+export const protocol = (protocol: FilterProtocol): FilterExpression => ({
+  kind: "protocol",
+  protocol,
+});
+
+/**
+ * Matches traffic that satisfies every expression.
+ *
+ * @param expressions - Expressions to combine
+ * @returns A filter expression
+ *
+ * @example
+ * ```ts
+ * and(host("192.168.1.20"), port(502, { protocol: "tcp" }));
+ * ```
+ */
+export const and = (...expressions: FilterExpression[]): FilterExpression => ({
+  kind: "and",
+  expressions,
+});
+
+/**
+ * Matches traffic that satisfies any expression.
+ *
+ * @param expressions - Expressions to combine
+ * @returns A filter expression
+ */
+export const or = (...expressions: FilterExpression[]): FilterExpression => ({
+  kind: "or",
+  expressions,
+});
+
+/**
+ * Matches traffic that does not satisfy an expression.
+ *
+ * @param expression - Expression to negate
+ * @returns A filter expression
+ */
+export const not = (expression: FilterExpression): FilterExpression => ({
+  kind: "not",
+  expression,
+});
+
+const BPF_PROTOCOLS: Record<FilterProtocol, string> = {
+  ip: "ip",
+  ip6: "ip6",
+  arp: "arp",
+  icmp: "icmp",
+  icmp6: "icmp6",
+  tcp: "tcp",
+  udp: "udp",
+};
+
+const DISPLAY_PROTOCOLS: Record<FilterProtocol, string> = {
+  ip: "ip",
+  ip6: "ipv6",
+  arp: "arp",
+  icmp: "icmp",
+  icmp6: "icmpv6",
+  tcp: "tcp",
+  udp: "udp",
+};
+
+const group = (parts: string[], operator: string): string =>
+  parts.length === 1 ? parts[0] : `(${parts.join(` ${operator} `)})`;
+
+// Negated terms need parentheses unless they are a single word or a group
+const negate = (operator: string, term: string): string =>
+  term.includes(" ") && !term.startsWith("(")
+    ? `${operator}(${term})`
+    : `${operator}${term}`;
+
+/**
+ * Renders a filter expression as a BPF capture filter.
+ *
+ * @param expression - The expression to render
+ * @returns The capture filter, for use with `capturePackets({ filter })`
+ *
+ * @example
+ * ```ts
+ * toCaptureFilter(and(host("192.168.1.20"), port(502, { protocol: "tcp" })));
+ * // "(host 192.168.1.20 and tcp port 502)"
+ * ```
+ */
+export const toCaptureFilter = (expression: FilterExpression): string => {
+  const prefix = (...words: (string | undefined)[]) =>
+    words.filter((word) => word !== undefined).join(" ");
+  switch (expression.kind) {
+    case "host":
+      return prefix(expression.direction, "host", expression.address);
+    case "net":
+      return prefix(expression.direction, "net", expression.network);
+    case "port":
+      return prefix(
+        expression.protocol,
+        expression.direction,
+        "port",
+        String(expression.port),
+      );
+    case "portrange":
+      return prefix(
+        expression.protocol,
+        expression.direction,
+        "portrange",
+        `${expression.from}-${expression.to}`,
+      );
+    case "protocol":
+      return BPF_PROTOCOLS[expression.protocol];
+    case "and":
+      return group(expression.expressions.map(toCaptureFilter), "and");
+    case "or":
+      return group(expression.expressions.map(toCaptureFilter), "or");
+    case "not":
+      return negate("not ", toCaptureFilter(expression.expression));
+  }
+};
+
+/**
+ * Renders a filter expression as a Wireshark display filter.
+ *
+ * @param expression - The expression to render
+ * @returns The display filter, for use with `readCaptureFile({ filter })` or
+ *          the statistics functions
+ *
+ * @example
+ * ```ts
+ * toDisplayFilter(and(host("192.168.1.20"), port(502, { protocol: "tcp" })));
+ * // "(ip.addr == 192.168.1.20 && tcp.port == 502)"
+ * ```
+ */
+export const toDisplayFilter = (expression: FilterExpression): string => {
+  const addressField = (address: string, direction?: FilterDirection) =>
+    `${address.includes(":") ? "ipv6" : "ip"}.${direction ?? "addr"}`;
+  const portField = (protocol: string, direction?: FilterDirection) =>
+    `${protocol}.${direction ? `${direction}port` : "port"}`;
+  const eitherProtocol = (
+    protocol: "tcp" | "udp" | undefined,
+    render: (protocol: string) => string,
+  ) =>
+    protocol ? render(protocol) : group([render("tcp"), render("udp")], "||");
+  switch (expression.kind) {
+    case "host":
+      return `${
+        addressField(expression.address, expression.direction)
+      } == ${expression.address}`;
+    case "net":
+      return `${
+        addressField(expression.network, expression.direction)
+      } == ${expression.network}`;
+    case "port":
+      return eitherProtocol(
+        expression.protocol,
+        (protocol) =>
+          `${portField(protocol, expression.direction)} == ${expression.port}`,
+      );
+    case "portrange":
+      return eitherProtocol(
+        expression.protocol,
+        (protocol) =>
+          `${
+            portField(protocol, expression.direction)
+          } in {${expression.from}..${expression.to}}`,
+      );
+    case "protocol":
+      return DISPLAY_PROTOCOLS[expression.protocol];
+    case "and":
+      return group(expression.expressions.map(toDisplayFilter), "&&");
+    case "or":
+      return group(expression.expressions.map(toDisplayFilter), "||");
+    case "not":
+      return negate("!", toDisplayFilter(expression.expression));
+  }
+};
+
+/**
+ * Extracts the error message and position from tshark's filter error output.
+ *
+ * tshark echoes the filter and underlines the offending token:
+ *
+ * ```
+ * tshark: "tcp.prot" is not a valid protocol or protocol field.
+ *     tcp.prot == 80
+ *     ^~~~~~~~
+ * ```
+ *
+ * @param filter - The filter that failed to compile
+ * @param stderr - tshark's error output
+ * @returns The structured error
+ */
+export const parseFilterError = (
+  filter: string,
+  stderr: string,
+): FilterError => {
+  const lines = stderr.split("\n");
+  const message = (lines.find((line) => line.trim() !== "") ?? stderr)
+    .replace(/^(tshark|dumpcap): /, "")
+    .trim();
+  const echoIndex = lines.findIndex((line) => line.trim() === filter.trim());
+  const underline = echoIndex === -1 ? undefined : lines[echoIndex + 1];
+  const marker = underline?.match(/[\^~]+/);
+  if (echoIndex === -1 || !marker || marker.index === undefined) {
+    return { message };
+  }
+  return {
+    message,
+    position: marker.index - lines[echoIndex].indexOf(filter.trim()),
+    length: marker[0].length,
+  };
+};
+
+// A pcap global header with no packets: the smallest file tshark will read
+const EMPTY_PCAP = new Uint8Array([
+  0xd4,
+  0xc3,
+  0xb2,
+  0xa1,
+  0x02,
+  0x00,
+  0x04,
+  0x00,
+  0x00,
+  0x00,
+  0x00,
+  0x00,
+  0x00,
+  0x00,
+  0x00,
+  0x00,
+  0xff,
+  0xff,
+  0x00,
+  0x00,
+  0x01,
+  0x00,
+  0x00,
+  0x00,
+]);
+
+/**
+ * Checks whether a Wireshark display filter compiles.
+ *
+ * Runs tshark with the filter against an empty capture file, so nothing is
+ * captured and no privileges are needed. A filter that does not compile is
+ * reported as a successful Result with `valid: false`; a Fail means tshark
+ * itself could not be run.
+ *
+ * The capture file is written locally, so tshark always runs on this machine,
+ * even when called within withSshHost or withCommandExecutor.
+ *
+ * @param filter - Display filter to check (e.g. "modbus.func_code == 3")
+ * @param options - Timeout and AbortSignal for the command
+ * @returns A Promise resolving to a Result containing the validation outcome
+ *
+ * @example
+ * ```ts
+ * const result = await validateDisplayFilter("tcp.prot == 80");
+ * if (isSuccess(result) && !result.output.valid) {
+ *   const { message, position } = result.output.error;
+ *   console.log(`${message} at column ${position}`);
+ * }
+ * ```
+ */
+export const validateDisplayFilter = async (
+  filter: string,
+  options: CancellationOptions = {},
+): Promise<Result<FilterValidation>> => {
+  let directory: string | undefined;
+  try {
+    directory = await mkdtemp(join(tmpdir(), "statocyst-"));
+    const path = join(directory, "empty.pcap");
+    await writeFile(path, EMPTY_PCAP);
+    const result = await runCommand("tshark", {
+      args: ["-r", path, "-Y", filter],
+      classifyError: classifyTsharkError,
+      ...options,
+      executor: processExecutor,
+    });
+    if (isSuccess(result)) return createSuccess({ valid: true, filter });
+    // No CommandError means tshark could not be started at all
+    const error = getCommandError(result);
+    if (
+      !error?.stderr.includes("tshark:") ||
+      error instanceof CommandCancelledError
+    ) {
+      return result;
+    }
+    return createSuccess({
+      valid: false,
+      filter,
+      error: parseFilterError(filter, error.stderr),
+    });
+  } catch (error) {
+    return createFail(createErrorString(error));
+  } finally {
+    if (directory) {
+      await rm(directory, { recursive: true }).catch(() => undefined);
+    }
+  }
+};
+
+/**
+ * Checks whether a BPF capture filter compiles for an interface.
+ *
+ * Asks dumpcap to print the compiled BPF program (`dumpcap -d`) without
+ * capturing anything. Compiling depends on the interface's link type, so
+ * dumpcap must be allowed to open the interface. libpcap does not report
+ * error positions, so only the message is returned for invalid filters.
+ *
+ * @param filter - Capture filter to check (e.g. "tcp port 502")
+ * @param captureInterface - Interface to compile the filter for (default: "any")
+ * @param options - Timeout and AbortSignal for the command
+ * @returns A Promise resolving to a Result containing the validation outcome
+ *
+ * @example
+ * ```ts
+ * const result = await validateCaptureFilter("tcp prot 502", "eth0");
+ * if (isSuccess(result) && !result.output.valid) {
+ *   console.log(result.output.error.message);
+ * }
+ * ```
+ */
+export const validateCaptureFilter = async (
+  filter: string,
+  captureInterface = "any",
+  options: CancellationOptions = {},
+): Promise<Result<FilterValidation>> => {
+  const result = await runCommand("dumpcap", {
+    args: ["-i", captureInterface, "-f", filter, "-d"],
+    classifyError: classifyTsharkError,
+    ...options,
+  });
+  if (isSuccess(result)) return createSuccess({ valid: true, filter });
+  const stderr = getCommandError(result)?.stderr ?? "";
+  if (!/(invalid|isn't a valid) capture filter/i.test(stderr)) return result;
+  return createSuccess({
+    valid: false,
+    filter,
+    error: { message: stderr.trim().split("\n")[0].trim() },
+  });
+};
@@ -0,0 +1,182 @@
+import { describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import {
+  evaluateCapturePermissions,
+  getCapturePermissionFacts,
+  mergeInterfaceAddresses,
+  parseCapabilities,
+  parseIdOutput,
+  parseInterfaceList,
+  parseStatOutput,
+} from "./interfaces.ts";
+import { isCaptureInterface, isCapturePreflight } from "./types.ts";
+import { IpAddressList } from "../ip/types.ts";
+import { isSuccess } from "@joyautomation/dark-matter";
+import { withRecordedCommands } from "../testUtils.ts";
+
+const TSHARK_D = `1. eth0
+2. any
+3. lo (Loopback)
+4. ciscodump (Cisco remote capture)
+`;
+
+describe("parseInterfaceList", () => {
+  it("should parse indexes, names and descriptions", () => {
+    const interfaces = parseInterfaceList(TSHARK_D);
+    expect(interfaces.every(isCaptureInterface)).toBe(true);
+    expect(interfaces.map((entry) => entry.name)).toEqual([
+      "eth0",
+      "any",
+      "lo",
+      "ciscodump",
+    ]);
+    expect(interfaces[2].description).toBe("Loopback");
+    expect(interfaces[3].description).toBe("Cisco remote capture");
+  });
+});
+
+describe("mergeInterfaceAddresses", () => {
+  it("should add ip address details to matching interfaces", () => {
+    const ipAddresses: IpAddressList = [{
+      ifindex: 2,
+      ifname: "eth0",
+      flags: ["BROADCAST", "MULTICAST", "UP", "LOWER_UP"],
+      mtu: 1500,
+      qdisc: "fq_codel",
+      operstate: "UP",
+      group: "default",
+      txqlen: 1000,
+      link_type: "ether",
+      address: "52:54:00:12:34:56",
+      broadcast: "ff:ff:ff:ff:ff:ff",
+      addr_info: [{
+        family: "inet",
+        local: "192.168.1.10",
+        prefixlen: 24,
+        scope: "global",
+        valid_life_time: 4294967295,
+        preferred_life_time: 4294967295,
+      }],
+    }];
+    const [eth0, any] = mergeInterfaceAddresses(
+      parseInterfaceList(TSHARK_D),
+      ipAddresses,
+    );
+    expect(eth0.operstate).toBe("UP");
+    expect(eth0.mac).toBe("52:54:00:12:34:56");
+    expect(eth0.addresses[0].local).toBe("192.168.1.10");
+    expect(any.addresses).toEqual([]);
+  });
+});
+
+describe("parseCapabilities", () => {
+  it("should parse old and new getcap formats", () => {
+    expect(parseCapabilities("/usr/bin/dumpcap cap_net_admin,cap_net_raw=eip"))
+      .toEqual(["cap_net_admin", "cap_net_raw"]);
+    expect(
+      parseCapabilities("/usr/bin/dumpcap = cap_net_raw,cap_net_admin+eip"),
+    ).toEqual(["cap_net_admin", "cap_net_raw"]);
+    expect(parseCapabilities("")).toEqual([]);
+  });
+});
+
+describe("parseIdOutput", () => {
+  it("should parse the uid and groups", () => {
+    expect(
+      parseIdOutput(
+        "uid=1000(ops) gid=1000(ops) groups=1000(ops),4(adm),998(wireshark)\n",
+      ),
+    ).toEqual({
+      uid: 1000,
+      groups: [
+        { id: 1000, name: "ops" },
+        { id: 4, name: "adm" },
+        { id: 998, name: "wireshark" },
+      ],
+    });
+  });
+});
+
+describe("parseStatOutput", () => {
+  it("should parse the octal mode, owner and group", () => {
+    expect(parseStatOutput("4750 0 998 wireshark\n")).toEqual({
+      mode: 0o4750,
+      uid: 0,
+      gid: 998,
+      group: "wireshark",
+    });
+  });
+});
+
+describe("getCapturePermissionFacts (recorded)", () => {
+  const fixture = new URL("./fixtures/commands.json", import.meta.url);
+  it("should inspect dumpcap on the executor's host", async () => {
+    const result = await withRecordedCommands(
+      fixture,
+      () => getCapturePermissionFacts(),
+    );
+    expect(isSuccess(result) && result.output).toEqual({
+      isRoot: false,
+      dumpcapPath: "/usr/bin/dumpcap",
+      dumpcapCapabilities: ["cap_net_admin", "cap_net_raw"],
+      dumpcapExecutable: true,
+      dumpcapGroup: "wireshark",
+      userGroups: ["ops", "sudo", "wireshark"],
+    });
+  });
+});
+
+describe("evaluateCapturePermissions", () => {
+  const facts = {
+    isRoot: false,
+    dumpcapPath: "/usr/bin/dumpcap",
+    dumpcapCapabilities: ["cap_net_admin", "cap_net_raw"],
+    dumpcapExecutable: true,
+    dumpcapGroup: "wireshark",
+    userGroups: ["ops", "wireshark"],
+  };
+  it("should allow capturing through dumpcap capabilities", () => {
+    const preflight = evaluateCapturePermissions(facts);
+    expect(isCapturePreflight(preflight)).toBe(true);
+    expect(preflight.canCapture).toBe(true);
+    expect(preflight.method).toBe("capabilities");
+    expect(preflight.problems).toEqual([]);
+  });
+  it("should explain a missing wireshark group membership", () => {
+    const preflight = evaluateCapturePermissions({
+      ...facts,
+      dumpcapExecutable: false,
+      userGroups: ["ops"],
+    });
+    expect(preflight.canCapture).toBe(false);
+    expect(preflight.requiresSudo).toBe(true);
+    expect(preflight.problems.length).toBe(1);
+    expect(preflight.problems[0]).toContain("usermod -aG wireshark");
+  });
+  it("should explain missing capabilities", () => {
+    const preflight = evaluateCapturePermissions({
+      ...facts,
+      dumpcapCapabilities: [],
+    });
+    expect(preflight.canCapture).toBe(false);
+    expect(preflight.problems[0]).toContain("setcap");
+  });
+  it("should allow root regardless of capabilities", () => {
+    const preflight = evaluateCapturePermissions({
+      ...facts,
+      isRoot: true,
+      dumpcapCapabilities: [],
+    });
+    expect(preflight.canCapture).toBe(true);
+    expect(preflight.method).toBe("root");
+  });
+  it("should report a missing dumpcap", () => {
+    const preflight = evaluateCapturePermissions({
+      ...facts,
+      dumpcapPath: undefined,
+    });
+    expect(preflight.canCapture).toBe(false);
+    expect(preflight.requiresSudo).toBe(false);
+    expect(preflight.problems[0]).toContain("not installed");
+  });
+});
@@ -0,0 +1,299 @@
+import {
+  createSuccess,
+  isSuccess,
+  Result,
+  rpipeAsync,
+} from "@joyautomation/dark-matter";
+import { CancellationOptions, runCommandAndProcessOutput } from "../command.ts";
+import { classifyTsharkError } from "./command.ts";
+import { getIpAddresses } from "../ip/command.ts";
+import { IpAddressList } from "../ip/types.ts";
+import {
+  CaptureInterface,
+  CapturePermissionFacts,
+  CapturePreflight,
+} from "./types.ts";
+
+const REQUIRED_CAPABILITIES = ["cap_net_admin", "cap_net_raw"];
+
+/**
+ * Parses the output of `tshark -D`.
+ *
+ * Each line has the form `<index>. <name> (<description>)`, with the
+ * description being optional.
+ *
+ * @param output - The raw stdout of `tshark -D`
+ * @returns The interfaces without address data
+ *
+ * @example
+ * ```ts
+ * parseInterfaceList("1. eth0\n2. lo (Loopback)\n");
+ * // [{ index: 1, name: "eth0", addresses: [] }, { index: 2, name: "lo", description: "Loopback", addresses: [] }]
+ * ```
+ */
+export const parseInterfaceList = (output: string): CaptureInterface[] =>
+  output.split("\n").flatMap((line) => {
+    const match = line.trim().match(/^(\d+)\.\s+(\S+)(?:\s+\((.*)\))?$/);
+    if (!match) return [];
+    return [{
+      index: Number(match[1]),
+      name: match[2],
+      description: match[3],
+      addresses: [],
+    }];
+  });
+
+/**
+ * Merges `ip address` details into a list of capture interfaces.
+ *
+ * @param interfaces - Interfaces as parsed from `tshark -D`
+ * @param ipAddresses - Output of getIpAddresses
+ * @returns The interfaces with operational state, MAC and IP addresses filled in
+ */
+export const mergeInterfaceAddresses = (
+  interfaces: CaptureInterface[],
+  ipAddresses: IpAddressList,
+): CaptureInterface[] =>
+  interfaces.map((entry) => {
+    const ip = ipAddresses.find((item) => item.ifname === entry.name);
+    return ip
+      ? {
+        ...entry,
+        operstate: ip.operstate,
+        mac: ip.address,
+        addresses: ip.addr_info,
+      }
+      : entry;
+  });
+
+/**
+ * Lists the interfaces tshark can capture on.
+ *
+ * Executes `tshark -D` and merges in the operational state, MAC address and
+ * IP addresses reported by getIpAddresses. If `ip` is unavailable the
+ * interfaces are returned without address data.
+ *
+ * @param options - Timeout and AbortSignal for each command
+ * @returns A Promise resolving to a Result containing the capture interfaces,
+ *          or an error if tshark fails
+ *
+ * @example
+ * ```ts
+ * const result = await listCaptureInterfaces();
+ * if (isSuccess(result)) {
+ *   for (const iface of result.output) {
+ *     console.log(`${iface.index}. ${iface.name} ${iface.operstate ?? ""}`);
+ *   }
+ * }
+ * ```
+ */
+export const listCaptureInterfaces = (
+  options: CancellationOptions = {},
+): Promise<Result<CaptureInterface[]>> =>
+  rpipeAsync(
+    () =>
+      runCommandAndProcessOutput<CaptureInterface[]>(
+        parseInterfaceList,
+        "tshark",
+        { args: ["-D"], classifyError: classifyTsharkError, ...options },
+      ),
+    async (interfaces) => {
+      const ipAddresses = await getIpAddresses(options);
+      return createSuccess(
+        isSuccess(ipAddresses)
+          ? mergeInterfaceAddresses(interfaces, ipAddresses.output)
+          : interfaces,
+      );
+    },
+  );
+
+/**
+ * Parses the capability names from `getcap` output.
+ *
+ * Handles both the old (`/usr/bin/dumpcap = cap_net_admin,cap_net_raw+eip`)
+ * and new (`/usr/bin/dumpcap cap_net_admin,cap_net_raw=eip`) formats.
+ *
+ * @param output - The raw stdout of `getcap <path>`
+ * @returns The capability names, sorted
+ */
+export const parseCapabilities = (output: string): string[] =>
+  [...new Set(output.match(/cap_[a-z_]+/g) ?? [])].sort();
+
+/**
+ * Parses the user and group ids from `id` output.
+ *
+ * @param output - The raw stdout of `id` (e.g. "uid=1000(ops) gid=1000(ops) groups=1000(ops),998(wireshark)")
+ * @returns The user id and the groups the user belongs to
+ */
+export const parseIdOutput = (
+  output: string,
+): { uid: number; groups: { id: number; name: string }[] } => ({
+  uid: Number(output.match(/uid=(\d+)/)?.[1] ?? -1),
+  groups: [
+    ...(output.match(/groups=(.*)$/m)?.[1] ?? "").matchAll(
+      /(\d+)\(([^)]+)\)/g,
+    ),
+  ].map((match) => ({ id: Number(match[1]), name: match[2] })),
+});
+
+/**
+ * Parses the output of `stat -L -c '%a %u %g %G' <path>`.
+ *
+ * @param output - The raw stdout (e.g. "750 0 998 wireshark")
+ * @returns The permission bits, owner and group of the file
+ */
+export const parseStatOutput = (
+  output: string,
+): { mode: number; uid: number; gid: number; group: string } => {
+  const [mode, uid, gid, group = ""] = output.trim().split(/\s+/);
+  return {
+    mode: parseInt(mode, 8),
+    uid: Number(uid),
+    gid: Number(gid),
+    group,
+  };
+};
+
+/**
+ * Decides whether the current user can capture, and what is missing if not.
+ *
+ * Root can always capture. Anyone else needs a dumpcap binary they may
+ * execute that carries the `cap_net_raw` and `cap_net_admin` capabilities,
+ * which is how Debian-style "non-superusers may capture" installs work.
+ *
+ * @param facts - Facts gathered about the user and dumpcap
+ * @returns The preflight verdict, including operator-facing problems
+ */
+export const evaluateCapturePermissions = (
+  facts: CapturePermissionFacts,
+): CapturePreflight => {
+  const problems: string[] = [];
+  const hasCapabilities = REQUIRED_CAPABILITIES.every((capability) =>
+    facts.dumpcapCapabilities.includes(capability)
+  );
+  if (facts.dumpcapPath === undefined) {
+    problems.push(
+      "dumpcap is not installed; install the wireshark-common (Debian/Ubuntu) or wireshark-cli (RHEL/Alpine/Arch) package",
+    );
+  } else if (!facts.isRoot) {
+    if (!hasCapabilities) {
+      problems.push(
+        `dumpcap lacks the cap_net_raw and cap_net_admin capabilities; run \`sudo setcap cap_net_raw,cap_net_admin=eip ${facts.dumpcapPath}\``,
+      );
+    }
+    if (!facts.dumpcapExecutable) {
+      problems.push(
+        facts.dumpcapGroup && !facts.userGroups.includes(facts.dumpcapGroup)
+          ? `the current user is not in the ${facts.dumpcapGroup} group; run \`sudo usermod -aG ${facts.dumpcapGroup} $USER\` and log in again`
+          : `the current user may not execute ${facts.dumpcapPath}`,
+      );
+    }
+  }
+  const canCapture = facts.dumpcapPath !== undefined &&
+    (facts.isRoot || (hasCapabilities && facts.dumpcapExecutable));
+  return {
+    ...facts,
+    canCapture,
+    method: canCapture ? (facts.isRoot ? "root" : "capabilities") : undefined,
+    requiresSudo: facts.dumpcapPath !== undefined && !canCapture,
+    problems,
+  };
+};
+
+const isExecutableBy = (
+  file: { mode: number; uid: number; gid: number },
+  uid: number,
+  gids: number[],
+): boolean => {
+  if (uid === 0) return (file.mode & 0o111) !== 0;
+  if (file.uid === uid) return (file.mode & 0o100) !== 0;
+  if (gids.includes(file.gid)) return (file.mode & 0o010) !== 0;
+  return (file.mode & 0o001) !== 0;
+};
+
+/**
+ * Gathers the facts evaluateCapturePermissions needs from the system.
+ *
+ * Runs `id`, `which dumpcap`, `getcap` and `stat` and inspects the dumpcap
+ * binary's permission bits. Every check is a command, so the facts describe
+ * the host the current executor runs on (see withSshHost).
+ *
+ * @param options - Timeout and AbortSignal for each command
+ * @returns A Promise resolving to a Result containing the gathered facts
+ */
+export const getCapturePermissionFacts = (
+  options: CancellationOptions = {},
+): Promise<
+  Result<CapturePermissionFacts>
+> =>
+  rpipeAsync(
+    () => runCommandAndProcessOutput(parseIdOutput, "id", options),
+    async ({ uid, groups }): Promise<Result<CapturePermissionFacts>> => {
+      const which = await runCommandAndProcessOutput(
+        (output) => output.trim(),
+        "which",
+        { args: ["dumpcap"], ...options },
+      );
+      const dumpcapPath = isSuccess(which) && which.output !== ""
+        ? which.output
+        : undefined;
+      const facts: CapturePermissionFacts = {
+        isRoot: uid === 0,
+        dumpcapPath,
+        dumpcapCapabilities: [],
+        dumpcapExecutable: false,
+        userGroups: groups.map((group) => group.name),
+      };
+      if (dumpcapPath === undefined) return createSuccess(facts);
+
+      const file = await runCommandAndProcessOutput(
+        parseStatOutput,
+        "stat",
+        { args: ["-L", "-c", "%a %u %g %G", dumpcapPath], ...options },
+      );
+      if (!isSuccess(file)) return file;
+      const capabilities = await runCommandAndProcessOutput(
+        parseCapabilities,
+        "getcap",
+        { args: [dumpcapPath], ...options },
+      );
+      return createSuccess({
+        ...facts,
+        dumpcapCapabilities: isSuccess(capabilities) ? capabilities.output : [],
+        dumpcapExecutable: isExecutableBy(
+          file.output,
+          uid,
+          groups.map((entry) => entry.id),
+        ),
+        dumpcapGroup: file.output.group,
+      });
+    },
+  );
+
+/**
+ * Checks whether the current user can capture packets, before trying to.
+ *
+ * Reports whether the process runs as root, whether dumpcap is installed,
+ * carries the required capabilities and may be executed by the user (which on
+ * most distributions means membership of the `wireshark` group), and whether
+ * sudo is needed. The `problems` list explains what to fix in operator terms.
+ *
+ * @param options - Timeout and AbortSignal for each command
+ * @returns A Promise resolving to a Result containing the preflight verdict,
+ *          or an error if the system could not be inspected
+ *
+ * @example
+ * ```ts
+ * const result = await checkCapturePermissions();
+ * if (isSuccess(result) && !result.output.canCapture) {
+ *   result.output.problems.forEach((problem) => console.warn(problem));
+ * }
+ * ```
+ */
+export const checkCapturePermissions = (
+  options: CancellationOptions = {},
+): Promise<Result<CapturePreflight>> =>
+  rpipeAsync(
+    () => getCapturePermissionFacts(options),
+    (facts) => createSuccess(evaluateCapturePermissions(facts)),
+  );
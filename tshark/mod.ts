@@ -25,3 +25,9 @@
 
 export * from "./types.ts";
 export * from "./command.ts";
+export * from "./dissectors.ts";
+export * from "./statistics.ts";
+export * from "./ringbuffer.ts";
+export * from "./interfaces.ts";
+export * from "./filter.ts";
+export * from "./fields.ts";
@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import { isSuccess } from "@joyautomation/dark-matter";
+import {
+  CommandExecutor,
+  getErrorKind,
+  withCommandExecutor,
+} from "../command.ts";
+import {
+  buildRingBufferArgs,
+  findRingBufferFile,
+  listRingBufferFiles,
+  parseRingBufferFileName,
+  startRingBufferCapture,
+} from "./ringbuffer.ts";
+import { isRingBufferFile, RingBufferFile } from "./types.ts";
+import { withStandInPrograms } from "../testUtils.ts";
+
+// Writes two ring buffer files next to the -w target and a marker once they
+// are complete, then captures until it is stopped
+const DUMPCAP = `#!/bin/sh
+while [ $# -gt 0 ]; do
+  [ "$1" = "-w" ] && target=$2
+  shift
+done
+directory=$(dirname "$target")
+prefix=$(basename "$target" .pcapng)
+printf 01234 > "$directory/\${prefix}_00001_20240301120000.pcapng"
+printf 0123456789 > "$directory/\${prefix}_00002_20240301120500.pcapng"
+touch "$directory/ready"
+exec sleep 30
+`;
+
+describe("parseRingBufferFileName", () => {
+  it("should parse the index and local start time", () => {
+    expect(
+      parseRingBufferFileName("capture_00003_20240301120500.pcapng", "capture"),
+    ).toEqual({ index: 3, start: new Date(2024, 2, 1, 12, 5, 0) });
+  });
+  it("should ignore files with another prefix", () => {
+    expect(
+      parseRingBufferFileName("other_00003_20240301120500.pcapng", "capture"),
+    ).toBe(undefined);
+  });
+});
+
+describe("listRingBufferFiles", () => {
+  let directory: string;
+  beforeEach(async () => {
+    directory = await Deno.makeTempDir();
+    await Deno.writeTextFile(
+      `${directory}/capture_00002_20240301120500.pcapng`,
+      "0123456789",
+    );
+    await Deno.writeTextFile(
+      `${directory}/capture_00001_20240301120000.pcapng`,
+      "01234",
+    );
+    await Deno.writeTextFile(`${directory}/notes.txt`, "");
+  });
+  afterEach(async () => {
+    await Deno.remove(directory, { recursive: true });
+  });
+  it("should list files oldest first with their time spans", async () => {
+    const result = await listRingBufferFiles(directory);
+    expect(isSuccess(result)).toBe(true);
+    if (isSuccess(result)) {
+      expect(result.output.every(isRingBufferFile)).toBe(true);
+      expect(result.output.map((file) => file.index)).toEqual([1, 2]);
+      expect(result.output[0].size).toBe(5);
+      expect(result.output[0].end).toBe(result.output[1].start);
+      expect(result.output[1].end).toBe(undefined);
+    }
+  });
+});
+
+describe("findRingBufferFile", () => {
+  const files: RingBufferFile[] = [
+    {
+      path: "/tmp/capture_00001_x.pcapng",
+      index: 1,
+      start: "2024-03-01T12:00:00.000Z",
+      end: "2024-03-01T12:05:00.000Z",
+      size: 100,
+    },
+    {
+      path: "/tmp/capture_00002_x.pcapng",
+      index: 2,
+      start: "2024-03-01T12:05:00.000Z",
+      size: 50,
+    },
+  ];
+  it("should find the file covering the timestamp", () => {
+    expect(
+      findRingBufferFile(files, new Date("2024-03-01T12:04:59Z"))?.index,
+    ).toBe(1);
+    expect(
+      findRingBufferFile(files, new Date("2024-03-01T12:05:00Z"))?.index,
+    ).toBe(2);
+  });
+  it("should return undefined before the oldest file", () => {
+    expect(findRingBufferFile(files, new Date("2024-03-01T11:00:00Z")))
+      .toBe(undefined);
+  });
+});
+
+describe("buildRingBufferArgs", () => {
+  it("should include rotation and retention limits", () => {
+    expect(
+      buildRingBufferArgs({
+        interface: "eth0",
+        directory: "/var/lib/blackbox",
+        fileDuration: 300,
+        maxFiles: 12,
+      }),
+    ).toEqual([
+      "-i",
+      "eth0",
+      "-w",
+      "/var/lib/blackbox/capture.pcapng",
+      "-b",
+      "duration:300",
+      "-b",
+      "files:12",
+      "-q",
+    ]);
+  });
+});
+
+describe("startRingBufferCapture", () => {
+  it("should not capture on a remote executor's host", async () => {
+    const remote: CommandExecutor = Object.assign(
+      () => Promise.reject(new Error("not reached")),
+      { host: "edge-07" },
+    );
+    const result = await withCommandExecutor(
+      remote,
+      () =>
+        startRingBufferCapture({
+          interface: "eth0",
+          directory: "/nonexistent/blackbox",
+        }),
+    );
+    expect(getErrorKind(result)).toBe("unsupported");
+  });
+
+  describe("with a stand-in dumpcap", () => {
+    let directory: string;
+    beforeEach(async () => {
+      directory = await Deno.makeTempDir();
+    });
+    afterEach(async () => {
+      await Deno.remove(directory, { recursive: true });
+    });
+
+    it("should find files while capturing and stop dumpcap", async () => {
+      await withStandInPrograms({ dumpcap: DUMPCAP }, async () => {
+        const started = await startRingBufferCapture({
+          interface: "eth0",
+          directory,
+          prefix: "blackbox",
+          fileDuration: 300,
+        });
+        if (!isSuccess(started)) throw new Error(started.error);
+        const capture = started.output;
+        const isReady = () =>
+          Deno.stat(`${directory}/ready`).then(() => true, () => false);
+        while (capture.isRunning() && !(await isReady())) {
+          await new Promise((resolve) => setTimeout(resolve, 10));
+        }
+        expect(capture.isRunning()).toBe(true);
+
+        const completed = await capture.listFiles();
+        expect(
+          isSuccess(completed) && completed.output.map((file) => file.index),
+        )
+          .toEqual([1]);
+        const earlier = await capture.findFile(new Date(2024, 2, 1, 12, 2, 0));
+        expect(isSuccess(earlier) && earlier.output.path).toBe(
+          `${directory}/blackbox_00001_20240301120000.pcapng`,
+        );
+        const current = await capture.findFile(new Date(2024, 2, 1, 12, 7, 30));
+        expect(isSuccess(current) && current.output.size).toBe(10);
+        const before = await capture.findFile(new Date(2024, 2, 1, 11, 0, 0));
+        expect(getErrorKind(before)).toBe("not-found");
+
+        const stopped = await capture.stop();
+        expect(capture.isRunning()).toBe(false);
+        expect(isSuccess(await capture.done)).toBe(true);
+        expect(isSuccess(stopped) && stopped.output.map((file) => file.index))
+          .toEqual([1, 2]);
+      });
+    });
+  });
+});
@@ -0,0 +1,256 @@
+import {
+  createErrorString,
+  createFail,
+  createSuccess,
+  Result,
+  rpipeAsync,
+} from "@joyautomation/dark-matter";
+import { mkdir, readdir, stat } from "node:fs/promises";
+import {
+  createKindFail,
+  getCommandExecutor,
+  streamCommand,
+} from "../command.ts";
+import { classifyTsharkError } from "./command.ts";
+import {
+  RingBufferCapture,
+  RingBufferFile,
+  RingBufferOptions,
+} from "./types.ts";
+
+const DEFAULT_PREFIX = "capture";
+
+/**
+ * Parses the index and start time from a ring buffer file name.
+ *
+ * dumpcap stamps file names with the local time at which each file was
+ * started.
+ *
+ * @param name - File name (e.g. "capture_00003_20240301120500.pcapng")
+ * @param prefix - File name prefix the capture was started with
+ * @returns The index and start time, or undefined if the name does not match
+ *
+ * @example
+ * ```ts
+ * parseRingBufferFileName("capture_00003_20240301120500.pcapng", "capture");
+ * // { index: 3, start: Date(2024-03-01 12:05:00 local time) }
+ * ```
+ */
+export const parseRingBufferFileName = (
+  name: string,
+  prefix: string,
+): { index: number; start: Date } | undefined => {
+  if (!name.startsWith(`${prefix}_`)) return undefined;
+  const match = name.slice(prefix.length + 1).match(
+    /^(\d+)_(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})\.pcapng$/,
+  );
+  if (!match) return undefined;
+  const [, index, year, month, day, hour, minute, second] = match.map(Number);
+  return {
+    index,
+    start: new Date(year, month - 1, day, hour, minute, second),
+  };
+};
+
+/**
+ * Lists the files of a ring buffer capture in a directory.
+ *
+ * Works for captures started by another process as well, e.g. to pull the
+ * relevant files after the capturing service has been restarted.
+ *
+ * @param directory - Directory the capture files were written to
+ * @param prefix - File name prefix (default: "capture")
+ * @returns A Promise resolving to a Result containing the files, oldest first
+ *
+ * @example
+ * ```ts
+ * const result = await listRingBufferFiles("/var/lib/blackbox");
+ * if (isSuccess(result)) {
+ *   console.log(result.output.map((file) => file.path));
+ * }
+ * ```
+ */
+export const listRingBufferFiles = async (
+  directory: string,
+  prefix = DEFAULT_PREFIX,
+): Promise<Result<RingBufferFile[]>> => {
+  try {
+    const files: Omit<RingBufferFile, "end">[] = [];
+    for (const entry of await readdir(directory, { withFileTypes: true })) {
+      const parsed = entry.isFile()
+        ? parseRingBufferFileName(entry.name, prefix)
+        : undefined;
+      if (!parsed) continue;
+      const path = `${directory}/${entry.name}`;
+      const { size } = await stat(path);
+      files.push({
+        path,
+        index: parsed.index,
+        start: parsed.start.toISOString(),
+        size,
+      });
+    }
+    files.sort((a, b) => a.index - b.index);
+    return createSuccess(
+      files.map((file, position) => ({
+        ...file,
+        end: files[position + 1]?.start,
+      })),
+    );
+  } catch (error) {
+    return createFail(createErrorString(error));
+  }
+};
+
+/**
+ * Finds the ring buffer file covering a point in time.
+ *
+ * @param files - Files as returned by listRingBufferFiles
+ * @param timestamp - The point in time to look for
+ * @returns The file whose time span includes the timestamp, or undefined if
+ *          the timestamp is before the oldest retained file
+ *
+ * @example
+ * ```ts
+ * const file = findRingBufferFile(files, new Date("2024-03-01T12:07:30Z"));
+ * ```
+ */
+export const findRingBufferFile = (
+  files: RingBufferFile[],
+  timestamp: Date,
+): RingBufferFile | undefined => {
+  const time = timestamp.getTime();
+  return files.find((file) =>
+    Date.parse(file.start) <= time &&
+    (file.end === undefined || time < Date.parse(file.end))
+  );
+};
+
+/**
+ * Builds the dumpcap arguments for a ring buffer capture.
+ *
+ * @param options - Ring buffer options
+ * @returns The argument list to pass to dumpcap
+ */
+export const buildRingBufferArgs = (options: RingBufferOptions): string[] => [
+  "-i",
+  options.interface,
+  "-w",
+  `${options.directory}/${options.prefix ?? DEFAULT_PREFIX}.pcapng`,
+  ...(options.fileSize !== undefined
+    ? ["-b", `filesize:${options.fileSize}`]
+    : []),
+  ...(options.fileDuration !== undefined
+    ? ["-b", `duration:${options.fileDuration}`]
+    : []),
+  ...(options.maxFiles !== undefined
+    ? ["-b", `files:${options.maxFiles}`]
+    : []),
+  ...(options.snaplen !== undefined ? ["-s", String(options.snaplen)] : []),
+  ...(options.filter ? ["-f", options.filter] : []),
+  "-q",
+];
+
+/**
+ * Starts a background "black box" capture into a ring buffer of pcapng files.
+ *
+ * Runs dumpcap with ring buffer options so that it switches to a new file
+ * after `fileSize` kilobytes or `fileDuration` seconds and keeps at most
+ * `maxFiles` files, deleting the oldest. The returned handle stops the
+ * capture, lists completed files and finds the file covering a given time,
+ * so the relevant slice can be pulled after an incident.
+ *
+ * The capture runs on this machine and writes to a local directory, so it
+ * fails with kind "unsupported" within a remote executor such as withSshHost.
+ *
+ * @param options - Ring buffer options (interface, directory, rotation and retention)
+ * @returns A Promise resolving to a Result containing the capture handle,
+ *          or an error if the directory cannot be created
+ *
+ * @example
+ * ```ts
+ * const result = await startRingBufferCapture({
+ *   interface: "eth0",
+ *   directory: "/var/lib/blackbox",
+ *   fileDuration: 300,
+ *   maxFiles: 288,
+ * });
+ * if (isSuccess(result)) {
+ *   const capture = result.output;
+ *   // ... later, after an incident
+ *   const file = await capture.findFile(new Date("2024-03-01T12:07:30Z"));
+ * }
+ * ```
+ */
+export const startRingBufferCapture = async (
+  options: RingBufferOptions,
+): Promise<Result<RingBufferCapture>> => {
+  const { host } = getCommandExecutor();
+  if (host !== undefined) {
+    return createKindFail(
+      "unsupported",
+      `Ring buffer captures cannot run on ${host}`,
+    );
+  }
+  const prefix = options.prefix ?? DEFAULT_PREFIX;
+  try {
+    await mkdir(options.directory, { recursive: true });
+  } catch (error) {
+    return createFail(createErrorString(error));
+  }
+
+  const controller = new AbortController();
+  let running = true;
+  const done = (async (): Promise<Result<void>> => {
+    try {
+      // dumpcap writes to files; draining stdout just waits for it to exit
+      for await (
+        const _ of streamCommand("dumpcap", {
+          args: buildRingBufferArgs(options),
+          classifyError: classifyTsharkError,
+          signal: controller.signal,
+        })
+      ) {
+        // Nothing to do
+      }
+      return createSuccess(undefined);
+    } catch (error) {
+      return createFail(createErrorString(error));
+    } finally {
+      running = false;
+    }
+  })();
+
+  const listAll = () => listRingBufferFiles(options.directory, prefix);
+
+  return createSuccess({
+    directory: options.directory,
+    prefix,
+    done,
+    isRunning: () => running,
+    stop: () =>
+      rpipeAsync(
+        () => {
+          controller.abort();
+          return done;
+        },
+        () => listAll(),
+      ),
+    listFiles: () =>
+      rpipeAsync(
+        () => listAll(),
+        (files) => createSuccess(running ? files.slice(0, -1) : files),
+      ),
+    findFile: (timestamp) =>
+      rpipeAsync(
+        () => listAll(),
+        (files) => {
+          const file = findRingBufferFile(files, timestamp);
+          return file ? createSuccess(file) : createKindFail(
+            "not-found",
+            "No capture file covers the requested time",
+          );
+        },
+      ),
+  });
+};
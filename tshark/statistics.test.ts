@@ -0,0 +1,111 @@
+import { describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import {
+  buildStatisticsArgs,
+  parseConversationStatistics,
+  parseEndpointStatistics,
+  parseIoStatistics,
+} from "./statistics.ts";
+import { isTsharkConversation, isTsharkEndpoint } from "./types.ts";
+
+const readFixture = (name: string) =>
+  Deno.readTextFile(new URL(`./fixtures/${name}`, import.meta.url));
+
+describe("parseConversationStatistics", () => {
+  it("should parse TCP conversations with per-direction counts", async () => {
+    const conversations = parseConversationStatistics(
+      await readFixture("conv-tcp.txt"),
+      "tcp",
+    );
+    expect(conversations.length).toBe(2);
+    expect(conversations.every(isTsharkConversation)).toBe(true);
+    expect(conversations[0]).toEqual({
+      addressA: "192.168.1.10",
+      portA: 49152,
+      addressB: "192.168.1.20",
+      portB: 502,
+      framesAToB: 42,
+      bytesAToB: 2772,
+      framesBToA: 40,
+      bytesBToA: 2680,
+      frames: 82,
+      bytes: 5452,
+      relativeStart: 0,
+      duration: 20,
+      bitsPerSecondAToB: 1108.8,
+      bitsPerSecondBToA: 1072,
+    });
+  });
+  it("should expand byte units and handle zero durations", async () => {
+    const [, conversation] = parseConversationStatistics(
+      await readFixture("conv-tcp.txt"),
+      "tcp",
+    );
+    expect(conversation.bytesBToA).toBe(1200);
+    expect(conversation.bytes).toBe(1600);
+    expect(conversation.bitsPerSecondAToB).toBe(0);
+  });
+});
+
+describe("parseEndpointStatistics", () => {
+  it("should parse IP endpoints", async () => {
+    const endpoints = parseEndpointStatistics(
+      await readFixture("endpoints-ip.txt"),
+      "ip",
+    );
+    expect(endpoints.every(isTsharkEndpoint)).toBe(true);
+    expect(endpoints[0]).toEqual({
+      address: "192.168.1.20",
+      port: undefined,
+      packets: 93,
+      bytes: 7052,
+      txPackets: 46,
+      txBytes: 3076,
+      rxPackets: 47,
+      rxBytes: 3976,
+    });
+    expect(endpoints.length).toBe(2);
+  });
+  it("should parse the port column of TCP endpoints", async () => {
+    const [endpoint] = parseEndpointStatistics(
+      await readFixture("endpoints-tcp.txt"),
+      "tcp",
+    );
+    expect(endpoint.port).toBe(502);
+    expect(endpoint.packets).toBe(93);
+    expect(endpoint.rxBytes).toBe(3976);
+  });
+});
+
+describe("parseIoStatistics", () => {
+  it("should parse intervals and close the last one at the duration", async () => {
+    const intervals = parseIoStatistics(await readFixture("io-stat.txt"));
+    expect(intervals).toEqual([
+      { start: 0, end: 10, frames: 50, bytes: 4000, bitsPerSecond: 3200 },
+      { start: 10, end: 20, frames: 40, bytes: 2500, bitsPerSecond: 2000 },
+      {
+        start: 20,
+        end: 25.5,
+        frames: 3,
+        bytes: 552,
+        bitsPerSecond: 802.9090909090909,
+      },
+    ]);
+  });
+});
+
+describe("buildStatisticsArgs", () => {
+  it("should read from a file with the filter in the statistic", () => {
+    expect(
+      buildStatisticsArgs(
+        { path: "in.pcap", filter: "tcp.port == 502" },
+        "conv,tcp",
+      ),
+    ).toEqual(["-r", "in.pcap", "-q", "-z", "conv,tcp,tcp.port == 502"]);
+  });
+  it("should bound a live capture by duration", () => {
+    expect(
+      buildStatisticsArgs({ interface: "eth0", duration: 30 }, "endpoints,ip"),
+    ).toEqual(["-i", "eth0", "-a", "duration:30", "-Q", "-z", "endpoints,ip"]);
+  });
+});
@@ -0,0 +1,321 @@
+import { Result } from "@joyautomation/dark-matter";
+import { CancellationOptions, runCommandAndProcessOutput } from "../command.ts";
+import { classifyTsharkError } from "./command.ts";
+import {
+  ConversationType,
+  EndpointType,
+  StatisticsSource,
+  TsharkConversation,
+  TsharkEndpoint,
+  TsharkIoInterval,
+} from "./types.ts";
+
+// Multipliers for the human-readable byte counts newer tshark releases print
+const BYTE_UNITS: Record<string, number> = {
+  bytes: 1,
+  kB: 1e3,
+  MB: 1e6,
+  GB: 1e9,
+  TB: 1e12,
+  KiB: 1024,
+  MiB: 1024 ** 2,
+  GiB: 1024 ** 3,
+};
+
+/**
+ * Parses the numeric columns of a statistics row.
+ *
+ * Accepts thousands separators and folds unit suffixes ("350 bytes",
+ * "1.2 kB") into the preceding number.
+ */
+const parseColumns = (text: string): number[] =>
+  text.trim().split(/\s+/).reduce<number[]>((values, token) => {
+    const unit = BYTE_UNITS[token];
+    if (unit !== undefined && values.length > 0) {
+      values[values.length - 1] = Math.round(values[values.length - 1] * unit);
+      return values;
+    }
+    const value = Number(token.replaceAll(",", ""));
+    return Number.isNaN(value) ? values : [...values, value];
+  }, []);
+
+const splitAddress = (
+  value: string,
+  hasPort: boolean,
+): { address: string; port?: number } => {
+  if (!hasPort) return { address: value };
+  // Split at the last colon so IPv6 addresses keep their own colons
+  const index = value.lastIndexOf(":");
+  return index === -1
+    ? { address: value }
+    : { address: value.slice(0, index), port: Number(value.slice(index + 1)) };
+};
+
+const bitsPerSecond = (bytes: number, seconds: number): number =>
+  seconds > 0 ? (bytes * 8) / seconds : 0;
+
+/**
+ * Parses the output of `tshark -q -z conv,<type>`.
+ *
+ * @param output - The raw stdout of the statistics run
+ * @param type - The conversation type that was requested
+ * @returns An array of conversations in the order tshark listed them
+ *
+ * @example
+ * ```ts
+ * const conversations = parseConversationStatistics(output, "tcp");
+ * ```
+ */
+export const parseConversationStatistics = (
+  output: string,
+  type: ConversationType,
+): TsharkConversation[] => {
+  const hasPort = type === "tcp" || type === "udp";
+  return output.split("\n").flatMap((line) => {
+    const match = line.match(/^(\S+)\s+<->\s+(\S+)\s+(.+)$/);
+    if (!match) return [];
+    const columns = parseColumns(match[3]);
+    if (columns.length < 8) return [];
+    const [
+      framesBToA,
+      bytesBToA,
+      framesAToB,
+      bytesAToB,
+      frames,
+      bytes,
+      relativeStart,
+      duration,
+    ] = columns;
+    const a = splitAddress(match[1], hasPort);
+    const b = splitAddress(match[2], hasPort);
+    return [{
+      addressA: a.address,
+      portA: a.port,
+      addressB: b.address,
+      portB: b.port,
+      framesAToB,
+      bytesAToB,
+      framesBToA,
+      bytesBToA,
+      frames,
+      bytes,
+      relativeStart,
+      duration,
+      bitsPerSecondAToB: bitsPerSecond(bytesAToB, duration),
+      bitsPerSecondBToA: bitsPerSecond(bytesBToA, duration),
+    }];
+  });
+};
+
+/**
+ * Parses the output of `tshark -q -z endpoints,<type>`.
+ *
+ * @param output - The raw stdout of the statistics run
+ * @param type - The endpoint type that was requested
+ * @returns An array of endpoints in the order tshark listed them
+ *
+ * @example
+ * ```ts
+ * const endpoints = parseEndpointStatistics(output, "ip");
+ * ```
+ */
+export const parseEndpointStatistics = (
+  output: string,
+  type: EndpointType,
+): TsharkEndpoint[] => {
+  const hasPort = type === "tcp" || type === "udp";
+  return output.split("\n").flatMap((line) => {
+    // Data rows start with the address; headers and borders do not
+    const match = line.match(/^([^\s|=]+)\s+(.+)$/);
+    if (!match) return [];
+    const columns = parseColumns(match[2]);
+    const expected = hasPort ? 7 : 6;
+    if (columns.length < expected) return [];
+    const [packets, bytes, txPackets, txBytes, rxPackets, rxBytes] = hasPort
+      ? columns.slice(1)
+      : columns;
+    return [{
+      address: match[1],
+      port: hasPort ? columns[0] : undefined,
+      packets,
+      bytes,
+      txPackets,
+      txBytes,
+      rxPackets,
+      rxBytes,
+    }];
+  });
+};
+
+/**
+ * Parses the output of `tshark -q -z io,stat,<interval>`.
+ *
+ * The final interval, which tshark labels as ending at "Dur", is closed at
+ * the capture duration.
+ *
+ * @param output - The raw stdout of the statistics run
+ * @returns An array of intervals in chronological order
+ *
+ * @example
+ * ```ts
+ * const intervals = parseIoStatistics(output);
+ * ```
+ */
+export const parseIoStatistics = (output: string): TsharkIoInterval[] => {
+  const duration = Number(
+    output.match(/Duration:\s*([\d.]+)\s*secs/)?.[1] ?? 0,
+  );
+  return output.split("\n").flatMap((line) => {
+    const match = line.match(
+      /^\|\s*([\d.]+)\s*<>\s*([\d.]+|Dur)\s*\|\s*([\d,]+)\s*\|\s*([\d,]+)\s*\|/,
+    );
+    if (!match) return [];
+    const start = Number(match[1]);
+    const end = match[2] === "Dur" ? duration : Number(match[2]);
+    const bytes = Number(match[4].replaceAll(",", ""));
+    return [{
+      start,
+      end,
+      frames: Number(match[3].replaceAll(",", "")),
+      bytes,
+      bitsPerSecond: bitsPerSecond(bytes, end - start),
+    }];
+  });
+};
+
+/**
+ * Builds the tshark arguments for a statistics run.
+ *
+ * @param source - Capture file or bounded live capture to analyze
+ * @param statistic - The `-z` statistic without its filter (e.g. "conv,tcp")
+ * @returns The argument list to pass to tshark
+ */
+export const buildStatisticsArgs = (
+  source: StatisticsSource,
+  statistic: string,
+): string[] => [
+  ...("path" in source ? ["-r", source.path, "-q"] : [
+    "-i",
+    source.interface,
+    "-a",
+    `duration:${source.duration}`,
+    ...(source.count !== undefined ? ["-c", String(source.count)] : []),
+    // -Q also keeps the "Capturing on ..." banner off stderr
+    "-Q",
+  ]),
+  "-z",
+  source.filter ? `${statistic},${source.filter}` : statistic,
+];
+
+/**
+ * Retrieves conversation statistics from a capture file or live interface.
+ *
+ * Executes `tshark -q -z conv,<type>` and parses the table into typed
+ * conversations with per-direction frame and byte counts, duration and
+ * average rates.
+ *
+ * @param type - Conversation type (e.g. "tcp", "udp", "ip")
+ * @param source - Capture file or bounded live capture to analyze
+ * @param options - Timeout and AbortSignal for the command
+ * @returns A Promise resolving to a Result containing the conversations,
+ *          or an error if the command fails
+ *
+ * @example
+ * ```ts
+ * // Who is talking to the PLC, and how much?
+ * const result = await getConversations("tcp", {
+ *   interface: "eth0",
+ *   duration: 60,
+ *   filter: "ip.addr == 192.168.1.20",
+ * });
+ * if (isSuccess(result)) {
+ *   for (const conv of result.output) {
+ *     console.log(`${conv.addressA} -> ${conv.addressB}: ${conv.bytesAToB} bytes`);
+ *   }
+ * }
+ * ```
+ */
+export const getConversations = (
+  type: ConversationType,
+  source: StatisticsSource,
+  options: CancellationOptions = {},
+): Promise<Result<TsharkConversation[]>> =>
+  runCommandAndProcessOutput<TsharkConversation[]>(
+    (output) => parseConversationStatistics(output, type),
+    "tshark",
+    {
+      args: buildStatisticsArgs(source, `conv,${type}`),
+      classifyError: classifyTsharkError,
+      ...options,
+    },
+  );
+
+/**
+ * Retrieves endpoint statistics from a capture file or live interface.
+ *
+ * Executes `tshark -q -z endpoints,<type>` and parses the table into typed
+ * endpoints with transmitted and received packet and byte counts.
+ *
+ * @param type - Endpoint type (e.g. "ip", "tcp")
+ * @param source - Capture file or bounded live capture to analyze
+ * @param options - Timeout and AbortSignal for the command
+ * @returns A Promise resolving to a Result containing the endpoints,
+ *          or an error if the command fails
+ *
+ * @example
+ * ```ts
+ * const result = await getEndpoints("ip", { path: "plant-a.pcapng" });
+ * if (isSuccess(result)) {
+ *   const busiest = result.output.toSorted((a, b) => b.bytes - a.bytes)[0];
+ * }
+ * ```
+ */
+export const getEndpoints = (
+  type: EndpointType,
+  source: StatisticsSource,
+  options: CancellationOptions = {},
+): Promise<Result<TsharkEndpoint[]>> =>
+  runCommandAndProcessOutput<TsharkEndpoint[]>(
+    (output) => parseEndpointStatistics(output, type),
+    "tshark",
+    {
+      args: buildStatisticsArgs(source, `endpoints,${type}`),
+      classifyError: classifyTsharkError,
+      ...options,
+    },
+  );
+
+/**
+ * Retrieves traffic volume over time from a capture file or live interface.
+ *
+ * Executes `tshark -q -z io,stat,<interval>` and parses the frame and byte
+ * counts of each interval.
+ *
+ * @param interval - Interval length in seconds
+ * @param source - Capture file or bounded live capture to analyze
+ * @param options - Timeout and AbortSignal for the command
+ * @returns A Promise resolving to a Result containing the intervals,
+ *          or an error if the command fails
+ *
+ * @example
+ * ```ts
+ * const result = await getIoStatistics(10, { path: "plant-a.pcapng" });
+ * if (isSuccess(result)) {
+ *   console.log(result.output.map((i) => i.bitsPerSecond));
+ * }
+ * ```
+ */
+export const getIoStatistics = (
+  interval: number,
+  source: StatisticsSource,
+  options: CancellationOptions = {},
+): Promise<Result<TsharkIoInterval[]>> =>
+  runCommandAndProcessOutput<TsharkIoInterval[]>(
+    parseIoStatistics,
+    "tshark",
+    {
+      args: buildStatisticsArgs(source, `io,stat,${interval}`),
+      classifyError: classifyTsharkError,
+      ...options,
+    },
+  );
@@ -0,0 +1,1181 @@
+import { Result } from "@joyautomation/dark-matter";
+import { CancellationOptions } from "../command.ts";
+import { IpAddressInfo, IpInterface } from "../ip/types.ts";
+
+// Types for `tshark -T json` command output
+
+/**
+ * A single field value in tshark's JSON output.
+ *
+ * tshark renders every field as a string. When `--no-duplicate-keys` is used,
+ * fields that occur more than once in a layer are merged into an array, and
+ * protocol subtrees (e.g. `ip.flags_tree`) are rendered as nested objects.
+ */
+export type TsharkFieldValue = string | string[] | TsharkLayer | TsharkLayer[];
+
+/**
+ * A dissected protocol layer, keyed by Wireshark field name (e.g. `ip.src`).
+ */
+export interface TsharkLayer {
+  [field: string]: TsharkFieldValue;
+}
+
+/**
+ * The `frame` layer that tshark emits for every packet.
+ *
+ * Contains capture metadata such as the arrival time, frame number, length
+ * and the colon-separated protocol stack.
+ */
+export interface TsharkFrameLayer extends TsharkLayer {
+  /** Arrival time as seconds since the epoch (e.g. "1700000000.123456000") */
+  "frame.time_epoch": string;
+  /** Frame number within the capture, starting at 1 */
+  "frame.number": string;
+  /** Frame length on the wire in bytes */
+  "frame.len": string;
+  /** Protocol stack (e.g. "eth:ethertype:ip:tcp:http") */
+  "frame.protocols": string;
+}
+
+/**
+ * All dissected layers of a packet, keyed by protocol name (e.g. `eth`, `ip`, `tcp`).
+ */
+export interface TsharkLayers {
+  /** Frame metadata, always present */
+  frame: TsharkFrameLayer;
+  /** Additional protocol layers */
+  [protocol: string]: TsharkLayer | TsharkLayer[] | undefined;
+}
+
+/**
+ * Represents a single packet as emitted by `tshark -T json`.
+ *
+ * tshark wraps each packet in an Elasticsearch-style envelope; the dissected
+ * layers live under `_source.layers`.
+ */
+export interface TsharkJsonPacket {
+  /** Elasticsearch index name (e.g. "packets-2024-01-01") */
+  _index: string;
+  /** Document type (always "doc") */
+  _type: string;
+  /** Document score (always null) */
+  _score: null;
+  /** Packet contents */
+  _source: {
+    /** Dissected protocol layers */
+    layers: TsharkLayers;
+  };
+}
+
+/**
+ * An array of packets returned by the `tshark -T json` command.
+ */
+export type TsharkJsonPacketList = TsharkJsonPacket[];
+
+/**
+ * Type guard to validate if unknown data is a valid TsharkJsonPacket.
+ *
+ * Checks that the data has the `_source.layers` envelope and a `frame` layer
+ * containing the fields every packet is expected to carry.
+ *
+ * @param data - The data to validate
+ * @returns True if data is a valid TsharkJsonPacket, false otherwise
+ *
+ * @example
+ * ```ts
+ * const data = JSON.parse(output);
+ * if (isTsharkJsonPacket(data[0])) {
+ *   console.log(data[0]._source.layers.frame["frame.number"]);
+ * }
+ * ```
+ */
+export const isTsharkJsonPacket = (data: unknown): data is TsharkJsonPacket => {
+  if (typeof data !== "object" || data === null) return false;
+
+  const item = data as Record<string, unknown>;
+  if (typeof item._source !== "object" || item._source === null) return false;
+
+  const source = item._source as Record<string, unknown>;
+  if (typeof source.layers !== "object" || source.layers === null) {
+    return false;
+  }
+
+  const layers = source.layers as Record<string, unknown>;
+  if (typeof layers.frame !== "object" || layers.frame === null) return false;
+
+  const frame = layers.frame as Record<string, unknown>;
+  return (
+    typeof frame["frame.time_epoch"] === "string" &&
+    typeof frame["frame.number"] === "string" &&
+    typeof frame["frame.len"] === "string" &&
+    typeof frame["frame.protocols"] === "string"
+  );
+};
+
+/**
+ * Type guard to validate if unknown data is a valid TsharkJsonPacketList.
+ *
+ * @param data - The data to validate
+ * @returns True if data is a valid TsharkJsonPacketList, false otherwise
+ *
+ * @example
+ * ```ts
+ * const data = JSON.parse(output);
+ * if (isTsharkJsonPacketList(data)) {
+ *   console.log(`${data.length} packets`);
+ * }
+ * ```
+ */
+export const isTsharkJsonPacketList = (
+  data: unknown,
+): data is TsharkJsonPacketList =>
+  Array.isArray(data) && data.every((item) => isTsharkJsonPacket(item));
+
+// Typed packet model
+
+/**
+ * Represents a captured packet with its commonly used fields extracted.
+ *
+ * The addressing fields are taken from the innermost network layer (IPv4 or
+ * IPv6), falling back to the Ethernet layer for non-IP traffic. Industrial
+ * protocol layers are decoded into typed properties (see IndustrialLayers).
+ * The full dissection is kept in `layers` for anything not surfaced here.
+ */
+export interface TsharkPacket extends IndustrialLayers {
+  /** Frame number within the capture, starting at 1 */
+  number: number;
+  /** Arrival time as an ISO 8601 string */
+  timestamp: string;
+  /** Arrival time as seconds since the epoch, with sub-second precision */
+  epoch: number;
+  /** Frame length on the wire in bytes */
+  length: number;
+  /** Protocol stack from outermost to innermost (e.g. ["eth", "ethertype", "ip", "tcp"]) */
+  protocols: string[];
+  /** Highest-layer protocol (last entry of `protocols`) */
+  protocol: string;
+  /** Source address (IP address, or MAC address for non-IP traffic) */
+  source?: string;
+  /** Destination address (IP address, or MAC address for non-IP traffic) */
+  destination?: string;
+  /** TCP or UDP source port */
+  sourcePort?: number;
+  /** TCP or UDP destination port */
+  destinationPort?: number;
+  /** All dissected protocol layers */
+  layers: TsharkLayers;
+}
+
+/**
+ * Type guard to validate if unknown data is a valid TsharkPacket.
+ *
+ * @param data - The data to validate
+ * @returns True if data is a valid TsharkPacket, false otherwise
+ *
+ * @example
+ * ```ts
+ * if (isTsharkPacket(someData)) {
+ *   console.log(`${someData.source} -> ${someData.destination}`);
+ * }
+ * ```
+ */
+export const isTsharkPacket = (data: unknown): data is TsharkPacket => {
+  if (typeof data !== "object" || data === null) return false;
+
+  const item = data as Record<string, unknown>;
+  return (
+    typeof item.number === "number" &&
+    typeof item.timestamp === "string" &&
+    typeof item.epoch === "number" &&
+    typeof item.length === "number" &&
+    Array.isArray(item.protocols) &&
+    typeof item.protocol === "string" &&
+    typeof item.layers === "object" &&
+    item.layers !== null
+  );
+};
+
+/**
+ * Type guard to validate if unknown data is a valid TsharkPacket array.
+ *
+ * @param data - The data to validate
+ * @returns True if data is an array of valid TsharkPackets, false otherwise
+ */
+export const isTsharkPacketList = (data: unknown): data is TsharkPacket[] =>
+  Array.isArray(data) && data.every((item) => isTsharkPacket(item));
+
+/**
+ * Options for a bounded live capture with `capturePackets`.
+ */
+export interface CaptureOptions extends CancellationOptions {
+  /** Interface to capture on (e.g. "eth0", "any") */
+  interface: string;
+  /** Stop after this many packets */
+  count: number;
+  /** Capture filter in BPF syntax (e.g. "tcp port 80") */
+  filter?: string;
+  /** Stop after this many seconds even if `count` has not been reached */
+  duration?: number;
+  /** Maximum number of bytes to capture per packet */
+  snaplen?: number;
+}
+
+/**
+ * Options for an open-ended live capture with `streamPackets`.
+ *
+ * Without `count` or `duration` the capture runs until the signal is aborted
+ * or the consumer stops iterating.
+ */
+export interface StreamCaptureOptions
+  extends Omit<CaptureOptions, "count" | "timeout"> {
+  /** Stop after this many packets */
+  count?: number;
+  /** Signal used to stop the capture */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for reading packets from a capture file with `readCaptureFile`.
+ */
+export interface ReadCaptureOptions extends CancellationOptions {
+  /** Path to a pcap or pcapng file */
+  path: string;
+  /** Display filter in Wireshark syntax (e.g. "modbus || tcp.port == 502") */
+  filter?: string;
+  /** Stop after reading this many packets */
+  count?: number;
+}
+
+/**
+ * Summary of a set of captured packets.
+ */
+export interface CaptureSummary {
+  /** Number of packets */
+  packetCount: number;
+  /** Total number of bytes on the wire */
+  byteCount: number;
+  /** Arrival time of the first packet as an ISO 8601 string */
+  firstTimestamp?: string;
+  /** Arrival time of the last packet as an ISO 8601 string */
+  lastTimestamp?: string;
+  /** Time between the first and last packet in seconds */
+  duration: number;
+  /** Every protocol that appears in any packet's protocol stack, sorted */
+  protocols: string[];
+}
+
+/**
+ * Type guard to validate if unknown data is a valid CaptureSummary.
+ *
+ * @param data - The data to validate
+ * @returns True if data is a valid CaptureSummary, false otherwise
+ */
+export const isCaptureSummary = (data: unknown): data is CaptureSummary => {
+  if (typeof data !== "object" || data === null) return false;
+
+  const item = data as Record<string, unknown>;
+  return (
+    typeof item.packetCount === "number" &&
+    typeof item.byteCount === "number" &&
+    typeof item.duration === "number" &&
+    Array.isArray(item.protocols)
+  );
+};
+
+// Industrial protocol layers
+
+/**
+ * Modbus function codes.
+ *
+ * Public function codes defined by the Modbus application protocol
+ * specification.
+ */
+export enum ModbusFunctionCode {
+  /** Read Coils */
+  ReadCoils = 1,
+  /** Read Discrete Inputs */
+  ReadDiscreteInputs = 2,
+  /** Read Holding Registers */
+  ReadHoldingRegisters = 3,
+  /** Read Input Registers */
+  ReadInputRegisters = 4,
+  /** Write Single Coil */
+  WriteSingleCoil = 5,
+  /** Write Single Register */
+  WriteSingleRegister = 6,
+  /** Read Exception Status (serial line only) */
+  ReadExceptionStatus = 7,
+  /** Diagnostics (serial line only) */
+  Diagnostics = 8,
+  /** Write Multiple Coils */
+  WriteMultipleCoils = 15,
+  /** Write Multiple Registers */
+  WriteMultipleRegisters = 16,
+  /** Report Server ID (serial line only) */
+  ReportServerId = 17,
+  /** Mask Write Register */
+  MaskWriteRegister = 22,
+  /** Read/Write Multiple Registers */
+  ReadWriteMultipleRegisters = 23,
+  /** Encapsulated Interface Transport (e.g. Read Device Identification) */
+  EncapsulatedInterfaceTransport = 43,
+}
+
+/**
+ * A decoded Modbus/TCP application data unit (`mbtcp` and `modbus` layers).
+ */
+export interface ModbusTcpLayer {
+  /** MBAP transaction identifier, pairing requests with responses */
+  transactionId: number;
+  /** MBAP protocol identifier (0 for Modbus) */
+  protocolId: number;
+  /** MBAP length field: number of following bytes */
+  length: number;
+  /** Unit (slave) identifier */
+  unitId: number;
+  /** Function code, without the exception bit */
+  functionCode?: ModbusFunctionCode | number;
+  /** Exception code, present when the response is an exception */
+  exceptionCode?: number;
+  /** Starting coil or register address */
+  referenceNumber?: number;
+  /** Number of registers requested or written */
+  wordCount?: number;
+  /** Number of coils or discrete inputs requested or written */
+  bitCount?: number;
+  /** Byte count of the data that follows */
+  byteCount?: number;
+  /** Register values carried by the PDU, as unsigned 16-bit integers */
+  registers?: number[];
+  /** Frame number of the matching request (responses only) */
+  requestFrame?: number;
+}
+
+/**
+ * Type guard to validate if unknown data is a valid ModbusTcpLayer.
+ *
+ * @param data - The data to validate
+ * @returns True if data is a valid ModbusTcpLayer, false otherwise
+ */
+export const isModbusTcpLayer = (data: unknown): data is ModbusTcpLayer => {
+  if (typeof data !== "object" || data === null) return false;
+
+  const item = data as Record<string, unknown>;
+  return (
+    typeof item.transactionId === "number" &&
+    typeof item.protocolId === "number" &&
+    typeof item.length === "number" &&
+    typeof item.unitId === "number"
+  );
+};
+
+/**
+ * A decoded EtherNet/IP encapsulation header (`enip` layer).
+ */
+export interface EnipLayer {
+  /** Encapsulation command (e.g. 0x65 RegisterSession, 0x6f SendRRData, 0x70 SendUnitData) */
+  command: number;
+  /** Length of the data portion in bytes */
+  length: number;
+  /** Session handle */
+  session: number;
+  /** Encapsulation status (0 for success) */
+  status: number;
+  /** Sender context, as a hex string */
+  senderContext?: string;
+}
+
+/**
+ * Type guard to validate if unknown data is a valid EnipLayer.
+ *
+ * @param data - The data to validate
+ * @returns True if data is a valid EnipLayer, false otherwise
+ */
+export const isEnipLayer = (data: unknown): data is EnipLayer => {
+  if (typeof data !== "object" || data === null) return false;
+
+  const item = data as Record<string, unknown>;
+  return (
+    typeof item.command === "number" &&
+    typeof item.length === "number" &&
+    typeof item.session === "number" &&
+    typeof item.status === "number"
+  );
+};
+
+/**
+ * A decoded Common Industrial Protocol message (`cip` layer).
+ */
+export interface CipLayer {
+  /** Service code, without the response bit (e.g. 0x0e Get_Attribute_Single, 0x4c Read Tag) */
+  service: number;
+  /** Whether the message is a response */
+  isResponse: boolean;
+  /** Class ID from the request path */
+  classId?: number;
+  /** Instance ID from the request path */
+  instance?: number;
+  /** Attribute ID from the request path */
+  attribute?: number;
+  /** Symbolic segment (tag name) from the request path */
+  symbol?: string;
+  /** General status of a response (0 for success) */
+  generalStatus?: number;
+}
+
+/**
+ * Type guard to validate if unknown data is a valid CipLayer.
+ *
+ * @param data - The data to validate
+ * @returns True if data is a valid CipLayer, false otherwise
+ */
+export const isCipLayer = (data: unknown): data is CipLayer => {
+  if (typeof data !== "object" || data === null) return false;
+
+  const item = data as Record<string, unknown>;
+  return (
+    typeof item.service === "number" &&
+    typeof item.isResponse === "boolean"
+  );
+};
+
+/**
+ * OPC UA Connection Protocol message types.
+ */
+export type OpcUaMessageType =
+  | "HEL"
+  | "ACK"
+  | "ERR"
+  | "RHE"
+  | "OPN"
+  | "MSG"
+  | "CLO";
+
+/**
+ * A decoded OPC UA binary message (`opcua` layer).
+ */
+export interface OpcUaLayer {
+  /** Message type from the transport header */
+  messageType: OpcUaMessageType | string;
+  /** Total message size in bytes */
+  messageSize: number;
+  /** Secure channel identifier */
+  secureChannelId?: number;
+  /** Security token identifier */
+  securityTokenId?: number;
+  /** Security sequence number */
+  sequenceNumber?: number;
+  /** Request identifier, pairing requests with responses */
+  requestId?: number;
+  /** Numeric node ID of the encoded service (e.g. 631 ReadRequest) */
+  serviceNodeId?: number;
+}
+
+/**
+ * Type guard to validate if unknown data is a valid OpcUaLayer.
+ *
+ * @param data - The data to validate
+ * @returns True if data is a valid OpcUaLayer, false otherwise
+ */
+export const isOpcUaLayer = (data: unknown): data is OpcUaLayer => {
+  if (typeof data !== "object" || data === null) return false;
+
+  const item = data as Record<string, unknown>;
+  return (
+    typeof item.messageType === "string" &&
+    typeof item.messageSize === "number"
+  );
+};
+
+/**
+ * MQTT control packet types.
+ */
+export enum MqttMessageType {
+  /** Client request to connect to the server */
+  Connect = 1,
+  /** Connect acknowledgment */
+  ConnAck = 2,
+  /** Publish message */
+  Publish = 3,
+  /** Publish acknowledgment (QoS 1) */
+  PubAck = 4,
+  /** Publish received (QoS 2, part 1) */
+  PubRec = 5,
+  /** Publish release (QoS 2, part 2) */
+  PubRel = 6,
+  /** Publish complete (QoS 2, part 3) */
+  PubComp = 7,
+  /** Subscribe request */
+  Subscribe = 8,
+  /** Subscribe acknowledgment */
+  SubAck = 9,
+  /** Unsubscribe request */
+  Unsubscribe = 10,
+  /** Unsubscribe acknowledgment */
+  UnsubAck = 11,
+  /** Ping request */
+  PingReq = 12,
+  /** Ping response */
+  PingResp = 13,
+  /** Disconnect notification */
+  Disconnect = 14,
+  /** Authentication exchange (MQTT 5) */
+  Auth = 15,
+}
+
+/**
+ * A decoded MQTT control packet (`mqtt` layer).
+ */
+export interface MqttLayer {
+  /** Control packet type */
+  messageType: MqttMessageType | number;
+  /** Remaining length of the packet in bytes */
+  length: number;
+  /** Quality of service level (PUBLISH only) */
+  qos?: number;
+  /** Retain flag (PUBLISH only) */
+  retain?: boolean;
+  /** Duplicate delivery flag (PUBLISH only) */
+  duplicate?: boolean;
+  /** Topic name (PUBLISH) or first topic filter (SUBSCRIBE) */
+  topic?: string;
+  /** Packet identifier */
+  messageId?: number;
+  /** Client identifier (CONNECT only) */
+  clientId?: string;
+  /** Protocol version (CONNECT only, e.g. 4 for 3.1.1, 5 for 5.0) */
+  protocolVersion?: number;
+  /** Application payload as a hex string (PUBLISH only) */
+  payload?: string;
+}
+
+/**
+ * Type guard to validate if unknown data is a valid MqttLayer.
+ *
+ * @param data - The data to validate
+ * @returns True if data is a valid MqttLayer, false otherwise
+ */
+export const isMqttLayer = (data: unknown): data is MqttLayer => {
+  if (typeof data !== "object" || data === null) return false;
+
+  const item = data as Record<string, unknown>;
+  return (
+    typeof item.messageType === "number" &&
+    typeof item.length === "number"
+  );
+};
+
+/**
+ * A variable address item in an S7comm read or write request.
+ */
+export interface S7commItem {
+  /** Memory area (e.g. 0x84 data blocks, 0x81 inputs, 0x82 outputs, 0x83 flags) */
+  area: number;
+  /** Data block number (data block area only) */
+  dbNumber?: number;
+  /** Bit address within the area */
+  address: number;
+}
+
+/**
+ * A decoded S7 communication PDU (`s7comm` layer).
+ */
+export interface S7commLayer {
+  /** Remote operating service control: 1 job, 2 ack, 3 ack-data, 7 userdata */
+  rosctr: number;
+  /** PDU reference, pairing jobs with their acknowledgments */
+  pduReference: number;
+  /** Function code (e.g. 0x04 read variable, 0x05 write variable, 0xf0 setup communication) */
+  function?: number;
+  /** Number of items in the request */
+  itemCount?: number;
+  /** Variable address items of a read or write request */
+  items?: S7commItem[];
+  /** Error class of an acknowledgment (0 for success) */
+  errorClass?: number;
+  /** Error code of an acknowledgment (0 for success) */
+  errorCode?: number;
+}
+
+/**
+ * Type guard to validate if unknown data is a valid S7commLayer.
+ *
+ * @param data - The data to validate
+ * @returns True if data is a valid S7commLayer, false otherwise
+ */
+export const isS7commLayer = (data: unknown): data is S7commLayer => {
+  if (typeof data !== "object" || data === null) return false;
+
+  const item = data as Record<string, unknown>;
+  return (
+    typeof item.rosctr === "number" &&
+    typeof item.pduReference === "number"
+  );
+};
+
+/**
+ * Industrial protocol layers decoded from a packet.
+ *
+ * Each property is present only when the packet carries that protocol.
+ */
+export interface IndustrialLayers {
+  /** Modbus/TCP */
+  modbus?: ModbusTcpLayer;
+  /** EtherNet/IP encapsulation */
+  enip?: EnipLayer;
+  /** Common Industrial Protocol */
+  cip?: CipLayer;
+  /** OPC UA binary */
+  opcua?: OpcUaLayer;
+  /** MQTT */
+  mqtt?: MqttLayer;
+  /** Siemens S7 communication */
+  s7comm?: S7commLayer;
+}
+
+/**
+ * Type guard to check if a packet carries a Modbus/TCP layer.
+ *
+ * @param packet - The packet to check
+ * @returns True if the packet has a decoded Modbus/TCP layer
+ *
+ * @example
+ * ```ts
+ * for (const packet of packets.filter(isModbusPacket)) {
+ *   console.log(packet.modbus.unitId, packet.modbus.functionCode);
+ * }
+ * ```
+ */
+export const isModbusPacket = (
+  packet: TsharkPacket,
+): packet is TsharkPacket & { modbus: ModbusTcpLayer } =>
+  isModbusTcpLayer(packet.modbus);
+
+/**
+ * Type guard to check if a packet carries an EtherNet/IP layer.
+ *
+ * @param packet - The packet to check
+ * @returns True if the packet has a decoded EtherNet/IP layer
+ */
+export const isEnipPacket = (
+  packet: TsharkPacket,
+): packet is TsharkPacket & { enip: EnipLayer } => isEnipLayer(packet.enip);
+
+/**
+ * Type guard to check if a packet carries a CIP layer.
+ *
+ * @param packet - The packet to check
+ * @returns True if the packet has a decoded CIP layer
+ */
+export const isCipPacket = (
+  packet: TsharkPacket,
+): packet is TsharkPacket & { cip: CipLayer } => isCipLayer(packet.cip);
+
+/**
+ * Type guard to check if a packet carries an OPC UA layer.
+ *
+ * @param packet - The packet to check
+ * @returns True if the packet has a decoded OPC UA layer
+ */
+export const isOpcUaPacket = (
+  packet: TsharkPacket,
+): packet is TsharkPacket & { opcua: OpcUaLayer } => isOpcUaLayer(packet.opcua);
+
+/**
+ * Type guard to check if a packet carries an MQTT layer.
+ *
+ * @param packet - The packet to check
+ * @returns True if the packet has a decoded MQTT layer
+ */
+export const isMqttPacket = (
+  packet: TsharkPacket,
+): packet is TsharkPacket & { mqtt: MqttLayer } => isMqttLayer(packet.mqtt);
+
+/**
+ * Type guard to check if a packet carries an S7comm layer.
+ *
+ * @param packet - The packet to check
+ * @returns True if the packet has a decoded S7comm layer
+ */
+export const isS7commPacket = (
+  packet: TsharkPacket,
+): packet is TsharkPacket & { s7comm: S7commLayer } =>
+  isS7commLayer(packet.s7comm);
+
+// Types for `tshark -z` statistics output
+
+/**
+ * Where to gather statistics from: a capture file or a bounded live capture.
+ *
+ * The optional filter is a display filter applied by the statistics tap.
+ */
+export type StatisticsSource =
+  | {
+    /** Path to a pcap or pcapng file */
+    path: string;
+    /** Display filter in Wireshark syntax */
+    filter?: string;
+  }
+  | {
+    /** Interface to capture on (e.g. "eth0") */
+    interface: string;
+    /** Capture for this many seconds */
+    duration: number;
+    /** Stop earlier after this many packets */
+    count?: number;
+    /** Display filter in Wireshark syntax */
+    filter?: string;
+  };
+
+/**
+ * Conversation types supported by `tshark -z conv,<type>`.
+ */
+export type ConversationType = "eth" | "ip" | "ipv6" | "tcp" | "udp";
+
+/**
+ * Endpoint types supported by `tshark -z endpoints,<type>`.
+ */
+export type EndpointType = ConversationType;
+
+/**
+ * Traffic between two endpoints, as reported by `tshark -z conv,<type>`.
+ *
+ * Directions are relative to the order tshark lists the endpoints in:
+ * "AToB" is traffic sent by `addressA`.
+ */
+export interface TsharkConversation {
+  /** First endpoint address */
+  addressA: string;
+  /** First endpoint port (TCP and UDP only) */
+  portA?: number;
+  /** Second endpoint address */
+  addressB: string;
+  /** Second endpoint port (TCP and UDP only) */
+  portB?: number;
+  /** Frames sent from A to B */
+  framesAToB: number;
+  /** Bytes sent from A to B */
+  bytesAToB: number;
+  /** Frames sent from B to A */
+  framesBToA: number;
+  /** Bytes sent from B to A */
+  bytesBToA: number;
+  /** Total frames in both directions */
+  frames: number;
+  /** Total bytes in both directions */
+  bytes: number;
+  /** Start of the conversation in seconds, relative to the first packet */
+  relativeStart: number;
+  /** Duration of the conversation in seconds */
+  duration: number;
+  /** Average rate from A to B in bits per second (0 for instantaneous conversations) */
+  bitsPerSecondAToB: number;
+  /** Average rate from B to A in bits per second (0 for instantaneous conversations) */
+  bitsPerSecondBToA: number;
+}
+
+/**
+ * Type guard to validate if unknown data is a valid TsharkConversation.
+ *
+ * @param data - The data to validate
+ * @returns True if data is a valid TsharkConversation, false otherwise
+ */
+export const isTsharkConversation = (
+  data: unknown,
+): data is TsharkConversation => {
+  if (typeof data !== "object" || data === null) return false;
+
+  const item = data as Record<string, unknown>;
+  return (
+    typeof item.addressA === "string" &&
+    typeof item.addressB === "string" &&
+    typeof item.framesAToB === "number" &&
+    typeof item.bytesAToB === "number" &&
+    typeof item.framesBToA === "number" &&
+    typeof item.bytesBToA === "number" &&
+    typeof item.duration === "number"
+  );
+};
+
+/**
+ * Traffic totals for a single endpoint, as reported by `tshark -z endpoints,<type>`.
+ */
+export interface TsharkEndpoint {
+  /** Endpoint address */
+  address: string;
+  /** Endpoint port (TCP and UDP only) */
+  port?: number;
+  /** Total packets sent and received */
+  packets: number;
+  /** Total bytes sent and received */
+  bytes: number;
+  /** Packets sent by the endpoint */
+  txPackets: number;
+  /** Bytes sent by the endpoint */
+  txBytes: number;
+  /** Packets received by the endpoint */
+  rxPackets: number;
+  /** Bytes received by the endpoint */
+  rxBytes: number;
+}
+
+/**
+ * Type guard to validate if unknown data is a valid TsharkEndpoint.
+ *
+ * @param data - The data to validate
+ * @returns True if data is a valid TsharkEndpoint, false otherwise
+ */
+export const isTsharkEndpoint = (data: unknown): data is TsharkEndpoint => {
+  if (typeof data !== "object" || data === null) return false;
+
+  const item = data as Record<string, unknown>;
+  return (
+    typeof item.address === "string" &&
+    typeof item.packets === "number" &&
+    typeof item.bytes === "number" &&
+    typeof item.txPackets === "number" &&
+    typeof item.rxPackets === "number"
+  );
+};
+
+/**
+ * Traffic in one time interval, as reported by `tshark -z io,stat,<interval>`.
+ */
+export interface TsharkIoInterval {
+  /** Interval start in seconds, relative to the first packet */
+  start: number;
+  /** Interval end in seconds, relative to the first packet */
+  end: number;
+  /** Frames in the interval */
+  frames: number;
+  /** Bytes in the interval */
+  bytes: number;
+  /** Average rate over the interval in bits per second */
+  bitsPerSecond: number;
+}
+
+/**
+ * Type guard to validate if unknown data is a valid TsharkIoInterval.
+ *
+ * @param data - The data to validate
+ * @returns True if data is a valid TsharkIoInterval, false otherwise
+ */
+export const isTsharkIoInterval = (data: unknown): data is TsharkIoInterval => {
+  if (typeof data !== "object" || data === null) return false;
+
+  const item = data as Record<string, unknown>;
+  return (
+    typeof item.start === "number" &&
+    typeof item.end === "number" &&
+    typeof item.frames === "number" &&
+    typeof item.bytes === "number"
+  );
+};
+
+// Types for ring buffer captures
+
+/**
+ * Options for a background ring buffer capture with `startRingBufferCapture`.
+ *
+ * At least one of `fileSize` or `fileDuration` should be set, otherwise
+ * dumpcap never switches to a new file.
+ */
+export interface RingBufferOptions {
+  /** Interface to capture on (e.g. "eth0") */
+  interface: string;
+  /** Directory the capture files are written to (created if missing) */
+  directory: string;
+  /** File name prefix (default: "capture") */
+  prefix?: string;
+  /** Capture filter in BPF syntax (e.g. "tcp port 502") */
+  filter?: string;
+  /** Switch to a new file after this many kilobytes */
+  fileSize?: number;
+  /** Switch to a new file after this many seconds */
+  fileDuration?: number;
+  /** Keep at most this many files, deleting the oldest */
+  maxFiles?: number;
+  /** Maximum number of bytes to capture per packet */
+  snaplen?: number;
+}
+
+/**
+ * A capture file written by a ring buffer capture.
+ *
+ * dumpcap names ring buffer files `<prefix>_<index>_<YYYYMMDDhhmmss>.pcapng`,
+ * so the start time is taken from the name and the end time is the start of
+ * the next file.
+ */
+export interface RingBufferFile {
+  /** Full path to the file */
+  path: string;
+  /** Sequence number of the file, starting at 1 */
+  index: number;
+  /** Time the file was started, as an ISO 8601 string */
+  start: string;
+  /** Time the next file was started, or undefined for the newest file */
+  end?: string;
+  /** File size in bytes */
+  size: number;
+}
+
+/**
+ * Type guard to validate if unknown data is a valid RingBufferFile.
+ *
+ * @param data - The data to validate
+ * @returns True if data is a valid RingBufferFile, false otherwise
+ */
+export const isRingBufferFile = (data: unknown): data is RingBufferFile => {
+  if (typeof data !== "object" || data === null) return false;
+
+  const item = data as Record<string, unknown>;
+  return (
+    typeof item.path === "string" &&
+    typeof item.index === "number" &&
+    typeof item.start === "string" &&
+    typeof item.size === "number"
+  );
+};
+
+/**
+ * A running background ring buffer capture.
+ */
+export interface RingBufferCapture {
+  /** Directory the capture files are written to */
+  directory: string;
+  /** File name prefix */
+  prefix: string;
+  /** Settles when the capture ends, with a Fail if dumpcap exited with an error */
+  done: Promise<Result<void>>;
+  /** Whether dumpcap is still running */
+  isRunning: () => boolean;
+  /** Stops the capture and returns every file it wrote */
+  stop: () => Promise<Result<RingBufferFile[]>>;
+  /** Lists the completed files, excluding the one currently being written */
+  listFiles: () => Promise<Result<RingBufferFile[]>>;
+  /** Finds the file covering a point in time, including the one being written */
+  findFile: (timestamp: Date) => Promise<Result<RingBufferFile>>;
+}
+
+// Types for capture interface discovery
+
+/**
+ * A capture interface reported by `tshark -D`, merged with its `ip address` details.
+ *
+ * Pseudo-interfaces such as "any" or extcap interfaces have no address data.
+ */
+export interface CaptureInterface {
+  /** Index tshark assigned to the interface (usable with `-i`) */
+  index: number;
+  /** Interface name (e.g. "eth0", "any") */
+  name: string;
+  /** Friendly description, if tshark reports one (e.g. "Loopback") */
+  description?: string;
+  /** Operational state from `ip address` */
+  operstate?: IpInterface["operstate"];
+  /** Hardware (MAC) address from `ip address` */
+  mac?: string;
+  /** IP addresses assigned to the interface */
+  addresses: IpAddressInfo[];
+}
+
+/**
+ * Type guard to validate if unknown data is a valid CaptureInterface.
+ *
+ * @param data - The data to validate
+ * @returns True if data is a valid CaptureInterface, false otherwise
+ */
+export const isCaptureInterface = (data: unknown): data is CaptureInterface => {
+  if (typeof data !== "object" || data === null) return false;
+
+  const item = data as Record<string, unknown>;
+  return (
+    typeof item.index === "number" &&
+    typeof item.name === "string" &&
+    Array.isArray(item.addresses)
+  );
+};
+
+/**
+ * Facts about the current user and dumpcap that decide whether capturing works.
+ */
+export interface CapturePermissionFacts {
+  /** Whether the process runs as root */
+  isRoot: boolean;
+  /** Path to the dumpcap binary, or undefined if it is not installed */
+  dumpcapPath?: string;
+  /** File capabilities set on dumpcap (e.g. ["cap_net_admin", "cap_net_raw"]) */
+  dumpcapCapabilities: string[];
+  /** Whether the current user may execute dumpcap */
+  dumpcapExecutable: boolean;
+  /** Group that owns dumpcap (usually "wireshark") */
+  dumpcapGroup?: string;
+  /** Groups the current user belongs to */
+  userGroups: string[];
+}
+
+/**
+ * Result of the capture permission preflight.
+ */
+export interface CapturePreflight extends CapturePermissionFacts {
+  /** Whether the current user can capture without elevating privileges */
+  canCapture: boolean;
+  /** How capturing is permitted: as root, or through dumpcap's capabilities */
+  method?: "root" | "capabilities";
+  /** Whether capturing requires running through sudo */
+  requiresSudo: boolean;
+  /** Operator-facing explanations of what is missing and how to fix it */
+  problems: string[];
+}
+
+/**
+ * Type guard to validate if unknown data is a valid CapturePreflight.
+ *
+ * @param data - The data to validate
+ * @returns True if data is a valid CapturePreflight, false otherwise
+ */
+export const isCapturePreflight = (data: unknown): data is CapturePreflight => {
+  if (typeof data !== "object" || data === null) return false;
+
+  const item = data as Record<string, unknown>;
+  return (
+    typeof item.canCapture === "boolean" &&
+    typeof item.requiresSudo === "boolean" &&
+    typeof item.isRoot === "boolean" &&
+    Array.isArray(item.problems)
+  );
+};
+
+// Types for capture and display filters
+
+/**
+ * Traffic direction a host, network or port expression applies to.
+ *
+ * Without a direction the expression matches either end.
+ */
+export type FilterDirection = "src" | "dst";
+
+/**
+ * Protocols that can be expressed in both capture and display filters.
+ */
+export type FilterProtocol =
+  | "ip"
+  | "ip6"
+  | "arp"
+  | "icmp"
+  | "icmp6"
+  | "tcp"
+  | "udp";
+
+/**
+ * A protocol-neutral filter expression.
+ *
+ * Build expressions with the helpers in the filter module (`host`, `net`,
+ * `port`, `and`, ...) and render them with `toCaptureFilter` or
+ * `toDisplayFilter`.
+ */
+export type FilterExpression =
+  | { kind: "host"; address: string; direction?: FilterDirection }
+  | { kind: "net"; network: string; direction?: FilterDirection }
+  | {
+    kind: "port";
+    port: number;
+    protocol?: "tcp" | "udp";
+    direction?: FilterDirection;
+  }
+  | {
+    kind: "portrange";
+    from: number;
+    to: number;
+    protocol?: "tcp" | "udp";
+    direction?: FilterDirection;
+  }
+  | { kind: "protocol"; protocol: FilterProtocol }
+  | { kind: "and"; expressions: FilterExpression[] }
+  | { kind: "or"; expressions: FilterExpression[] }
+  | { kind: "not"; expression: FilterExpression };
+
+/**
+ * Why a filter failed to compile.
+ */
+export interface FilterError {
+  /** Error message reported by tshark or dumpcap */
+  message: string;
+  /** Zero-based offset into the filter where the error was found, if reported */
+  position?: number;
+  /** Length of the offending token, if reported */
+  length?: number;
+}
+
+/**
+ * Outcome of compiling a filter.
+ */
+export type FilterValidation =
+  | { valid: true; filter: string }
+  | { valid: false; filter: string; error: FilterError };
+
+/**
+ * Type guard to validate if unknown data is a valid FilterValidation.
+ *
+ * @param data - The data to validate
+ * @returns True if data is a valid FilterValidation, false otherwise
+ */
+export const isFilterValidation = (data: unknown): data is FilterValidation => {
+  if (typeof data !== "object" || data === null) return false;
+
+  const item = data as Record<string, unknown>;
+  return (
+    typeof item.valid === "boolean" &&
+    typeof item.filter === "string" &&
+    (item.valid || (typeof item.error === "object" && item.error !== null))
+  );
+};
+
+// Types for `tshark -T fields` output
+
+/**
+ * Type to coerce an extracted field to.
+ *
+ * Scalar types keep the first occurrence of a field in each packet; array
+ * types keep every occurrence (e.g. all register values of a Modbus response).
+ */
+export type FieldType =
+  | "string"
+  | "number"
+  | "boolean"
+  | "string[]"
+  | "number[]"
+  | "boolean[]";
+
+/**
+ * Fields to extract, mapping Wireshark field names to the type of their value.
+ *
+ * @example
+ * ```ts
+ * const spec = { "ip.src": "string", "tcp.dstport": "number" } as const;
+ * ```
+ */
+export type FieldSpec = Record<string, FieldType>;
+
+/**
+ * TypeScript type of each FieldType.
+ */
+export interface FieldTypeMap {
+  string: string;
+  number: number;
+  boolean: boolean;
+  "string[]": string[];
+  "number[]": number[];
+  "boolean[]": boolean[];
+}
+
+/**
+ * One packet's extracted fields, typed by the FieldSpec that requested them.
+ *
+ * Scalar fields are undefined when the packet does not contain them; array
+ * fields are empty instead.
+ */
+export type FieldRow<S extends FieldSpec> = {
+  [K in keyof S]: S[K] extends `${string}[]` ? FieldTypeMap[S[K]]
+    : FieldTypeMap[S[K]] | undefined;
+};